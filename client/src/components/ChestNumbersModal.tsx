@@ -0,0 +1,215 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Hash } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { ChestNumberAssign, ChestNumberSettings, Program, Team } from "@shared/schema";
+
+interface ChestNumbersModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  teams: Team[];
+}
+
+const ALL_PROGRAMS = "all";
+
+type RangeInputs = Record<number, { from: string; to: string }>;
+
+// Admin settings for chest numbers, the anonymous numbers judges see instead
+// of names and codes, and the button that gives them out
+export function ChestNumbersModal({ isOpen, onClose, teams }: ChestNumbersModalProps) {
+  const [scope, setScope] = useState<ChestNumberSettings["scope"]>("festival");
+  const [method, setMethod] = useState<ChestNumberSettings["method"]>("random");
+  const [start, setStart] = useState("101");
+  const [ranges, setRanges] = useState<RangeInputs>({});
+  const [programId, setProgramId] = useState(ALL_PROGRAMS);
+  const [keepExisting, setKeepExisting] = useState(true);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: settings } = useQuery<ChestNumberSettings>({
+    queryKey: ["/api/settings/chest-numbers"],
+    enabled: isOpen,
+  });
+
+  const { data: programs = [] } = useQuery<Program[]>({
+    queryKey: ["/api/programs"],
+    enabled: isOpen,
+  });
+
+  useEffect(() => {
+    if (settings) {
+      setScope(settings.scope);
+      setMethod(settings.method);
+      setStart(settings.start.toString());
+      setRanges(Object.fromEntries(settings.teamRanges.map(range => [
+        range.teamId, { from: range.from.toString(), to: range.to.toString() }
+      ])));
+    }
+  }, [settings]);
+
+  const setRange = (teamId: number, end: "from" | "to", value: string) => {
+    setRanges(current => ({
+      ...current,
+      [teamId]: { ...(current[teamId] ?? { from: "", to: "" }), [end]: value },
+    }));
+  };
+
+  // Teams left blank have no range
+  const currentSettings = (): ChestNumberSettings => ({
+    scope,
+    method,
+    start: parseInt(start) || 1,
+    teamRanges: teams
+      .filter(team => ranges[team.id]?.from && ranges[team.id]?.to)
+      .map(team => ({ teamId: team.id, from: parseInt(ranges[team.id].from), to: parseInt(ranges[team.id].to) })),
+  });
+
+  const assignMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("PUT", "/api/settings/chest-numbers", currentSettings());
+      const assign: ChestNumberAssign = {
+        programId: scope === "program" && programId !== ALL_PROGRAMS ? parseInt(programId) : undefined,
+        keepExisting,
+      };
+      const response = await apiRequest("POST", "/api/chest-numbers/assign", assign);
+      return response.json() as Promise<{ assigned: number }>;
+    },
+    onSuccess: ({ assigned }) => {
+      toast({
+        title: "Chest Numbers Assigned",
+        description: `${assigned} new chest number${assigned === 1 ? "" : "s"} given out.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/settings/chest-numbers"] });
+      queryClient.invalidateQueries({
+        predicate: query => String(query.queryKey[0]).startsWith("/api/registrations"),
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Assignment Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <Hash className="h-5 w-5" />
+            <span>Chest Numbers</span>
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <p className="text-sm text-gray-600 dark:text-gray-300">
+            Judges see performers only by chest number, never by name, code or team. Numbers print on ID cards and
+            call sheets.
+          </p>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label className="mb-2 block">Numbers Given</Label>
+              <Select value={scope} onValueChange={(value) => setScope(value as ChestNumberSettings["scope"])}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="festival">Once per festival</SelectItem>
+                  <SelectItem value="program">Per program</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label className="mb-2 block">Method</Label>
+              <Select value={method} onValueChange={(value) => setMethod(value as ChestNumberSettings["method"])}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="random">Random</SelectItem>
+                  <SelectItem value="team-ranges">A range per team</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {method === "random" ? (
+            <div className="w-1/2 pr-2">
+              <Label className="mb-2 block">First Number</Label>
+              <Input type="number" min={1} value={start} onChange={(e) => setStart(e.target.value)} />
+            </div>
+          ) : (
+            <div className="space-y-3">
+              <p className="text-sm text-gray-600 dark:text-gray-300">
+                Each team's numbers are drawn at random from its range. Ranges must not overlap.
+              </p>
+              {teams.map(team => (
+                <div key={team.id} className="grid grid-cols-3 gap-4 items-center">
+                  <span className="font-medium text-gray-900 dark:text-white">{team.name}</span>
+                  <Input
+                    type="number"
+                    min={1}
+                    placeholder="From"
+                    value={ranges[team.id]?.from ?? ""}
+                    onChange={(e) => setRange(team.id, "from", e.target.value)}
+                  />
+                  <Input
+                    type="number"
+                    min={1}
+                    placeholder="To"
+                    value={ranges[team.id]?.to ?? ""}
+                    onChange={(e) => setRange(team.id, "to", e.target.value)}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="space-y-3 border-t pt-4">
+            {scope === "program" && (
+              <div>
+                <Label className="mb-2 block">Program</Label>
+                <Select value={programId} onValueChange={setProgramId}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_PROGRAMS}>All programs</SelectItem>
+                    {programs.map(program => (
+                      <SelectItem key={program.id} value={program.id.toString()}>{program.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="keep-existing-chest-numbers"
+                checked={keepExisting}
+                onCheckedChange={(checked) => setKeepExisting(checked === true)}
+              />
+              <Label htmlFor="keep-existing-chest-numbers" className="font-normal">
+                Keep numbers already given and only number those without one
+              </Label>
+            </div>
+          </div>
+
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={onClose}>
+              Close
+            </Button>
+            <Button onClick={() => assignMutation.mutate()} disabled={assignMutation.isPending}>
+              Save & Assign
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,121 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { KeyRound, Search } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { ParticipantWithTeam } from "@shared/schema";
+
+interface CodeResetModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Admin lookup for participants who lost their code and their recovery word
+export function CodeResetModal({ isOpen, onClose }: CodeResetModalProps) {
+  const [search, setSearch] = useState("");
+  const [resetKeys, setResetKeys] = useState<Record<number, string>>({});
+  const { toast } = useToast();
+
+  const query = search.trim();
+  const { data: matches = [], isFetching } = useQuery<ParticipantWithTeam[]>({
+    queryKey: [`/api/participants/search?q=${encodeURIComponent(query)}`],
+    enabled: isOpen && query.length >= 2,
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async (participantId: number) => {
+      const response = await apiRequest("POST", `/api/participants/${participantId}/recovery-reset`);
+      return { participantId, ...(await response.json()) };
+    },
+    onSuccess: (data) => {
+      setResetKeys(keys => ({ ...keys, [data.participantId]: data.resetKey }));
+      toast({
+        title: "Reset Key Issued",
+        description: data.message,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Reset Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleClose = () => {
+    setSearch("");
+    setResetKeys({});
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <KeyRound className="h-5 w-5" />
+            <span>Code Recovery</span>
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600 dark:text-gray-300">
+            Find the participant, check who they are, then issue a reset key. They enter the key as their
+            recovery word on the registration page to get their code back. Every reset is logged.
+          </p>
+
+          <div className="relative">
+            <Search className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search by name or code"
+              className="pl-9"
+            />
+          </div>
+
+          {query.length >= 2 && !isFetching && matches.length === 0 && (
+            <p className="text-sm text-gray-500">No participants found</p>
+          )}
+
+          <div className="space-y-2">
+            {matches.map(participant => (
+              <div key={participant.id} className="flex items-center justify-between border rounded-lg p-3">
+                <div>
+                  <p className="font-medium text-gray-900 dark:text-white">{participant.fullName}</p>
+                  <div className="flex items-center space-x-2 mt-1">
+                    <Badge variant="outline" className="font-mono">{participant.uniqueCode}</Badge>
+                    <span className="text-xs text-gray-500 dark:text-gray-400">{participant.team.name}</span>
+                  </div>
+                </div>
+                {resetKeys[participant.id] ? (
+                  <Badge className="font-mono text-base">{resetKeys[participant.id]}</Badge>
+                ) : (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={resetMutation.isPending}
+                    onClick={() => resetMutation.mutate(participant.id)}
+                  >
+                    Issue Reset Key
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <div className="flex justify-end">
+            <Button variant="outline" onClick={handleClose}>
+              Close
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,133 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Users, ArrowLeft, ArrowRight, CheckCircle } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { DuplicatePair, MergeParticipants, ParticipantWithTeam } from "@shared/schema";
+
+interface DuplicatesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+function ParticipantSummary({ participant }: { participant: ParticipantWithTeam }) {
+  return (
+    <div className="min-w-0">
+      <p className="font-medium text-gray-900 dark:text-white truncate">{participant.fullName}</p>
+      <div className="flex items-center space-x-2 mt-1">
+        <Badge variant="outline" className="font-mono">{participant.uniqueCode}</Badge>
+        <span className="text-xs text-gray-500 dark:text-gray-400">{participant.team.name}</span>
+      </div>
+    </div>
+  );
+}
+
+export function DuplicatesModal({ isOpen, onClose }: DuplicatesModalProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: pairs = [], isLoading } = useQuery<DuplicatePair[]>({
+    queryKey: ["/api/participants/duplicates"],
+    enabled: isOpen,
+  });
+
+  const mergeMutation = useMutation({
+    mutationFn: async (data: MergeParticipants) => {
+      const response = await apiRequest("POST", "/api/participants/merge", data);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Participants Merged",
+        description: `${data.message}. Moved ${data.moved} registration(s), dropped ${data.dropped} duplicate(s).`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/participants/duplicates"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/registrations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/group-entries"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Merge Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <Users className="h-5 w-5" />
+            <span>Likely Duplicate Participants</span>
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600 dark:text-gray-300">
+            These participants have names that differ only in spelling, spacing or case. Merging moves every
+            registration onto the participant you keep and deletes the other code.
+          </p>
+
+          {isLoading ? (
+            <p className="text-sm text-gray-500">Looking for duplicates...</p>
+          ) : pairs.length === 0 ? (
+            <div className="flex items-center space-x-2 text-sm text-green-600 dark:text-green-400">
+              <CheckCircle className="h-4 w-4" />
+              <span>No likely duplicates found</span>
+            </div>
+          ) : (
+            pairs.map(({ first, second, score }) => {
+              const sameTeam = first.teamId === second.teamId;
+              return (
+                <div key={`${first.id}-${second.id}`} className="border rounded-lg p-4 space-y-3">
+                  <div className="grid grid-cols-[1fr_auto_1fr] items-center gap-4">
+                    <ParticipantSummary participant={first} />
+                    <Badge variant="secondary">{Math.round(score * 100)}% alike</Badge>
+                    <ParticipantSummary participant={second} />
+                  </div>
+                  {sameTeam ? (
+                    <div className="flex justify-between">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={mergeMutation.isPending}
+                        onClick={() => mergeMutation.mutate({ keepId: first.id, mergeId: second.id })}
+                      >
+                        <ArrowLeft className="mr-2 h-4 w-4" />
+                        Keep {first.uniqueCode}
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={mergeMutation.isPending}
+                        onClick={() => mergeMutation.mutate({ keepId: second.id, mergeId: first.id })}
+                      >
+                        Keep {second.uniqueCode}
+                        <ArrowRight className="ml-2 h-4 w-4" />
+                      </Button>
+                    </div>
+                  ) : (
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      Different teams, so these cannot be merged. Check with the team managers.
+                    </p>
+                  )}
+                </div>
+              );
+            })
+          )}
+
+          <div className="flex justify-end">
+            <Button variant="outline" onClick={onClose}>
+              Close
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
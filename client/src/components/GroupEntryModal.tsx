@@ -0,0 +1,201 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Users, Plus, X, AlertCircle, Crown } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, ApiError } from "@/lib/queryClient";
+import type {
+  CodeFormat,
+  GroupEntryInput,
+  GroupEntryWithDetails,
+  ParticipantRegistration,
+  ParticipantWithTeam,
+  Program,
+  RuleViolation
+} from "@shared/schema";
+import { isMistypedCode } from "@shared/codes";
+
+interface GroupEntryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  program: Program | null;
+  leader: ParticipantWithTeam;
+  onEntryCreated: (entry: GroupEntryWithDetails, registrations: ParticipantRegistration[]) => void;
+}
+
+export function GroupEntryModal({ isOpen, onClose, program, leader, onEntryCreated }: GroupEntryModalProps) {
+  const [memberCode, setMemberCode] = useState("");
+  const [memberCodes, setMemberCodes] = useState<string[]>([]);
+  const [violations, setViolations] = useState<RuleViolation[]>([]);
+  const [codeError, setCodeError] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: codeFormat } = useQuery<CodeFormat>({
+    queryKey: ["/api/settings/code-format"],
+    enabled: isOpen,
+  });
+
+  const rosterSize = memberCodes.length + 1;
+
+  const createEntryMutation = useMutation({
+    mutationFn: async (data: GroupEntryInput) => {
+      const response = await apiRequest("POST", "/api/group-entries", data);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      onEntryCreated(data.entry, data.registrations);
+      toast({
+        title: "Group Entered!",
+        description: data.message,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/group-entries"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
+      handleClose();
+    },
+    onError: (error: Error) => {
+      if (error instanceof ApiError && error.data?.violations) {
+        setViolations(error.data.violations);
+      }
+      toast({
+        title: "Group Entry Failed",
+        description: error instanceof ApiError && error.data?.message ? error.data.message : error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const addMember = () => {
+    const code = memberCode.trim().toUpperCase();
+    if (codeFormat && isMistypedCode(code, codeFormat)) {
+      setCodeError(`${code} has a typo. Please check it and try again.`);
+      return;
+    }
+    setCodeError("");
+    if (!code || code === leader.uniqueCode || memberCodes.includes(code)) {
+      setMemberCode("");
+      return;
+    }
+    setMemberCodes([...memberCodes, code]);
+    setMemberCode("");
+  };
+
+  const removeMember = (code: string) => {
+    setMemberCodes(memberCodes.filter(c => c !== code));
+  };
+
+  const handleClose = () => {
+    setMemberCode("");
+    setMemberCodes([]);
+    setViolations([]);
+    setCodeError("");
+    onClose();
+  };
+
+  const handleSubmit = () => {
+    if (!program) return;
+    setViolations([]);
+    createEntryMutation.mutate({
+      programId: program.id,
+      leaderCode: leader.uniqueCode,
+      memberCodes,
+    });
+  };
+
+  const tooFew = !!program?.minMembers && rosterSize < program.minMembers;
+  const tooMany = !!program?.maxMembers && rosterSize > program.maxMembers;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <Users className="h-5 w-5" />
+            <span>Group Entry: {program?.name}</span>
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <p className="text-sm text-gray-600 dark:text-gray-300">
+            Enter the unique codes of your teammates. Your team can enter this program once, and the group is judged as one competitor.
+            {program?.minMembers || program?.maxMembers ? (
+              <span className="block mt-1 font-medium">
+                Group size: {program.minMembers ?? 1} – {program.maxMembers ?? "any"} members, including you.
+              </span>
+            ) : null}
+          </p>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between p-3 rounded-lg bg-blue-50 dark:bg-blue-900/20">
+              <div className="flex items-center space-x-2">
+                <Crown className="h-4 w-4 text-yellow-500" />
+                <span className="font-medium">{leader.fullName}</span>
+              </div>
+              <Badge variant="outline" className="font-mono">{leader.uniqueCode}</Badge>
+            </div>
+            {memberCodes.map(code => (
+              <div key={code} className="flex items-center justify-between p-3 rounded-lg bg-gray-50 dark:bg-gray-800">
+                <Badge variant="outline" className="font-mono">{code}</Badge>
+                <Button variant="ghost" size="sm" onClick={() => removeMember(code)}>
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex space-x-2">
+            <Input
+              value={memberCode}
+              onChange={(e) => setMemberCode(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") {
+                  e.preventDefault();
+                  addMember();
+                }
+              }}
+              placeholder="Teammate's code"
+              className="font-mono"
+            />
+            <Button variant="outline" onClick={addMember}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add
+            </Button>
+          </div>
+
+          {codeError && (
+            <div className="flex items-center space-x-1 text-sm text-red-600 dark:text-red-400">
+              <AlertCircle className="h-4 w-4 flex-shrink-0" />
+              <span>{codeError}</span>
+            </div>
+          )}
+
+          {violations.length > 0 && (
+            <div className="space-y-1">
+              {violations.map((violation, index) => (
+                <div key={index} className="flex items-center space-x-1 text-sm text-red-600 dark:text-red-400">
+                  <AlertCircle className="h-4 w-4 flex-shrink-0" />
+                  <span>{violation.message}</span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-3">
+            <Button variant="outline" onClick={handleClose}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSubmit}
+              disabled={tooFew || tooMany || createEntryMutation.isPending}
+            >
+              {createEntryMutation.isPending ? "Entering..." : `Enter Group (${rosterSize})`}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -9,9 +9,10 @@ interface ImageUploadModalProps {
   isOpen: boolean;
   onClose: () => void;
   onImageUpload: (imageUrl: string) => void;
+  uniqueCode?: string; // needed when the uploader has no session
 }
 
-export function ImageUploadModal({ isOpen, onClose, onImageUpload }: ImageUploadModalProps) {
+export function ImageUploadModal({ isOpen, onClose, onImageUpload, uniqueCode }: ImageUploadModalProps) {
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
   const [isUploading, setIsUploading] = useState(false);
@@ -53,7 +54,8 @@ export function ImageUploadModal({ isOpen, onClose, onImageUpload }: ImageUpload
       const formData = new FormData();
       formData.append('image', selectedFile);
 
-      const response = await fetch('/api/upload/profile', {
+      const query = uniqueCode ? `?code=${encodeURIComponent(uniqueCode)}` : '';
+      const response = await fetch(`/api/upload/profile${query}`, {
         method: 'POST',
         body: formData,
         credentials: 'include',
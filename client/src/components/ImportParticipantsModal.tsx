@@ -0,0 +1,210 @@
+import { useRef, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { FileSpreadsheet, Upload, Download, AlertCircle, CheckCircle } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { exportImportedCodes } from "@/lib/reportGenerator";
+import type { ImportResult, Team } from "@shared/schema";
+
+interface ImportParticipantsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  teams: Team[];
+  canChooseTeam: boolean; // team managers always import into their own team
+}
+
+export function ImportParticipantsModal({ isOpen, onClose, teams, canChooseTeam }: ImportParticipantsModalProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [teamId, setTeamId] = useState("");
+  const [preview, setPreview] = useState<ImportResult | null>(null);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const importMutation = useMutation({
+    mutationFn: async (dryRun: boolean): Promise<ImportResult> => {
+      const formData = new FormData();
+      formData.append("file", file!);
+      formData.append("dryRun", String(dryRun));
+      if (teamId) formData.append("teamId", teamId);
+
+      // Sent as multipart form data, so apiRequest's JSON body does not fit
+      const response = await fetch("/api/import/participants", {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || "Import failed");
+      }
+      return data;
+    },
+    onSuccess: (data) => {
+      if (data.dryRun) {
+        setPreview(data);
+        return;
+      }
+      setResult(data);
+      toast({
+        title: "Import Complete",
+        description: data.message,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/registrations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Import Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    setFile(event.target.files?.[0] ?? null);
+    setPreview(null);
+    setResult(null);
+  };
+
+  const handleClose = () => {
+    setFile(null);
+    setTeamId("");
+    setPreview(null);
+    setResult(null);
+    onClose();
+  };
+
+  const shownRows = result?.rows ?? preview?.rows ?? [];
+  const readyCount = preview?.rows.filter(row => row.errors.length === 0).length ?? 0;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <FileSpreadsheet className="h-5 w-5" />
+            <span>Import Participants</span>
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <p className="text-sm text-gray-600 dark:text-gray-300">
+            Upload a CSV or XLSX file with a <strong>Name</strong> column and optional <strong>Team</strong> and
+            <strong> Programs</strong> columns. List several programs in one cell, separated by commas.
+            Nothing is saved until you have checked the preview.
+          </p>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <Label className="mb-2 block">Spreadsheet</Label>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".csv,.xlsx"
+                onChange={handleFileSelect}
+                className="hidden"
+              />
+              <Button variant="outline" className="w-full justify-start" onClick={() => fileInputRef.current?.click()}>
+                <Upload className="mr-2 h-4 w-4" />
+                {file ? file.name : "Choose file"}
+              </Button>
+            </div>
+            {canChooseTeam && (
+              <div>
+                <Label className="mb-2 block">Team for rows without one</Label>
+                <Select value={teamId} onValueChange={(value) => { setTeamId(value); setPreview(null); }}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Use the Team column" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {teams.map(team => (
+                      <SelectItem key={team.id} value={team.id.toString()}>
+                        {team.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+
+          {shownRows.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-sm font-medium">{result?.message ?? preview?.message}</p>
+              <div className="border rounded-lg overflow-hidden">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-16">Row</TableHead>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Team</TableHead>
+                      <TableHead>Programs</TableHead>
+                      <TableHead>{result ? "Code" : "Status"}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {shownRows.map(row => (
+                      <TableRow key={row.row}>
+                        <TableCell className="text-gray-500">{row.row}</TableCell>
+                        <TableCell className="font-medium">{row.fullName}</TableCell>
+                        <TableCell>{row.teamName ?? "—"}</TableCell>
+                        <TableCell className="text-sm">{row.programNames.join(", ") || "—"}</TableCell>
+                        <TableCell>
+                          {row.uniqueCode ? (
+                            <Badge variant="outline" className="font-mono">{row.uniqueCode}</Badge>
+                          ) : row.errors.length > 0 ? (
+                            <div className="space-y-1">
+                              {row.errors.map((error, index) => (
+                                <div key={index} className="flex items-center space-x-1 text-sm text-red-600 dark:text-red-400">
+                                  <AlertCircle className="h-4 w-4 flex-shrink-0" />
+                                  <span>{error}</span>
+                                </div>
+                              ))}
+                            </div>
+                          ) : (
+                            <span className="flex items-center space-x-1 text-sm text-green-600 dark:text-green-400">
+                              <CheckCircle className="h-4 w-4" />
+                              <span>Ready</span>
+                            </span>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-3">
+            <Button variant="outline" onClick={handleClose}>
+              {result ? "Close" : "Cancel"}
+            </Button>
+            {result ? (
+              <Button onClick={() => exportImportedCodes(result.rows)} disabled={result.imported === 0}>
+                <Download className="mr-2 h-4 w-4" />
+                Download Codes
+              </Button>
+            ) : preview ? (
+              <Button onClick={() => importMutation.mutate(false)} disabled={readyCount === 0 || importMutation.isPending}>
+                {importMutation.isPending ? "Importing..." : `Import ${readyCount} Row(s)`}
+              </Button>
+            ) : (
+              <Button onClick={() => importMutation.mutate(true)} disabled={!file || importMutation.isPending}>
+                {importMutation.isPending ? "Checking..." : "Check File"}
+              </Button>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,423 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ListOrdered, Plus, Pencil, Archive, ArchiveRestore, ArrowUp, ArrowDown, X, AlertCircle } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { toDateTimeInput, fromDateTimeInput } from "@/lib/windows";
+import { programFormSchema, type JudgingCriterion, type Program, type ProgramForm } from "@shared/schema";
+
+interface ProgramsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+interface CriterionDraft {
+  name: string;
+  weight: string;
+  maxScore: string;
+}
+
+// Form fields are kept as text and converted when saving
+interface ProgramDraft {
+  name: string;
+  type: string;
+  participationType: string;
+  description: string;
+  category: string;
+  section: string;
+  ageGroup: string;
+  minMembers: string;
+  maxMembers: string;
+  maxEntries: string;
+  capacity: string;
+  durationMinutes: string;
+  registrationOpensAt: string;
+  registrationClosesAt: string;
+  criteria: CriterionDraft[];
+}
+
+const emptyDraft: ProgramDraft = {
+  name: "",
+  type: "stage",
+  participationType: "individual",
+  description: "",
+  category: "",
+  section: "",
+  ageGroup: "",
+  minMembers: "",
+  maxMembers: "",
+  maxEntries: "",
+  capacity: "",
+  durationMinutes: "",
+  registrationOpensAt: "",
+  registrationClosesAt: "",
+  criteria: [],
+};
+
+function toDraft(program: Program, criteria: JudgingCriterion[]): ProgramDraft {
+  const text = (value: string | number | null) => (value === null ? "" : String(value));
+  return {
+    name: program.name,
+    type: program.type,
+    participationType: program.participationType,
+    description: text(program.description),
+    category: text(program.category),
+    section: text(program.section),
+    ageGroup: text(program.ageGroup),
+    minMembers: text(program.minMembers),
+    maxMembers: text(program.maxMembers),
+    maxEntries: text(program.maxEntries),
+    capacity: text(program.capacity),
+    durationMinutes: text(program.durationMinutes),
+    registrationOpensAt: toDateTimeInput(program.registrationOpensAt),
+    registrationClosesAt: toDateTimeInput(program.registrationClosesAt),
+    criteria: criteria.map(c => ({ name: c.name, weight: String(c.weight), maxScore: String(c.maxScore) })),
+  };
+}
+
+function toNumber(value: string): number | null {
+  return value.trim() === "" ? null : Number(value);
+}
+
+export function ProgramsModal({ isOpen, onClose }: ProgramsModalProps) {
+  // null while listing, "new" or a program id while editing
+  const [editing, setEditing] = useState<"new" | number | null>(null);
+  const [draft, setDraft] = useState<ProgramDraft>(emptyDraft);
+  const [formError, setFormError] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: programs = [] } = useQuery<Program[]>({
+    queryKey: ["/api/programs?includeArchived=true"],
+    enabled: isOpen,
+  });
+
+  const refreshPrograms = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/programs?includeArchived=true"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/programs"] });
+  };
+
+  const showError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (form: ProgramForm) => {
+      const response = editing === "new"
+        ? await apiRequest("POST", "/api/programs", form)
+        : await apiRequest("PUT", `/api/programs/${editing}`, form);
+      return response.json();
+    },
+    onSuccess: (program: Program) => {
+      toast({ title: "Program Saved", description: program.name });
+      refreshPrograms();
+      setEditing(null);
+    },
+    onError: (error: Error) => setFormError(error.message),
+  });
+
+  const archiveMutation = useMutation({
+    mutationFn: async ({ id, archived }: { id: number; archived: boolean }) => {
+      const response = await apiRequest("PUT", `/api/programs/${id}/archived`, { archived });
+      return response.json();
+    },
+    onSuccess: refreshPrograms,
+    onError: showError("Archive Failed"),
+  });
+
+  const orderMutation = useMutation({
+    mutationFn: async (programIds: number[]) => {
+      const response = await apiRequest("PUT", "/api/programs/order", { programIds });
+      return response.json();
+    },
+    onSuccess: refreshPrograms,
+    onError: showError("Reorder Failed"),
+  });
+
+  const startEditing = async (program?: Program) => {
+    setFormError("");
+    if (!program) {
+      setDraft(emptyDraft);
+      setEditing("new");
+      return;
+    }
+    try {
+      const response = await apiRequest("GET", `/api/programs/${program.id}/criteria`);
+      setDraft(toDraft(program, await response.json()));
+      setEditing(program.id);
+    } catch (error) {
+      showError("Could Not Load Program")(error as Error);
+    }
+  };
+
+  const move = (index: number, offset: number) => {
+    const ids = programs.map(p => p.id);
+    const [moved] = ids.splice(index, 1);
+    ids.splice(index + offset, 0, moved);
+    orderMutation.mutate(ids);
+  };
+
+  const handleSave = () => {
+    setFormError("");
+    const isGroup = draft.participationType === "group";
+    const parsed = programFormSchema.safeParse({
+      name: draft.name,
+      type: draft.type,
+      participationType: draft.participationType,
+      description: draft.description,
+      category: draft.category,
+      section: draft.section,
+      ageGroup: draft.ageGroup,
+      minMembers: isGroup ? toNumber(draft.minMembers) : null,
+      maxMembers: isGroup ? toNumber(draft.maxMembers) : null,
+      maxEntries: toNumber(draft.maxEntries),
+      capacity: toNumber(draft.capacity),
+      durationMinutes: toNumber(draft.durationMinutes),
+      registrationOpensAt: fromDateTimeInput(draft.registrationOpensAt),
+      registrationClosesAt: fromDateTimeInput(draft.registrationClosesAt),
+      criteria: draft.criteria.length > 0
+        ? draft.criteria.map(c => ({ name: c.name.trim(), weight: Number(c.weight), maxScore: Number(c.maxScore) || 10 }))
+        : undefined,
+    });
+    if (!parsed.success) {
+      setFormError(parsed.error.errors[0].message);
+      return;
+    }
+    saveMutation.mutate(parsed.data);
+  };
+
+  const setField = (field: keyof Omit<ProgramDraft, "criteria">) => (value: string) => {
+    setDraft(current => ({ ...current, [field]: value }));
+  };
+
+  const setCriterion = (index: number, field: keyof CriterionDraft, value: string) => {
+    setDraft(current => ({
+      ...current,
+      criteria: current.criteria.map((c, i) => (i === index ? { ...c, [field]: value } : c)),
+    }));
+  };
+
+  const handleClose = () => {
+    setEditing(null);
+    setFormError("");
+    onClose();
+  };
+
+  const textField = (label: string, field: keyof Omit<ProgramDraft, "criteria">, type = "text") => (
+    <div>
+      <Label className="mb-2 block">{label}</Label>
+      <Input type={type} value={draft[field]} onChange={(e) => setField(field)(e.target.value)} />
+    </div>
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <ListOrdered className="h-5 w-5" />
+            <span>{editing === null ? "Programs" : editing === "new" ? "New Program" : "Edit Program"}</span>
+          </DialogTitle>
+        </DialogHeader>
+
+        {editing === null ? (
+          <div className="space-y-4">
+            <div className="flex justify-between items-center">
+              <p className="text-sm text-gray-600 dark:text-gray-300">
+                Archived programs take no new registrations. Entries already made are kept.
+              </p>
+              <Button size="sm" onClick={() => startEditing()}>
+                <Plus className="mr-2 h-4 w-4" />
+                New Program
+              </Button>
+            </div>
+
+            <div className="space-y-2">
+              {programs.map((program, index) => (
+                <div
+                  key={program.id}
+                  className={`flex items-center justify-between border rounded-lg p-3 ${program.archived ? "opacity-60" : ""}`}
+                >
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-900 dark:text-white truncate">{program.name}</p>
+                    <div className="flex flex-wrap items-center gap-1 mt-1">
+                      <Badge variant="outline">{program.type}</Badge>
+                      <Badge variant="outline">{program.participationType}</Badge>
+                      {program.category && <Badge variant="secondary">{program.category}</Badge>}
+                      {program.section && <Badge variant="secondary">{program.section}</Badge>}
+                      {program.ageGroup && <Badge variant="secondary">{program.ageGroup}</Badge>}
+                      {program.archived && <Badge variant="destructive">Archived</Badge>}
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-1 flex-shrink-0">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={index === 0 || orderMutation.isPending}
+                      onClick={() => move(index, -1)}
+                    >
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={index === programs.length - 1 || orderMutation.isPending}
+                      onClick={() => move(index, 1)}
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => startEditing(program)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={archiveMutation.isPending}
+                      onClick={() => archiveMutation.mutate({ id: program.id, archived: !program.archived })}
+                    >
+                      {program.archived ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {textField("Name", "name")}
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label className="mb-2 block">Type</Label>
+                <Select value={draft.type} onValueChange={setField("type")}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="stage">Stage</SelectItem>
+                    <SelectItem value="non-stage">Non-stage</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label className="mb-2 block">Participation</Label>
+                <Select value={draft.participationType} onValueChange={setField("participationType")}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="individual">Individual</SelectItem>
+                    <SelectItem value="group">Group</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div>
+              <Label className="mb-2 block">Description</Label>
+              <Textarea value={draft.description} onChange={(e) => setField("description")(e.target.value)} />
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              {textField("Category", "category")}
+              {textField("Section", "section")}
+              {textField("Age Group", "ageGroup")}
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              {textField("Max Entries per Team", "maxEntries", "number")}
+              {textField("Capacity (all teams)", "capacity", "number")}
+              {textField("Duration (minutes)", "durationMinutes", "number")}
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              {textField("Registration Opens", "registrationOpensAt", "datetime-local")}
+              {textField("Registration Closes", "registrationClosesAt", "datetime-local")}
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Leave blank to follow the festival's registration window.
+            </p>
+
+            {draft.participationType === "group" && (
+              <div className="grid grid-cols-2 gap-4">
+                {textField("Minimum Members", "minMembers", "number")}
+                {textField("Maximum Members", "maxMembers", "number")}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Judging Criteria</Label>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setDraft(current => ({
+                    ...current,
+                    criteria: [...current.criteria, { name: "", weight: "", maxScore: "10" }],
+                  }))}
+                >
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Criterion
+                </Button>
+              </div>
+              {draft.criteria.map((criterion, index) => (
+                <div key={index} className="grid grid-cols-[1fr_6rem_6rem_auto] gap-2">
+                  <Input
+                    placeholder="Criterion"
+                    value={criterion.name}
+                    onChange={(e) => setCriterion(index, "name", e.target.value)}
+                  />
+                  <Input
+                    type="number"
+                    placeholder="Weight"
+                    value={criterion.weight}
+                    onChange={(e) => setCriterion(index, "weight", e.target.value)}
+                  />
+                  <Input
+                    type="number"
+                    placeholder="Max score"
+                    value={criterion.maxScore}
+                    onChange={(e) => setCriterion(index, "maxScore", e.target.value)}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setDraft(current => ({
+                      ...current,
+                      criteria: current.criteria.filter((_, i) => i !== index),
+                    }))}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            {formError && (
+              <div className="flex items-center space-x-2 text-sm text-red-600 dark:text-red-400">
+                <AlertCircle className="h-4 w-4 flex-shrink-0" />
+                <span>{formError}</span>
+              </div>
+            )}
+
+            <div className="flex justify-end space-x-3">
+              <Button variant="outline" onClick={() => setEditing(null)}>
+                Back
+              </Button>
+              <Button onClick={handleSave} disabled={saveMutation.isPending}>
+                {saveMutation.isPending ? "Saving..." : "Save Program"}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,143 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { KeyRound, AlertCircle, CheckCircle } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { codeRecoverySchema, type CodeRecovery, type Team } from "@shared/schema";
+
+interface RecoverCodeModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  teams: Team[];
+  onRecovered: (code: string) => void;
+}
+
+export function RecoverCodeModal({ isOpen, onClose, teams, onRecovered }: RecoverCodeModalProps) {
+  const [fullName, setFullName] = useState("");
+  const [teamId, setTeamId] = useState("");
+  const [secret, setSecret] = useState("");
+  const [error, setError] = useState("");
+  const [recoveredCode, setRecoveredCode] = useState("");
+
+  const recoverMutation = useMutation({
+    mutationFn: async (data: CodeRecovery) => {
+      const response = await apiRequest("POST", "/api/participant/recover-code", data);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      setRecoveredCode(data.uniqueCode);
+    },
+    onError: (error: Error) => {
+      setError(error.message);
+    },
+  });
+
+  const handleSubmit = () => {
+    setError("");
+    const parsed = codeRecoverySchema.safeParse({ fullName, teamId: parseInt(teamId) || 0, secret });
+    if (!parsed.success) {
+      setError(parsed.error.errors[0].message);
+      return;
+    }
+    recoverMutation.mutate(parsed.data);
+  };
+
+  const handleClose = () => {
+    setFullName("");
+    setTeamId("");
+    setSecret("");
+    setError("");
+    setRecoveredCode("");
+    onClose();
+  };
+
+  const handleUseCode = () => {
+    onRecovered(recoveredCode);
+    handleClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <KeyRound className="h-5 w-5" />
+            <span>Recover Your Code</span>
+          </DialogTitle>
+        </DialogHeader>
+
+        {recoveredCode ? (
+          <div className="space-y-6">
+            <div className="text-center space-y-2">
+              <CheckCircle className="h-10 w-10 text-green-600 dark:text-green-400 mx-auto" />
+              <p className="text-sm text-gray-600 dark:text-gray-300">Your unique code is</p>
+              <p className="text-3xl font-bold font-mono text-gray-900 dark:text-white">{recoveredCode}</p>
+              <p className="text-xs text-gray-500 dark:text-gray-400">Please keep it somewhere safe.</p>
+            </div>
+            <Button className="w-full" onClick={handleUseCode}>
+              Continue with this code
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600 dark:text-gray-300">
+              Enter your name and team as you registered them, and the recovery word you chose.
+              If you did not choose one or have forgotten it, ask an admin for a reset key.
+            </p>
+
+            <div>
+              <Label className="mb-2 block">Full Name</Label>
+              <Input value={fullName} onChange={(e) => setFullName(e.target.value)} placeholder="Enter your full name" />
+            </div>
+
+            <div>
+              <Label className="mb-2 block">Team</Label>
+              <Select value={teamId} onValueChange={setTeamId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose your team" />
+                </SelectTrigger>
+                <SelectContent>
+                  {teams.map(team => (
+                    <SelectItem key={team.id} value={team.id.toString()}>
+                      {team.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label className="mb-2 block">Recovery Word or Reset Key</Label>
+              <Input
+                type="password"
+                value={secret}
+                onChange={(e) => setSecret(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && handleSubmit()}
+              />
+            </div>
+
+            {error && (
+              <div className="flex items-center space-x-2 text-sm text-red-600 dark:text-red-400">
+                <AlertCircle className="h-4 w-4 flex-shrink-0" />
+                <span>{error}</span>
+              </div>
+            )}
+
+            <div className="flex justify-end space-x-3">
+              <Button variant="outline" onClick={handleClose}>
+                Cancel
+              </Button>
+              <Button onClick={handleSubmit} disabled={recoverMutation.isPending}>
+                {recoverMutation.isPending ? "Checking..." : "Recover Code"}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,254 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CalendarClock, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { toDateTimeInput, fromDateTimeInput } from "@/lib/windows";
+import type {
+  Program, RegistrationExtension, RegistrationExtensionInput, RegistrationWindow, Team
+} from "@shared/schema";
+
+interface RegistrationWindowModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  teams: Team[];
+}
+
+const ALL_PROGRAMS = "all";
+
+// Admin settings for when registration opens and closes, with extra time for
+// single teams
+export function RegistrationWindowModal({ isOpen, onClose, teams }: RegistrationWindowModalProps) {
+  const [opensAt, setOpensAt] = useState("");
+  const [closesAt, setClosesAt] = useState("");
+  const [extensionTeamId, setExtensionTeamId] = useState("");
+  const [extensionProgramId, setExtensionProgramId] = useState(ALL_PROGRAMS);
+  const [extensionClosesAt, setExtensionClosesAt] = useState("");
+  const [extensionReason, setExtensionReason] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: festivalWindow } = useQuery<RegistrationWindow>({
+    queryKey: ["/api/settings/registration-window"],
+    enabled: isOpen,
+  });
+
+  const { data: extensions = [] } = useQuery<RegistrationExtension[]>({
+    queryKey: ["/api/registration-extensions"],
+    enabled: isOpen,
+  });
+
+  const { data: programs = [] } = useQuery<Program[]>({
+    queryKey: ["/api/programs"],
+    enabled: isOpen,
+  });
+
+  useEffect(() => {
+    if (festivalWindow) {
+      setOpensAt(toDateTimeInput(festivalWindow.opensAt));
+      setClosesAt(toDateTimeInput(festivalWindow.closesAt));
+    }
+  }, [festivalWindow]);
+
+  const invalidateWindows = () => {
+    queryClient.invalidateQueries({
+      predicate: query => String(query.queryKey[0]).startsWith("/api/registration-windows"),
+    });
+  };
+
+  const showError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const saveWindowMutation = useMutation({
+    mutationFn: async (data: RegistrationWindow) => {
+      const response = await apiRequest("PUT", "/api/settings/registration-window", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Registration Window Saved", description: "The new dates apply straight away." });
+      queryClient.invalidateQueries({ queryKey: ["/api/settings/registration-window"] });
+      invalidateWindows();
+    },
+    onError: showError("Save Failed"),
+  });
+
+  const addExtensionMutation = useMutation({
+    mutationFn: async (data: RegistrationExtensionInput) => {
+      const response = await apiRequest("POST", "/api/registration-extensions", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Extension Added", description: "The team can keep registering until the new time." });
+      setExtensionClosesAt("");
+      setExtensionReason("");
+      queryClient.invalidateQueries({ queryKey: ["/api/registration-extensions"] });
+      invalidateWindows();
+    },
+    onError: showError("Could Not Add Extension"),
+  });
+
+  const removeExtensionMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("DELETE", `/api/registration-extensions/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/registration-extensions"] });
+      invalidateWindows();
+    },
+    onError: showError("Could Not Remove Extension"),
+  });
+
+  const handleAddExtension = () => {
+    const extensionClose = fromDateTimeInput(extensionClosesAt);
+    if (!extensionTeamId || !extensionClose) {
+      toast({ title: "Missing Details", description: "Choose a team and a new closing time", variant: "destructive" });
+      return;
+    }
+    addExtensionMutation.mutate({
+      teamId: parseInt(extensionTeamId),
+      programId: extensionProgramId === ALL_PROGRAMS ? null : parseInt(extensionProgramId),
+      closesAt: extensionClose,
+      reason: extensionReason || undefined,
+    });
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <CalendarClock className="h-5 w-5" />
+            <span>Registration Window</span>
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="space-y-3">
+            <p className="text-sm text-gray-600 dark:text-gray-300">
+              Participants can add or remove programs between these times. Programs can set a narrower window of
+              their own. Leave a time blank to keep that end open.
+            </p>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label className="mb-2 block">Opens</Label>
+                <Input type="datetime-local" value={opensAt} onChange={(e) => setOpensAt(e.target.value)} />
+              </div>
+              <div>
+                <Label className="mb-2 block">Closes</Label>
+                <Input type="datetime-local" value={closesAt} onChange={(e) => setClosesAt(e.target.value)} />
+              </div>
+            </div>
+            <div className="flex justify-end">
+              <Button
+                onClick={() => saveWindowMutation.mutate({
+                  opensAt: fromDateTimeInput(opensAt),
+                  closesAt: fromDateTimeInput(closesAt),
+                })}
+                disabled={saveWindowMutation.isPending}
+              >
+                Save Window
+              </Button>
+            </div>
+          </div>
+
+          <div className="space-y-3 border-t pt-4">
+            <Label className="text-base font-semibold block">Team Extensions</Label>
+            <p className="text-sm text-gray-600 dark:text-gray-300">
+              Keep registration open longer for one team, for one program or all of them.
+            </p>
+
+            {extensions.map(extension => {
+              const team = teams.find(t => t.id === extension.teamId);
+              const program = programs.find(p => p.id === extension.programId);
+              return (
+                <div key={extension.id} className="flex items-center justify-between border rounded-lg p-3">
+                  <div>
+                    <p className="font-medium text-gray-900 dark:text-white">
+                      {team?.name ?? `Team ${extension.teamId}`} · {extension.programId === null ? "All programs" : program?.name ?? `Program ${extension.programId}`}
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      Until {new Date(extension.closesAt).toLocaleString()} · by {extension.createdBy}
+                      {extension.reason && ` · ${extension.reason}`}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={removeExtensionMutation.isPending}
+                    onClick={() => removeExtensionMutation.mutate(extension.id)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              );
+            })}
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label className="mb-2 block">Team</Label>
+                <Select value={extensionTeamId} onValueChange={setExtensionTeamId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a team" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {teams.map(team => (
+                      <SelectItem key={team.id} value={team.id.toString()}>{team.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label className="mb-2 block">Program</Label>
+                <Select value={extensionProgramId} onValueChange={setExtensionProgramId}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_PROGRAMS}>All programs</SelectItem>
+                    {programs.map(program => (
+                      <SelectItem key={program.id} value={program.id.toString()}>{program.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label className="mb-2 block">Closes</Label>
+                <Input
+                  type="datetime-local"
+                  value={extensionClosesAt}
+                  onChange={(e) => setExtensionClosesAt(e.target.value)}
+                />
+              </div>
+              <div>
+                <Label className="mb-2 block">Reason</Label>
+                <Input
+                  value={extensionReason}
+                  onChange={(e) => setExtensionReason(e.target.value)}
+                  placeholder="Optional"
+                />
+              </div>
+            </div>
+            <div className="flex justify-end">
+              <Button variant="outline" onClick={handleAddExtension} disabled={addExtensionMutation.isPending}>
+                Add Extension
+              </Button>
+            </div>
+          </div>
+
+          <div className="flex justify-end">
+            <Button variant="outline" onClick={onClose}>
+              Close
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,9 +1,38 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import type { DuplicateCandidate, ProgramOutcome, RuleViolation } from "@shared/schema";
+
+// The JSON body of an error response. Fields other than message are sent
+// only by the routes that need them.
+export type ApiErrorBody = {
+  message?: string;
+  violations?: RuleViolation[];
+  duplicates?: DuplicateCandidate[];
+  rejected?: ProgramOutcome[];
+};
+
+// Carries the status and parsed JSON body of a failed request
+export class ApiError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+    public data: ApiErrorBody | null,
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
-    throw new Error(`${res.status}: ${text}`);
+    let data: ApiErrorBody | null = null;
+    try {
+      const parsed: unknown = JSON.parse(text);
+      if (parsed && typeof parsed === "object") data = parsed as ApiErrorBody;
+    } catch {
+      // Not a JSON error body
+    }
+    throw new ApiError(res.status, `${res.status}: ${text}`, data);
   }
 }
 
@@ -0,0 +1,45 @@
+import { apiRequest } from "./queryClient";
+import type { RegistrationPage, RegistrationQuery, RegistrationWithDetails } from "@shared/schema";
+
+export type RegistrationFilters = Partial<Omit<RegistrationQuery, "cursor" | "limit">>;
+
+// Largest page the server hands out
+const EXPORT_PAGE_SIZE = 500;
+
+function queryString(query: Partial<RegistrationQuery>): string {
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    if (value !== undefined && value !== "") params.set(key, String(value));
+  });
+  return params.toString();
+}
+
+export async function fetchRegistrationPage(query: Partial<RegistrationQuery>): Promise<RegistrationPage> {
+  const response = await apiRequest("GET", `/api/registrations?${queryString(query)}`);
+  return response.json();
+}
+
+// Every registration matching the filters, for exports
+export async function fetchAllRegistrations(filters: RegistrationFilters): Promise<RegistrationWithDetails[]> {
+  const registrations: RegistrationWithDetails[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await fetchRegistrationPage({ ...filters, cursor, limit: EXPORT_PAGE_SIZE });
+    registrations.push(...page.items);
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor);
+  return registrations;
+}
+
+// A <input type="date"> day as the local midnight that starts it, and the
+// midnight after it for the exclusive end of a range
+export function dayStart(value: string): string | undefined {
+  return value === "" ? undefined : new Date(`${value}T00:00`).toISOString();
+}
+
+export function dayEnd(value: string): string | undefined {
+  if (value === "") return undefined;
+  const date = new Date(`${value}T00:00`);
+  date.setDate(date.getDate() + 1);
+  return date.toISOString();
+}
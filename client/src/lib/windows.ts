@@ -0,0 +1,41 @@
+import type { ProgramWindow } from "@shared/schema";
+
+export type WindowStatus =
+  | { state: "open"; closesIn: number | null } // milliseconds, null when it never closes
+  | { state: "not-open"; opensIn: number }
+  | { state: "closed" };
+
+// Worked out from the browser's clock so countdowns keep moving between fetches
+export function windowStatus(window: ProgramWindow | undefined, now: number): WindowStatus {
+  if (!window) return { state: "open", closesIn: null };
+
+  if (window.opensAt && Date.parse(window.opensAt) > now) {
+    return { state: "not-open", opensIn: Date.parse(window.opensAt) - now };
+  }
+  if (window.closesAt) {
+    const closesIn = Date.parse(window.closesAt) - now;
+    return closesIn > 0 ? { state: "open", closesIn } : { state: "closed" };
+  }
+  return { state: "open", closesIn: null };
+}
+
+// e.g. "2d 4h", "3h 12m", "45m"
+export function formatCountdown(ms: number): string {
+  const minutes = Math.max(1, Math.ceil(ms / 60000));
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes % 60}m`;
+  return `${minutes}m`;
+}
+
+// <input type="datetime-local"> works in local time without a zone
+export function toDateTimeInput(iso: string | null): string {
+  if (!iso) return "";
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
+
+export function fromDateTimeInput(value: string): string | null {
+  return value === "" ? null : new Date(value).toISOString();
+}
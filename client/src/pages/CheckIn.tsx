@@ -0,0 +1,304 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Redirect, Link } from "wouter";
+import jsQR from "jsqr";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, ApiError } from "@/lib/queryClient";
+import { downloadCallSheet, downloadAllCallSheets } from "@/lib/reportGenerator";
+import type { AttendanceEntry, CheckInInput, Program } from "@shared/schema";
+import { ScanLine, Camera, CameraOff, CheckCircle, AlertCircle, ArrowLeft, Clock, FileText, Archive } from "lucide-react";
+
+type ScanOutcome = {
+  status: "checked-in" | "already" | "error";
+  message: string;
+  at: Date;
+};
+
+// Ignore repeat reads of the same card while it is still in front of the camera
+const RESCAN_DELAY_MS = 3000;
+
+export default function CheckIn() {
+  const { user, isLoading, hasRole } = useAuth();
+  const [programId, setProgramId] = useState<string>("");
+  const [manualToken, setManualToken] = useState("");
+  const [isCameraOn, setIsCameraOn] = useState(false);
+  const [outcomes, setOutcomes] = useState<ScanOutcome[]>([]);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastScanRef = useRef<{ token: string; at: number } | null>(null);
+  const queryClient = useQueryClient();
+
+  const { data: programs = [] } = useQuery<Program[]>({
+    queryKey: ["/api/programs"],
+  });
+
+  const attendanceUrl = `/api/programs/${programId}/attendance`;
+  const { data: attendance = [] } = useQuery<AttendanceEntry[]>({
+    queryKey: [attendanceUrl],
+    enabled: !!programId && hasRole("admin", "volunteer"),
+  });
+
+  const recordOutcome = (outcome: Omit<ScanOutcome, "at">) => {
+    setOutcomes(previous => [{ ...outcome, at: new Date() }, ...previous].slice(0, 10));
+  };
+
+  const checkInMutation = useMutation({
+    mutationFn: async (data: CheckInInput) => {
+      const response = await apiRequest("POST", "/api/check-ins", data);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      recordOutcome({ status: data.alreadyCheckedIn ? "already" : "checked-in", message: data.message });
+      queryClient.invalidateQueries({ queryKey: [attendanceUrl] });
+    },
+    onError: (error: Error) => {
+      const message = error instanceof ApiError && error.data?.message ? error.data.message : error.message;
+      recordOutcome({ status: "error", message });
+    },
+  });
+
+  const runDownload = async (download: Promise<void>) => {
+    try {
+      await download;
+    } catch (error) {
+      const message = error instanceof ApiError && error.data?.message ? error.data.message : "Could not create the call sheet";
+      recordOutcome({ status: "error", message });
+    }
+  };
+
+  const submitToken = (token: string) => {
+    if (!token.trim() || !programId) return;
+
+    const now = Date.now();
+    const last = lastScanRef.current;
+    if (last && last.token === token && now - last.at < RESCAN_DELAY_MS) return;
+    lastScanRef.current = { token, at: now };
+
+    checkInMutation.mutate({ token: token.trim(), programId: parseInt(programId) });
+  };
+
+  // Read frames from the camera and decode any QR code in view
+  useEffect(() => {
+    if (!isCameraOn) return;
+
+    let stream: MediaStream | undefined;
+    let frame: number | undefined;
+    let cancelled = false;
+
+    const scan = () => {
+      const video = videoRef.current;
+      const canvas = canvasRef.current;
+      if (cancelled || !video || !canvas) return;
+
+      if (video.readyState === video.HAVE_ENOUGH_DATA) {
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+        const context = canvas.getContext("2d", { willReadFrequently: true });
+        if (context) {
+          context.drawImage(video, 0, 0, canvas.width, canvas.height);
+          const image = context.getImageData(0, 0, canvas.width, canvas.height);
+          const code = jsQR(image.data, image.width, image.height, { inversionAttempts: "dontInvert" });
+          if (code?.data) submitToken(code.data);
+        }
+      }
+      frame = requestAnimationFrame(scan);
+    };
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: "environment" } })
+      .then((mediaStream) => {
+        stream = mediaStream;
+        if (cancelled || !videoRef.current) return;
+        videoRef.current.srcObject = mediaStream;
+        videoRef.current.play();
+        frame = requestAnimationFrame(scan);
+      })
+      .catch(() => {
+        recordOutcome({ status: "error", message: "Could not open the camera. Use a hand scanner or type the code instead." });
+        setIsCameraOn(false);
+      });
+
+    return () => {
+      cancelled = true;
+      if (frame !== undefined) cancelAnimationFrame(frame);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [isCameraOn, programId]);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (!user || !hasRole("admin", "volunteer")) {
+    return <Redirect to="/login" />;
+  }
+
+  const checkedInCount = attendance.filter(entry => entry.checkIn).length;
+  const selectedProgram = programs.find(p => p.id.toString() === programId);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 dark:from-gray-900 dark:to-gray-800">
+      <main className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <div className="bg-gradient-to-r from-blue-600 to-purple-600 p-3 rounded-xl shadow-lg">
+              <ScanLine className="text-white h-6 w-6" />
+            </div>
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Green Room Check-in</h1>
+              <p className="text-sm text-gray-600 dark:text-gray-300">Scan ID cards as participants arrive</p>
+            </div>
+          </div>
+          <Link href="/" className="inline-flex items-center space-x-1 text-sm text-gray-500 dark:text-gray-400 hover:text-blue-600">
+            <ArrowLeft className="h-4 w-4" />
+            <span>Back</span>
+          </Link>
+        </div>
+
+        <Card className="border-0 shadow-xl bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm">
+          <CardContent className="p-6 space-y-6">
+            <div>
+              <Label className="text-base font-semibold mb-3 block">Program *</Label>
+              <Select value={programId} onValueChange={setProgramId}>
+                <SelectTrigger className="h-12 text-base border-2">
+                  <SelectValue placeholder="Select the program being called" />
+                </SelectTrigger>
+                <SelectContent>
+                  {programs.map(program => (
+                    <SelectItem key={program.id} value={program.id.toString()}>
+                      {program.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="flex flex-wrap gap-2 mt-3">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={!selectedProgram}
+                  onClick={() => selectedProgram && runDownload(downloadCallSheet(selectedProgram))}
+                >
+                  <FileText className="mr-2 h-4 w-4" />
+                  Call Sheet
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => runDownload(downloadAllCallSheets())}>
+                  <Archive className="mr-2 h-4 w-4" />
+                  All Call Sheets (ZIP)
+                </Button>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div className="space-y-3">
+                <div className="aspect-video bg-gray-900 rounded-lg overflow-hidden flex items-center justify-center">
+                  {isCameraOn ? (
+                    <video ref={videoRef} className="w-full h-full object-cover" muted playsInline />
+                  ) : (
+                    <Camera className="h-12 w-12 text-gray-500" />
+                  )}
+                  <canvas ref={canvasRef} className="hidden" />
+                </div>
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  disabled={!programId}
+                  onClick={() => setIsCameraOn(!isCameraOn)}
+                >
+                  {isCameraOn ? <CameraOff className="mr-2 h-4 w-4" /> : <Camera className="mr-2 h-4 w-4" />}
+                  {isCameraOn ? "Stop Camera" : "Start Camera"}
+                </Button>
+              </div>
+
+              <div className="space-y-3">
+                <Label className="text-base font-semibold block">Hand scanner</Label>
+                <p className="text-sm text-gray-600 dark:text-gray-300">
+                  Keep this box focused. Scanners that type the card and press Enter are checked in straight away.
+                </p>
+                <Input
+                  value={manualToken}
+                  onChange={(e) => setManualToken(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") {
+                      e.preventDefault();
+                      submitToken(manualToken);
+                      setManualToken("");
+                    }
+                  }}
+                  disabled={!programId}
+                  autoFocus
+                  placeholder="Scan an ID card"
+                  className="h-12 font-mono"
+                />
+
+                <div className="space-y-2">
+                  {outcomes.map((outcome, index) => (
+                    <div
+                      key={index}
+                      className={`flex items-center space-x-2 p-3 rounded-lg text-sm ${
+                        outcome.status === "checked-in"
+                          ? "bg-green-50 text-green-800 dark:bg-green-900/20 dark:text-green-200"
+                          : outcome.status === "already"
+                            ? "bg-yellow-50 text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-200"
+                            : "bg-red-50 text-red-800 dark:bg-red-900/20 dark:text-red-200"
+                      }`}
+                    >
+                      {outcome.status === "error" ? <AlertCircle className="h-4 w-4 flex-shrink-0" /> : <CheckCircle className="h-4 w-4 flex-shrink-0" />}
+                      <span className="flex-1">{outcome.message}</span>
+                      <span className="text-xs opacity-70">{outcome.at.toLocaleTimeString()}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {programId && (
+          <Card className="border-0 shadow-xl bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm">
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between">
+                <span>Attendance</span>
+                <Badge variant="secondary">{checkedInCount} / {attendance.length} checked in</Badge>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-2">
+                {attendance.map(({ registration, checkIn }) => (
+                  <div key={registration.id} className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-700 rounded-lg">
+                    <div>
+                      <span className="font-medium text-gray-900 dark:text-white">{registration.participant.fullName}</span>
+                      <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
+                        {registration.participant.team.name} · {registration.participant.uniqueCode}
+                      </span>
+                    </div>
+                    {checkIn ? (
+                      <Badge className="bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200">
+                        <Clock className="mr-1 h-3 w-3" />
+                        {new Date(checkIn.checkedInAt).toLocaleTimeString()}
+                      </Badge>
+                    ) : (
+                      <Badge variant="outline">Not arrived</Badge>
+                    )}
+                  </div>
+                ))}
+                {attendance.length === 0 && (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">No one is registered for this program.</p>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+}
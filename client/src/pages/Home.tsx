@@ -1,5 +1,6 @@
 import { useState, useEffect } from "react";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -15,8 +16,17 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
 import { useTheme } from "@/components/ThemeProvider";
+import { useAuth } from "@/hooks/use-auth";
 import { ImageUploadModal } from "@/components/ImageUploadModal";
-import { apiRequest } from "@/lib/queryClient";
+import { GroupEntryModal } from "@/components/GroupEntryModal";
+import { ImportParticipantsModal } from "@/components/ImportParticipantsModal";
+import { DuplicatesModal } from "@/components/DuplicatesModal";
+import { RecoverCodeModal } from "@/components/RecoverCodeModal";
+import { CodeResetModal } from "@/components/CodeResetModal";
+import { ProgramsModal } from "@/components/ProgramsModal";
+import { RegistrationWindowModal } from "@/components/RegistrationWindowModal";
+import { ChestNumbersModal } from "@/components/ChestNumbersModal";
+import { apiRequest, ApiError } from "@/lib/queryClient";
 import { 
   firstRegistrationSchema, 
   secondRegistrationSchema,
@@ -25,15 +35,42 @@ import {
   type Team,
   type Program,
   type ParticipantWithTeam,
-  type RegistrationWithDetails
+  type RegistrationWithDetails,
+  type TeamStanding,
+  type ScheduleEntry,
+  type ScheduleClash,
+  type ProgramOutcome,
+  type DuplicateCandidate,
+  type SecondRegistrationResult,
+  type PublicGroupEntry,
+  type ParticipantLookup,
+  type ParticipantRegistration,
+  type ProgramWindow,
+  type RegistrationPage,
+  type RegistrationSortField,
+  type StatisticsTotals,
+  type CodeFormat
 } from "@shared/schema";
+import { isMistypedCode } from "@shared/codes";
 import {
-  generateIndividualReport,
-  generateHistoryIDCard,
-  generateBatchReport,
+  downloadIndividualReport,
+  downloadIDCard,
+  downloadGroupEntryCard,
+  downloadBatchReport,
+  downloadWorkbook,
+  downloadAllCallSheets,
+  downloadTimetable,
   exportToCSV,
   exportToJSON
 } from "@/lib/reportGenerator";
+import { windowStatus, formatCountdown } from "@/lib/windows";
+import {
+  fetchRegistrationPage,
+  fetchAllRegistrations,
+  dayStart,
+  dayEnd,
+  type RegistrationFilters
+} from "@/lib/registrations";
 import {
   Palette,
   Moon,
@@ -55,6 +92,7 @@ import {
   Download,
   FileText,
   Archive,
+  FileSpreadsheet,
   IdCard,
   Database,
   Save,
@@ -70,23 +108,60 @@ import {
   Star,
   TrendingUp,
   Target,
-  Activity
+  Activity,
+  LogOut,
+  AlertCircle,
+  ScanLine,
+  KeyRound,
+  ListOrdered,
+  Shield,
+  CalendarClock,
+  ChevronLeft,
+  ChevronRight,
+  ArrowUp,
+  ArrowDown,
+  ArrowUpDown,
+  Hash
 } from "lucide-react";
 
+const REGISTRATIONS_PAGE_SIZE = 50;
+
 export default function Home() {
   const [currentStep, setCurrentStep] = useState(1);
   const [selectedParticipant, setSelectedParticipant] = useState<ParticipantWithTeam | null>(null);
-  const [selectedRegistrations, setSelectedRegistrations] = useState<RegistrationWithDetails[]>([]);
+  const [selectedRegistrations, setSelectedRegistrations] = useState<ParticipantRegistration[]>([]);
   const [programType, setProgramType] = useState<string>("");
   const [participationType, setParticipationType] = useState<string>("");
   const [existingCode, setExistingCode] = useState("");
   const [isImageModalOpen, setIsImageModalOpen] = useState(false);
+  const [isImportModalOpen, setIsImportModalOpen] = useState(false);
+  const [isDuplicatesModalOpen, setIsDuplicatesModalOpen] = useState(false);
+  const [isRecoverModalOpen, setIsRecoverModalOpen] = useState(false);
+  const [isCodeResetModalOpen, setIsCodeResetModalOpen] = useState(false);
+  const [isProgramsModalOpen, setIsProgramsModalOpen] = useState(false);
+  const [isWindowModalOpen, setIsWindowModalOpen] = useState(false);
+  const [isChestNumbersModalOpen, setIsChestNumbersModalOpen] = useState(false);
   const [selectedPrograms, setSelectedPrograms] = useState<number[]>([]);
+  const [rejectedPrograms, setRejectedPrograms] = useState<ProgramOutcome[]>([]);
+  const [likelyDuplicates, setLikelyDuplicates] = useState<DuplicateCandidate[]>([]);
+  const [groupEntryProgram, setGroupEntryProgram] = useState<Program | null>(null);
   const [searchTerm, setSearchTerm] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
   const [filterType, setFilterType] = useState<string>("all");
+  const [filterTeam, setFilterTeam] = useState<string>("all");
+  const [filterProgram, setFilterProgram] = useState<string>("all");
+  const [filterParticipation, setFilterParticipation] = useState<string>("all");
+  const [filterFrom, setFilterFrom] = useState("");
+  const [filterTo, setFilterTo] = useState("");
+  const [sortField, setSortField] = useState<RegistrationSortField>("registeredAt");
+  const [sortOrder, setSortOrder] = useState<"asc" | "desc">("desc");
+  const [pageCursors, setPageCursors] = useState<string[]>([]); // cursors of the pages after the first
   const [selectedRows, setSelectedRows] = useState<number[]>([]);
+  const [now, setNow] = useState(() => Date.now());
   
   const { theme, toggleTheme } = useTheme();
+  const { user, hasRole, logoutMutation } = useAuth();
+  const canManageRegistrations = hasRole("admin", "team_manager");
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -101,22 +176,100 @@ export default function Home() {
     enabled: !!programType,
   });
 
+  // Fetch when each program takes registrations from the participant's team
+  const { data: programWindows = [] } = useQuery<ProgramWindow[]>({
+    queryKey: [`/api/registration-windows?teamId=${selectedParticipant?.teamId}`],
+    enabled: !!selectedParticipant,
+  });
+
+  // Keep the registration countdowns moving
+  useEffect(() => {
+    if (!selectedParticipant) return;
+    const timer = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(timer);
+  }, [selectedParticipant]);
+
+  // Admins can still make corrections after registration closes
+  const programStatus = (programId: number) => {
+    const status = windowStatus(programWindows.find(w => w.programId === programId), now);
+    return { status, isLocked: status.state !== "open" && !hasRole("admin") };
+  };
+
+  // Fetch group entries so each team's entry shows on its program
+  const { data: groupEntries = [] } = useQuery<PublicGroupEntry[]>({
+    queryKey: ["/api/group-entries"],
+  });
+
+  // The code format says whether codes end in a check character
+  const { data: codeFormat } = useQuery<CodeFormat>({
+    queryKey: ["/api/settings/code-format"],
+  });
+
   // Fetch statistics
-  const { data: stats } = useQuery({
+  const { data: stats } = useQuery<StatisticsTotals>({
     queryKey: ["/api/stats"],
   });
 
-  // Fetch all registrations for reports
-  const { data: allRegistrations = [] } = useQuery<RegistrationWithDetails[]>({
-    queryKey: ["/api/registrations"],
+  // Fetch live team championship standings
+  const { data: standings = [] } = useQuery<TeamStanding[]>({
+    queryKey: ["/api/standings"],
+    refetchInterval: 30000,
   });
 
+  // Every program, for the registrations table's program filter
+  const { data: allPrograms = [] } = useQuery<Program[]>({
+    queryKey: ["/api/programs"],
+    enabled: canManageRegistrations,
+  });
+
+  // Wait for a pause in typing before searching
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(searchTerm.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
+
+  const registrationFilters: RegistrationFilters = {
+    teamId: filterTeam === "all" ? undefined : parseInt(filterTeam),
+    programId: filterProgram === "all" ? undefined : parseInt(filterProgram),
+    type: filterType === "all" ? undefined : filterType as RegistrationFilters["type"],
+    participationType: filterParticipation === "all"
+      ? undefined
+      : filterParticipation as RegistrationFilters["participationType"],
+    from: dayStart(filterFrom),
+    to: dayEnd(filterTo),
+    search: debouncedSearch || undefined,
+    sort: sortField,
+    order: sortOrder,
+  };
+  const filtersKey = JSON.stringify(registrationFilters);
+
+  // Start again from the first page whenever the filters or sort change
+  useEffect(() => {
+    setPageCursors([]);
+    setSelectedRows([]);
+  }, [filtersKey]);
+
+  // Fetch one page of registrations for the table (admins and team managers only)
+  const pageCursor = pageCursors[pageCursors.length - 1];
+  const { data: registrationPage, isFetching: isFetchingRegistrations } = useQuery<RegistrationPage>({
+    queryKey: ["/api/registrations", filtersKey, pageCursor],
+    queryFn: () => fetchRegistrationPage({ ...registrationFilters, cursor: pageCursor, limit: REGISTRATIONS_PAGE_SIZE }),
+    enabled: canManageRegistrations,
+    placeholderData: keepPreviousData,
+  });
+  const pageRegistrations = registrationPage?.items ?? [];
+  const totalRegistrations = registrationPage?.total ?? 0;
+  const pageStart = pageCursors.length * REGISTRATIONS_PAGE_SIZE;
+  const hasActiveFilters = searchTerm !== "" || filterType !== "all" || filterTeam !== "all" ||
+    filterProgram !== "all" || filterParticipation !== "all" || filterFrom !== "" || filterTo !== "";
+
   // First registration form
   const firstForm = useForm<FirstRegistration>({
     resolver: zodResolver(firstRegistrationSchema),
     defaultValues: {
       fullName: "",
       teamId: 0,
+      recoverySecret: "",
     },
   });
 
@@ -137,6 +290,7 @@ export default function Home() {
       return response.json();
     },
     onSuccess: (data) => {
+      setLikelyDuplicates([]);
       setSelectedParticipant(data.participant);
       setCurrentStep(2);
       secondForm.setValue("uniqueCode", data.uniqueCode);
@@ -147,6 +301,11 @@ export default function Home() {
       queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
     },
     onError: (error: Error) => {
+      // Similar names are listed under the form for the registrant to check
+      if (error instanceof ApiError && error.data?.duplicates) {
+        setLikelyDuplicates(error.data.duplicates);
+        return;
+      }
       toast({
         title: "Registration Failed",
         description: error.message,
@@ -161,10 +320,11 @@ export default function Home() {
       const response = await apiRequest("POST", "/api/register/second", data);
       return response.json();
     },
-    onSuccess: (data) => {
+    onSuccess: (data: SecondRegistrationResult) => {
       setSelectedRegistrations(data.registrations);
       setCurrentStep(3);
       setSelectedPrograms([]);
+      setRejectedPrograms([]);
       toast({
         title: "Programs Registered!",
         description: data.message,
@@ -172,6 +332,16 @@ export default function Home() {
       queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
     },
     onError: (error: Error) => {
+      // Rejections are shown next to the offending program cards
+      if (error instanceof ApiError && error.data?.rejected) {
+        setRejectedPrograms(error.data.rejected);
+        toast({
+          title: "Registration Not Saved",
+          description: error.data.message,
+          variant: "destructive",
+        });
+        return;
+      }
       toast({
         title: "Registration Failed",
         description: error.message,
@@ -186,7 +356,7 @@ export default function Home() {
       const response = await apiRequest("GET", `/api/participant/${code}`);
       return response.json();
     },
-    onSuccess: (data) => {
+    onSuccess: (data: ParticipantLookup) => {
       setSelectedParticipant(data.participant);
       setSelectedRegistrations(data.registrations);
       setCurrentStep(2);
@@ -206,9 +376,10 @@ export default function Home() {
   });
 
   // Delete registration mutation
+  // Participants prove ownership with their code; staff use their session
   const deleteRegistrationMutation = useMutation({
-    mutationFn: async (registrationId: number) => {
-      const response = await apiRequest("DELETE", `/api/registration/${registrationId}`);
+    mutationFn: async ({ registrationId, uniqueCode }: { registrationId: number; uniqueCode?: string }) => {
+      const response = await apiRequest("DELETE", `/api/registration/${registrationId}`, { uniqueCode });
       return response.json();
     },
     onSuccess: () => {
@@ -230,7 +401,49 @@ export default function Home() {
     },
   });
 
+  // Withdraw group entry mutation (leader only)
+  const withdrawGroupEntryMutation = useMutation({
+    mutationFn: async ({ entryId, uniqueCode }: { entryId: number; uniqueCode: string }) => {
+      const response = await apiRequest("DELETE", `/api/group-entries/${entryId}`, { uniqueCode });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      if (selectedParticipant) {
+        validateCodeMutation.mutate(selectedParticipant.uniqueCode);
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/group-entries"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/registrations"] });
+      toast({
+        title: "Success",
+        description: data.message,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // PDFs are rendered by the server; show why a download failed
+  const runPdfDownload = async (download: Promise<void>, failureTitle: string) => {
+    try {
+      await download;
+    } catch (error) {
+      toast({
+        title: failureTitle,
+        description: error instanceof ApiError && error.data?.message
+          ? error.data.message
+          : error instanceof Error ? error.message : "Could not create the PDF",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleFirstRegistration = (data: FirstRegistration) => {
+    setLikelyDuplicates([]);
     firstRegistrationMutation.mutate(data);
   };
 
@@ -260,7 +473,15 @@ export default function Home() {
       });
       return;
     }
-    validateCodeMutation.mutate(existingCode);
+    if (codeFormat && isMistypedCode(existingCode, codeFormat)) {
+      toast({
+        title: "Check Your Code",
+        description: "This code has a typo. Please check it and try again.",
+        variant: "destructive",
+      });
+      return;
+    }
+    validateCodeMutation.mutate(existingCode.trim().toUpperCase());
   };
 
   const handleImageUpload = (imageUrl: string) => {
@@ -279,26 +500,54 @@ export default function Home() {
 
   const removeProgram = (programId: number) => {
     setSelectedPrograms(selectedPrograms.filter(id => id !== programId));
+    setRejectedPrograms(rejectedPrograms.filter(r => r.programId !== programId));
   };
 
-  // Filter registrations for the table
-  const filteredRegistrations = allRegistrations.filter(reg => {
-    const matchesSearch = searchTerm === "" || 
-      reg.participant.fullName.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      reg.participant.uniqueCode.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      reg.program.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      reg.participant.team.name.toLowerCase().includes(searchTerm.toLowerCase());
-    
-    const matchesFilter = filterType === "all" || reg.program.type === filterType;
-    
-    return matchesSearch && matchesFilter;
-  });
+  // Clicking the sorted column again flips the order
+  const handleSort = (field: RegistrationSortField) => {
+    if (field === sortField) {
+      setSortOrder(sortOrder === "asc" ? "desc" : "asc");
+    } else {
+      setSortField(field);
+      setSortOrder(field === "registeredAt" ? "desc" : "asc");
+    }
+  };
+
+  const sortableHead = (field: RegistrationSortField, label: string) => {
+    const SortIcon = field !== sortField ? ArrowUpDown : sortOrder === "asc" ? ArrowUp : ArrowDown;
+    return (
+      <TableHead className="font-semibold">
+        <button
+          type="button"
+          onClick={() => handleSort(field)}
+          className="flex items-center space-x-1 hover:text-gray-900 dark:hover:text-white"
+        >
+          <span>{label}</span>
+          <SortIcon className={`h-3 w-3 ${field === sortField ? "" : "text-gray-400"}`} />
+        </button>
+      </TableHead>
+    );
+  };
+
+  const clearFilters = () => {
+    setSearchTerm("");
+    setFilterType("all");
+    setFilterTeam("all");
+    setFilterProgram("all");
+    setFilterParticipation("all");
+    setFilterFrom("");
+    setFilterTo("");
+  };
+
+  // Selections are kept across pages, so this only touches the rows on screen
+  const pageIds = pageRegistrations.map(reg => reg.id);
+  const isPageSelected = pageIds.length > 0 && pageIds.every(id => selectedRows.includes(id));
 
   const handleSelectAll = (checked: boolean) => {
     if (checked) {
-      setSelectedRows(filteredRegistrations.map(reg => reg.id));
+      setSelectedRows(Array.from(new Set([...selectedRows, ...pageIds])));
     } else {
-      setSelectedRows([]);
+      setSelectedRows(selectedRows.filter(id => !pageIds.includes(id)));
     }
   };
 
@@ -310,9 +559,26 @@ export default function Home() {
     }
   };
 
-  const exportSelectedData = (format: 'csv' | 'json' | 'pdf') => {
-    const selectedData = filteredRegistrations.filter(reg => selectedRows.includes(reg.id));
-    const dataToExport = selectedData.length > 0 ? selectedData : filteredRegistrations;
+  // Exports the selected rows, or every row matching the filters when none are selected
+  const exportSelectedData = async (format: 'csv' | 'json' | 'pdf') => {
+    let matching: RegistrationWithDetails[];
+    try {
+      matching = await fetchAllRegistrations(registrationFilters);
+    } catch (error) {
+      toast({
+        title: "Export Failed",
+        description: error instanceof Error ? error.message : "Could not load registrations",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const selectedData = matching.filter(reg => selectedRows.includes(reg.id));
+    const dataToExport = selectedData.length > 0 ? selectedData : matching;
+    if (dataToExport.length === 0) {
+      toast({ title: "Nothing to Export", description: "No registrations match the filters", variant: "destructive" });
+      return;
+    }
     
     switch (format) {
       case 'csv':
@@ -322,16 +588,55 @@ export default function Home() {
         exportToJSON(dataToExport);
         break;
       case 'pdf':
-        generateBatchReport(dataToExport);
+        runPdfDownload(downloadBatchReport(dataToExport), "Export Failed");
         break;
     }
     
     toast({
       title: "Export Successful",
-      description: `Data exported in ${format.toUpperCase()} format`,
+      description: `${dataToExport.length} registrations exported in ${format.toUpperCase()} format`,
     });
   };
 
+  // The server builds the workbook from the same filters, or the selected rows
+  const exportWorkbook = async () => {
+    const { sort: _sort, order: _order, ...filters } = registrationFilters;
+    try {
+      await downloadWorkbook({ ...filters, registrationIds: selectedRows.length > 0 ? selectedRows : undefined });
+      toast({ title: "Export Successful", description: "Data exported as an Excel workbook" });
+    } catch (error) {
+      toast({
+        title: "Export Failed",
+        description: error instanceof ApiError && error.data?.message
+          ? error.data.message
+          : error instanceof Error ? error.message : "Could not create the workbook",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDownloadTimetable = async () => {
+    try {
+      await downloadTimetable();
+      const response = await apiRequest("GET", "/api/schedule");
+      const data: { schedule: ScheduleEntry[]; clashes: ScheduleClash[] } = await response.json();
+
+      if (data.clashes.length > 0) {
+        toast({
+          title: "Timetable Has Clashes",
+          description: `${data.clashes.length} participant clash(es) are listed at the end of the timetable`,
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to download timetable",
+        variant: "destructive",
+      });
+    }
+  };
+
   const getProgressPercentage = () => {
     switch (currentStep) {
       case 1: return 33;
@@ -366,16 +671,61 @@ export default function Home() {
               >
                 {theme === "dark" ? <Sun className="h-4 w-4" /> : <Moon className="h-4 w-4" />}
               </Button>
+
+              {user ? (
+                <div className="flex items-center space-x-2">
+                  {hasRole("admin", "volunteer") && (
+                    <Link href="/check-in">
+                      <Button variant="outline" size="sm">
+                        <ScanLine className="mr-2 h-4 w-4" />
+                        Check-in
+                      </Button>
+                    </Link>
+                  )}
+                  {hasRole("admin", "team_manager") && (
+                    <Link href="/teams">
+                      <Button variant="outline" size="sm">
+                        <Shield className="mr-2 h-4 w-4" />
+                        Teams
+                      </Button>
+                    </Link>
+                  )}
+                  {hasRole("admin", "team_manager") && (
+                    <Link href="/statistics">
+                      <Button variant="outline" size="sm">
+                        <ChartBar className="mr-2 h-4 w-4" />
+                        Statistics
+                      </Button>
+                    </Link>
+                  )}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => logoutMutation.mutate()}
+                    disabled={logoutMutation.isPending}
+                  >
+                    <LogOut className="mr-2 h-4 w-4" />
+                    {user.username}
+                  </Button>
+                </div>
+              ) : (
+                <Link href="/login">
+                  <Button variant="outline" size="sm">
+                    <LogIn className="mr-2 h-4 w-4" />
+                    Staff Login
+                  </Button>
+                </Link>
+              )}
               
               <div className="hidden sm:flex items-center space-x-4">
                 <div className="flex items-center space-x-2 text-sm text-gray-600 dark:text-gray-300 bg-gray-50 dark:bg-gray-700 px-3 py-1.5 rounded-lg">
                   <Users className="h-4 w-4 text-blue-500" />
-                  <span className="font-medium">{stats?.totalRegistered || 0}</span>
+                  <span className="font-medium">{stats?.registeredParticipants || 0}</span>
                   <span>Registered</span>
                 </div>
                 <div className="flex items-center space-x-2 text-sm text-gray-600 dark:text-gray-300 bg-gray-50 dark:bg-gray-700 px-3 py-1.5 rounded-lg">
                   <Activity className="h-4 w-4 text-green-500" />
-                  <span className="font-medium">{stats?.totalPrograms || 0}</span>
+                  <span className="font-medium">{stats?.programs || 0}</span>
                   <span>Programs</span>
                 </div>
               </div>
@@ -486,7 +836,7 @@ export default function Home() {
                                 {teams.map((team) => (
                                   <SelectItem key={team.id} value={team.id.toString()}>
                                     <div className="flex items-center space-x-2">
-                                      <div className="w-3 h-3 bg-blue-500 rounded-full"></div>
+                                      <div className="w-3 h-3 rounded-full" style={{ backgroundColor: team.color ?? "#3b82f6" }}></div>
                                       <span>{team.name}</span>
                                     </div>
                                   </SelectItem>
@@ -498,18 +848,75 @@ export default function Home() {
                         )}
                       />
 
+                      <FormField
+                        control={firstForm.control}
+                        name="recoverySecret"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel className="text-base font-semibold">Recovery Word</FormLabel>
+                            <FormControl>
+                              <div className="relative">
+                                <Input
+                                  {...field}
+                                  type="password"
+                                  placeholder="A word only you know"
+                                  className="pl-10 h-12 text-base border-2 focus:border-blue-500"
+                                />
+                                <KeyRound className="absolute left-3 top-3 h-5 w-5 text-gray-400" />
+                              </div>
+                            </FormControl>
+                            <p className="text-xs text-gray-500 dark:text-gray-400 flex items-center space-x-1">
+                              <Info className="h-3 w-3" />
+                              <span>Lets you get your code back if you lose it</span>
+                            </p>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
                       <div className="bg-blue-50 dark:bg-blue-900/20 rounded-xl p-6 border border-blue-200 dark:border-blue-800">
                         <div className="flex items-start space-x-3">
                           <Info className="text-blue-600 dark:text-blue-400 mt-0.5 h-5 w-5" />
                           <div>
                             <h4 className="text-sm font-semibold text-blue-900 dark:text-blue-100">What happens next?</h4>
                             <p className="text-sm text-blue-700 dark:text-blue-200 mt-1">
-                              After registration, you'll receive a unique code (e.g., QU001, BA001) that you'll use for program registration.
+                              After registration, you'll receive a unique code (e.g., QU001-7KQM-R) that you'll use for program registration.
                             </p>
                           </div>
                         </div>
                       </div>
 
+                      {likelyDuplicates.length > 0 && (
+                        <div className="bg-amber-50 dark:bg-amber-900/20 rounded-xl p-6 border border-amber-300 dark:border-amber-700 space-y-4">
+                          <div className="flex items-start space-x-3">
+                            <AlertCircle className="text-amber-600 dark:text-amber-400 mt-0.5 h-5 w-5 flex-shrink-0" />
+                            <div>
+                              <h4 className="text-sm font-semibold text-amber-900 dark:text-amber-100">Are you already registered?</h4>
+                              <p className="text-sm text-amber-800 dark:text-amber-200 mt-1">
+                                These participants have a similar name. If one of them is you, continue with your code below, or use "Forgot your code?" to get it back.
+                              </p>
+                            </div>
+                          </div>
+                          <ul className="space-y-2">
+                            {likelyDuplicates.map(({ participant }) => (
+                              <li key={participant.id} className="flex items-center justify-between text-sm">
+                                <span className="font-medium text-gray-900 dark:text-white">{participant.fullName}</span>
+                                <span className="text-gray-600 dark:text-gray-300">{participant.team.name}</span>
+                              </li>
+                            ))}
+                          </ul>
+                          <Button
+                            type="button"
+                            variant="outline"
+                            className="w-full"
+                            disabled={firstRegistrationMutation.isPending}
+                            onClick={() => firstRegistrationMutation.mutate({ ...firstForm.getValues(), confirmDuplicate: true })}
+                          >
+                            I am a different person, register anyway
+                          </Button>
+                        </div>
+                      )}
+
                       <Button 
                         type="submit" 
                         className="w-full h-12 text-base bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 shadow-lg"
@@ -556,6 +963,14 @@ export default function Home() {
                           )}
                         </Button>
                       </div>
+                      <Button
+                        variant="link"
+                        size="sm"
+                        className="mt-2 text-gray-500 dark:text-gray-400"
+                        onClick={() => setIsRecoverModalOpen(true)}
+                      >
+                        Forgot your code?
+                      </Button>
                     </div>
                   </div>
                 </CardContent>
@@ -685,19 +1100,35 @@ export default function Home() {
                           {programs.map((program) => {
                             const isSelected = selectedPrograms.includes(program.id);
                             const isAlreadyRegistered = selectedRegistrations.some(reg => reg.programId === program.id);
+                            const rejections = rejectedPrograms.filter(r => r.programId === program.id);
+                            const isGroup = program.participationType === 'group';
+                            const teamEntry = groupEntries.find(e =>
+                              e.programId === program.id && e.teamId === selectedParticipant.teamId
+                            );
+                            const { status, isLocked } = programStatus(program.id);
                             
                             return (
                               <div
                                 key={program.id}
-                                className={`p-4 rounded-lg border-2 cursor-pointer transition-all ${
+                                className={`p-4 rounded-lg border-2 transition-all ${
+                                  isLocked && !isAlreadyRegistered ? 'cursor-not-allowed opacity-60' : 'cursor-pointer'
+                                } ${
                                   isAlreadyRegistered 
                                     ? 'bg-gray-100 dark:bg-gray-700 border-gray-300 dark:border-gray-600' 
+                                    : rejections.length > 0
+                                      ? 'bg-red-50 dark:bg-red-900/20 border-red-500'
                                     : isSelected 
                                       ? 'bg-blue-50 dark:bg-blue-900/20 border-blue-500' 
                                       : 'bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-700 hover:border-blue-300'
                                 }`}
                                 onClick={() => {
-                                  if (!isAlreadyRegistered) {
+                                  if (isLocked) return;
+                                  if (isGroup) {
+                                    // Group programs are entered once per team, with a roster
+                                    if (!isAlreadyRegistered && !teamEntry) {
+                                      setGroupEntryProgram(program);
+                                    }
+                                  } else if (!isAlreadyRegistered) {
                                     if (isSelected) {
                                       removeProgram(program.id);
                                     } else {
@@ -717,7 +1148,37 @@ export default function Home() {
                                       <Badge variant="outline">
                                         {program.participationType}
                                       </Badge>
+                                      {status.state === "closed" && (
+                                        <Badge variant="destructive">Registration closed</Badge>
+                                      )}
+                                      {status.state === "not-open" && (
+                                        <Badge variant="secondary">Opens in {formatCountdown(status.opensIn)}</Badge>
+                                      )}
+                                      {status.state === "open" && status.closesIn !== null && (
+                                        <Badge
+                                          variant="outline"
+                                          className={status.closesIn < 24 * 60 * 60 * 1000 ? "border-amber-500 text-amber-700 dark:text-amber-300" : ""}
+                                        >
+                                          <Clock className="mr-1 h-3 w-3" />
+                                          Closes in {formatCountdown(status.closesIn)}
+                                        </Badge>
+                                      )}
                                     </div>
+                                    {isGroup && (
+                                      <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+                                        {teamEntry
+                                          ? `Your team's entry is led by ${teamEntry.leader.fullName} (${teamEntry.members.length} members)`
+                                          : program.minMembers || program.maxMembers
+                                            ? `Group entry, ${program.minMembers ?? 1}–${program.maxMembers ?? "any"} members`
+                                            : "Group entry"}
+                                      </p>
+                                    )}
+                                    {rejections.map((rejection, index) => (
+                                      <div key={index} className="flex items-center space-x-1 mt-2 text-sm text-red-600 dark:text-red-400">
+                                        <AlertCircle className="h-4 w-4 flex-shrink-0" />
+                                        <span>{rejection.message}</span>
+                                      </div>
+                                    ))}
                                   </div>
                                   <div className="ml-4">
                                     {isAlreadyRegistered ? (
@@ -794,28 +1255,72 @@ export default function Home() {
                     </CardHeader>
                     <CardContent>
                       <div className="space-y-3">
-                        {selectedRegistrations.map((registration) => (
-                          <div key={registration.id} className="flex items-center justify-between p-4 bg-gray-50 dark:bg-gray-700 rounded-lg">
-                            <div>
-                              <h4 className="font-semibold text-gray-900 dark:text-white">{registration.program.name}</h4>
-                              <div className="flex items-center space-x-2 mt-1">
-                                <Badge variant="outline">{registration.program.type}</Badge>
-                                <Badge variant="outline">{registration.program.participationType}</Badge>
-                                <span className="text-xs text-gray-500 dark:text-gray-400">
-                                  {new Date(registration.registeredAt).toLocaleDateString()}
-                                </span>
+                        {selectedRegistrations.map((registration) => {
+                          const groupEntry = groupEntries.find(e => e.id === registration.groupEntryId);
+                          const isLeader = groupEntry?.leaderId === selectedParticipant.id;
+                          const { isLocked } = programStatus(registration.programId);
+
+                          return (
+                            <div key={registration.id} className="flex items-center justify-between p-4 bg-gray-50 dark:bg-gray-700 rounded-lg">
+                              <div>
+                                <h4 className="font-semibold text-gray-900 dark:text-white">{registration.program.name}</h4>
+                                <div className="flex items-center space-x-2 mt-1">
+                                  <Badge variant="outline">{registration.program.type}</Badge>
+                                  <Badge variant="outline">{registration.program.participationType}</Badge>
+                                  {registration.waitlistPosition !== null && (
+                                    <Badge className="bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200">
+                                      Waitlist #{registration.waitlistPosition}
+                                    </Badge>
+                                  )}
+                                  <span className="text-xs text-gray-500 dark:text-gray-400">
+                                    {new Date(registration.registeredAt).toLocaleDateString()}
+                                  </span>
+                                </div>
+                                {groupEntry && (
+                                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                                    {isLeader ? "You lead this group" : `Led by ${groupEntry.leader.fullName}`} · {groupEntry.members.map(m => m.fullName).join(", ")}
+                                  </p>
+                                )}
                               </div>
+                              {groupEntry ? (
+                                <div className="flex space-x-2">
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={() => runPdfDownload(downloadGroupEntryCard(groupEntry, selectedParticipant.uniqueCode), "Group Card Failed")}
+                                  >
+                                    <IdCard className="h-4 w-4" />
+                                  </Button>
+                                  {isLeader && (
+                                    <Button
+                                      size="sm"
+                                      variant="destructive"
+                                      onClick={() => withdrawGroupEntryMutation.mutate({
+                                        entryId: groupEntry.id,
+                                        uniqueCode: selectedParticipant.uniqueCode
+                                      })}
+                                      disabled={isLocked || withdrawGroupEntryMutation.isPending}
+                                    >
+                                      <Trash2 className="h-4 w-4" />
+                                    </Button>
+                                  )}
+                                </div>
+                              ) : (
+                                <Button
+                                  size="sm"
+                                  variant="destructive"
+                                  onClick={() => deleteRegistrationMutation.mutate({
+                                    registrationId: registration.id,
+                                    uniqueCode: selectedParticipant.uniqueCode
+                                  })}
+                                  disabled={isLocked || deleteRegistrationMutation.isPending}
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              )}
                             </div>
-                            <Button
-                              size="sm"
-                              variant="destructive"
-                              onClick={() => deleteRegistrationMutation.mutate(registration.id)}
-                              disabled={deleteRegistrationMutation.isPending}
-                            >
-                              <Trash2 className="h-4 w-4" />
-                            </Button>
-                          </div>
-                        ))}
+                          );
+                        })}
                       </div>
                     </CardContent>
                   </Card>
@@ -839,7 +1344,7 @@ export default function Home() {
                     <Button
                       onClick={() => {
                         if (selectedParticipant) {
-                          generateIndividualReport(selectedParticipant, selectedRegistrations);
+                          runPdfDownload(downloadIndividualReport(selectedParticipant), "Report Failed");
                         }
                       }}
                       className="h-12 bg-blue-600 hover:bg-blue-700"
@@ -850,7 +1355,7 @@ export default function Home() {
                     <Button
                       onClick={() => {
                         if (selectedParticipant) {
-                          generateHistoryIDCard(selectedParticipant, selectedRegistrations);
+                          runPdfDownload(downloadIDCard(selectedParticipant), "ID Card Failed");
                         }
                       }}
                       variant="outline"
@@ -867,6 +1372,7 @@ export default function Home() {
                       setSelectedParticipant(null);
                       setSelectedRegistrations([]);
                       setSelectedPrograms([]);
+                      setRejectedPrograms([]);
                       setProgramType("");
                       setParticipationType("");
                       setExistingCode("");
@@ -890,122 +1396,299 @@ export default function Home() {
               <CardHeader>
                 <CardTitle className="flex items-center space-x-2 text-lg">
                   <ChartBar className="h-5 w-5 text-blue-500" />
-                  <span>Quick Stats</span>
+                  <span>Team Leaderboard</span>
                 </CardTitle>
               </CardHeader>
-              <CardContent className="space-y-4">
-                <div className="grid grid-cols-2 gap-4">
-                  <div className="text-center p-4 bg-blue-50 dark:bg-blue-900/20 rounded-lg">
-                    <div className="text-2xl font-bold text-blue-600 dark:text-blue-400">{stats?.totalRegistered || 0}</div>
-                    <div className="text-xs text-gray-600 dark:text-gray-300">Participants</div>
-                  </div>
-                  <div className="text-center p-4 bg-green-50 dark:bg-green-900/20 rounded-lg">
-                    <div className="text-2xl font-bold text-green-600 dark:text-green-400">{stats?.totalPrograms || 0}</div>
-                    <div className="text-xs text-gray-600 dark:text-gray-300">Registrations</div>
-                  </div>
-                </div>
-                <div className="grid grid-cols-2 gap-4">
-                  <div className="text-center p-4 bg-purple-50 dark:bg-purple-900/20 rounded-lg">
-                    <div className="text-2xl font-bold text-purple-600 dark:text-purple-400">{stats?.stagePrograms || 0}</div>
-                    <div className="text-xs text-gray-600 dark:text-gray-300">Stage</div>
-                  </div>
-                  <div className="text-center p-4 bg-orange-50 dark:bg-orange-900/20 rounded-lg">
-                    <div className="text-2xl font-bold text-orange-600 dark:text-orange-400">{stats?.nonStagePrograms || 0}</div>
-                    <div className="text-xs text-gray-600 dark:text-gray-300">Non-Stage</div>
+              <CardContent className="space-y-3">
+                {standings.map((standing) => (
+                  <div
+                    key={standing.team.id}
+                    className={`flex items-center justify-between p-3 rounded-lg ${
+                      standing.rank === 1 && standing.points > 0
+                        ? 'bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800'
+                        : 'bg-gray-50 dark:bg-gray-700'
+                    }`}
+                  >
+                    <div className="flex items-center space-x-3">
+                      <div className="w-8 h-8 rounded-full bg-gradient-to-br from-blue-500 to-purple-600 flex items-center justify-center text-white text-sm font-bold">
+                        {standing.rank}
+                      </div>
+                      <div>
+                        <p className="font-semibold text-gray-900 dark:text-white">{standing.team.name}</p>
+                        <div className="flex items-center space-x-2 text-xs text-gray-500 dark:text-gray-400">
+                          <span className="flex items-center space-x-1">
+                            <Award className="h-3 w-3 text-yellow-500" />
+                            <span>{standing.firsts}/{standing.seconds}/{standing.thirds}</span>
+                          </span>
+                          <span className="flex items-center space-x-1">
+                            <Star className="h-3 w-3 text-purple-500" />
+                            <span>{standing.aGrades} A</span>
+                          </span>
+                        </div>
+                      </div>
+                    </div>
+                    <div className="text-right">
+                      <div className="text-xl font-bold text-blue-600 dark:text-blue-400">{standing.points}</div>
+                      <div className="text-xs text-gray-600 dark:text-gray-300">points</div>
+                    </div>
                   </div>
-                </div>
+                ))}
               </CardContent>
             </Card>
 
             {/* Data Management & Export */}
-            <Card className="border-0 shadow-lg bg-white/70 dark:bg-gray-800/70 backdrop-blur-sm">
-              <CardHeader>
-                <CardTitle className="flex items-center space-x-2 text-lg">
-                  <Database className="h-5 w-5 text-green-500" />
-                  <span>Data Management</span>
-                </CardTitle>
-              </CardHeader>
-              <CardContent className="space-y-4">
+            {canManageRegistrations && (
+              <Card className="border-0 shadow-lg bg-white/70 dark:bg-gray-800/70 backdrop-blur-sm">
+                <CardHeader>
+                  <CardTitle className="flex items-center space-x-2 text-lg">
+                    <Database className="h-5 w-5 text-green-500" />
+                    <span>Data Management</span>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
                 
-                {/* Search and Filter */}
-                <div className="space-y-3">
-                  <div className="relative">
-                    <Search className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
-                    <Input
-                      placeholder="Search participants..."
-                      value={searchTerm}
-                      onChange={(e) => setSearchTerm(e.target.value)}
-                      className="pl-10 h-10 border-2"
-                    />
-                  </div>
+                  {/* Search and Filter */}
+                  <div className="space-y-3">
+                    <div className="relative">
+                      <Search className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+                      <Input
+                        placeholder="Search participants..."
+                        value={searchTerm}
+                        onChange={(e) => setSearchTerm(e.target.value)}
+                        className="pl-10 h-10 border-2"
+                      />
+                    </div>
                   
-                  <Select value={filterType} onValueChange={setFilterType}>
-                    <SelectTrigger className="h-10 border-2">
-                      <div className="flex items-center space-x-2">
-                        <Filter className="h-4 w-4 text-gray-400" />
-                        <SelectValue placeholder="Filter by type" />
+                    <Select value={filterType} onValueChange={setFilterType}>
+                      <SelectTrigger className="h-10 border-2">
+                        <div className="flex items-center space-x-2">
+                          <Filter className="h-4 w-4 text-gray-400" />
+                          <SelectValue placeholder="Filter by type" />
+                        </div>
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">All Programs</SelectItem>
+                        <SelectItem value="stage">Stage Programs</SelectItem>
+                        <SelectItem value="non-stage">Non-Stage Programs</SelectItem>
+                      </SelectContent>
+                    </Select>
+
+                    <Select value={filterParticipation} onValueChange={setFilterParticipation}>
+                      <SelectTrigger className="h-10 border-2">
+                        <SelectValue placeholder="Filter by participation" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">Individual and Group</SelectItem>
+                        <SelectItem value="individual">Individual Only</SelectItem>
+                        <SelectItem value="group">Group Only</SelectItem>
+                      </SelectContent>
+                    </Select>
+
+                    {hasRole("admin") && (
+                      <Select value={filterTeam} onValueChange={setFilterTeam}>
+                        <SelectTrigger className="h-10 border-2">
+                          <SelectValue placeholder="Filter by team" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="all">All Teams</SelectItem>
+                          {teams.map(team => (
+                            <SelectItem key={team.id} value={team.id.toString()}>{team.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+
+                    <Select value={filterProgram} onValueChange={setFilterProgram}>
+                      <SelectTrigger className="h-10 border-2">
+                        <SelectValue placeholder="Filter by program" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">Any Program</SelectItem>
+                        {allPrograms.map(program => (
+                          <SelectItem key={program.id} value={program.id.toString()}>{program.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+
+                    <div className="grid grid-cols-2 gap-2">
+                      <div>
+                        <Label className="text-xs text-gray-500 dark:text-gray-400">Registered from</Label>
+                        <Input
+                          type="date"
+                          value={filterFrom}
+                          onChange={(e) => setFilterFrom(e.target.value)}
+                          className="h-10 border-2"
+                        />
                       </div>
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="all">All Programs</SelectItem>
-                      <SelectItem value="stage">Stage Programs</SelectItem>
-                      <SelectItem value="non-stage">Non-Stage Programs</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
+                      <div>
+                        <Label className="text-xs text-gray-500 dark:text-gray-400">Registered to</Label>
+                        <Input
+                          type="date"
+                          value={filterTo}
+                          onChange={(e) => setFilterTo(e.target.value)}
+                          className="h-10 border-2"
+                        />
+                      </div>
+                    </div>
 
-                {/* Export Buttons */}
-                <div className="space-y-2">
-                  <p className="text-sm font-medium text-gray-700 dark:text-gray-300">Export Data</p>
-                  <div className="grid grid-cols-1 gap-2">
-                    <Button
-                      onClick={() => exportSelectedData('pdf')}
-                      variant="outline"
-                      size="sm"
-                      className="justify-start h-9"
-                    >
-                      <FileText className="mr-2 h-4 w-4" />
-                      Export PDF Report
-                    </Button>
-                    <Button
-                      onClick={() => exportSelectedData('csv')}
-                      variant="outline"
-                      size="sm"
-                      className="justify-start h-9"
-                    >
-                      <Download className="mr-2 h-4 w-4" />
-                      Export CSV Data
-                    </Button>
-                    <Button
-                      onClick={() => exportSelectedData('json')}
-                      variant="outline"
-                      size="sm"
-                      className="justify-start h-9"
-                    >
-                      <Archive className="mr-2 h-4 w-4" />
-                      Export JSON Data
-                    </Button>
+                    {hasActiveFilters && (
+                      <Button onClick={clearFilters} variant="ghost" size="sm" className="h-7 text-xs">
+                        Clear filters
+                      </Button>
+                    )}
                   </div>
-                </div>
 
-                {/* Selected Rows Info */}
-                {selectedRows.length > 0 && (
-                  <div className="bg-blue-50 dark:bg-blue-900/20 p-3 rounded-lg border border-blue-200 dark:border-blue-800">
-                    <p className="text-sm text-blue-800 dark:text-blue-200">
-                      <strong>{selectedRows.length}</strong> rows selected
-                    </p>
+                  {/* Export Buttons */}
+                  <div className="space-y-2">
+                    <p className="text-sm font-medium text-gray-700 dark:text-gray-300">Export Data</p>
+                    <div className="grid grid-cols-1 gap-2">
+                      <Button
+                        onClick={() => exportSelectedData('pdf')}
+                        variant="outline"
+                        size="sm"
+                        className="justify-start h-9"
+                      >
+                        <FileText className="mr-2 h-4 w-4" />
+                        Export PDF Report
+                      </Button>
+                      <Button
+                        onClick={exportWorkbook}
+                        variant="outline"
+                        size="sm"
+                        className="justify-start h-9"
+                      >
+                        <FileSpreadsheet className="mr-2 h-4 w-4" />
+                        Export Excel Workbook
+                      </Button>
+                      <Button
+                        onClick={() => exportSelectedData('csv')}
+                        variant="outline"
+                        size="sm"
+                        className="justify-start h-9"
+                      >
+                        <Download className="mr-2 h-4 w-4" />
+                        Export CSV Data
+                      </Button>
+                      <Button
+                        onClick={() => exportSelectedData('json')}
+                        variant="outline"
+                        size="sm"
+                        className="justify-start h-9"
+                      >
+                        <Archive className="mr-2 h-4 w-4" />
+                        Export JSON Data
+                      </Button>
+                      <Button
+                        onClick={handleDownloadTimetable}
+                        variant="outline"
+                        size="sm"
+                        className="justify-start h-9"
+                      >
+                        <Clock className="mr-2 h-4 w-4" />
+                        Stage Timetable
+                      </Button>
+                      {hasRole("admin") && (
+                        <Button
+                          onClick={() => runPdfDownload(downloadAllCallSheets(), "Download Failed")}
+                          variant="outline"
+                          size="sm"
+                          className="justify-start h-9"
+                        >
+                          <ListOrdered className="mr-2 h-4 w-4" />
+                          Call Sheets (ZIP)
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+
+                  {/* Import */}
+                  <div className="space-y-2">
+                    <p className="text-sm font-medium text-gray-700 dark:text-gray-300">Import Data</p>
                     <Button
-                      onClick={() => setSelectedRows([])}
-                      variant="ghost"
+                      onClick={() => setIsImportModalOpen(true)}
+                      variant="outline"
                       size="sm"
-                      className="mt-1 h-6 text-xs text-blue-600 dark:text-blue-400"
+                      className="w-full justify-start h-9"
                     >
-                      Clear selection
+                      <FileSpreadsheet className="mr-2 h-4 w-4" />
+                      Import Participants
                     </Button>
+                    {hasRole("admin") && (
+                      <Button
+                        onClick={() => setIsDuplicatesModalOpen(true)}
+                        variant="outline"
+                        size="sm"
+                        className="w-full justify-start h-9"
+                      >
+                        <Users className="mr-2 h-4 w-4" />
+                        Find Duplicates
+                      </Button>
+                    )}
+                    {hasRole("admin") && (
+                      <Button
+                        onClick={() => setIsCodeResetModalOpen(true)}
+                        variant="outline"
+                        size="sm"
+                        className="w-full justify-start h-9"
+                      >
+                        <KeyRound className="mr-2 h-4 w-4" />
+                        Code Recovery
+                      </Button>
+                    )}
+                    {hasRole("admin") && (
+                      <Button
+                        onClick={() => setIsProgramsModalOpen(true)}
+                        variant="outline"
+                        size="sm"
+                        className="w-full justify-start h-9"
+                      >
+                        <ListOrdered className="mr-2 h-4 w-4" />
+                        Manage Programs
+                      </Button>
+                    )}
+                    {hasRole("admin") && (
+                      <Button
+                        onClick={() => setIsWindowModalOpen(true)}
+                        variant="outline"
+                        size="sm"
+                        className="w-full justify-start h-9"
+                      >
+                        <CalendarClock className="mr-2 h-4 w-4" />
+                        Registration Window
+                      </Button>
+                    )}
+                    {hasRole("admin") && (
+                      <Button
+                        onClick={() => setIsChestNumbersModalOpen(true)}
+                        variant="outline"
+                        size="sm"
+                        className="w-full justify-start h-9"
+                      >
+                        <Hash className="mr-2 h-4 w-4" />
+                        Chest Numbers
+                      </Button>
+                    )}
                   </div>
-                )}
-              </CardContent>
-            </Card>
+
+                  {/* Selected Rows Info */}
+                  {selectedRows.length > 0 && (
+                    <div className="bg-blue-50 dark:bg-blue-900/20 p-3 rounded-lg border border-blue-200 dark:border-blue-800">
+                      <p className="text-sm text-blue-800 dark:text-blue-200">
+                        <strong>{selectedRows.length}</strong> rows selected
+                      </p>
+                      <Button
+                        onClick={() => setSelectedRows([])}
+                        variant="ghost"
+                        size="sm"
+                        className="mt-1 h-6 text-xs text-blue-600 dark:text-blue-400"
+                      >
+                        Clear selection
+                      </Button>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            )}
 
             {/* Help & Support */}
             <Card className="border-0 shadow-lg bg-white/70 dark:bg-gray-800/70 backdrop-blur-sm">
@@ -1055,193 +1738,221 @@ export default function Home() {
         </div>
 
         {/* Data Table Section */}
-        <Card className="mt-8 border-0 shadow-xl bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm">
-          <CardHeader className="bg-gradient-to-r from-gray-50 to-gray-100 dark:from-gray-800 dark:to-gray-700 rounded-t-lg">
-            <div className="flex flex-col sm:flex-row sm:items-center justify-between space-y-4 sm:space-y-0">
-              <div>
-                <CardTitle className="flex items-center space-x-2 text-xl">
-                  <Database className="h-6 w-6 text-blue-500" />
-                  <span>Registration Data</span>
-                </CardTitle>
-                <p className="text-sm text-gray-600 dark:text-gray-300 mt-1">
-                  Showing {filteredRegistrations.length} of {allRegistrations.length} registrations
-                </p>
-              </div>
+        {canManageRegistrations && (
+          <Card className="mt-8 border-0 shadow-xl bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm">
+            <CardHeader className="bg-gradient-to-r from-gray-50 to-gray-100 dark:from-gray-800 dark:to-gray-700 rounded-t-lg">
+              <div className="flex flex-col sm:flex-row sm:items-center justify-between space-y-4 sm:space-y-0">
+                <div>
+                  <CardTitle className="flex items-center space-x-2 text-xl">
+                    <Database className="h-6 w-6 text-blue-500" />
+                    <span>Registration Data</span>
+                  </CardTitle>
+                  <p className="text-sm text-gray-600 dark:text-gray-300 mt-1">
+                    {totalRegistrations === 0
+                      ? "No matching registrations"
+                      : `Showing ${pageStart + 1}–${pageStart + pageRegistrations.length} of ${totalRegistrations} registrations`}
+                  </p>
+                </div>
               
-              <div className="flex items-center space-x-2">
-                <Button
-                  onClick={() => queryClient.invalidateQueries({ queryKey: ["/api/registrations"] })}
-                  variant="outline"
-                  size="sm"
-                >
-                  <Activity className="mr-2 h-4 w-4" />
-                  Refresh
-                </Button>
+                <div className="flex items-center space-x-2">
+                  <Button
+                    onClick={() => queryClient.invalidateQueries({ queryKey: ["/api/registrations"] })}
+                    variant="outline"
+                    size="sm"
+                  >
+                    <Activity className="mr-2 h-4 w-4" />
+                    Refresh
+                  </Button>
+                </div>
               </div>
-            </div>
-          </CardHeader>
-          <CardContent className="p-0">
-            <div className="overflow-x-auto">
-              <Table>
-                <TableHeader>
-                  <TableRow className="bg-gray-50 dark:bg-gray-800">
-                    <TableHead className="w-12">
-                      <Checkbox
-                        checked={selectedRows.length === filteredRegistrations.length && filteredRegistrations.length > 0}
-                        onCheckedChange={handleSelectAll}
-                      />
-                    </TableHead>
-                    <TableHead className="font-semibold">Participant</TableHead>
-                    <TableHead className="font-semibold">Team</TableHead>
-                    <TableHead className="font-semibold">Code</TableHead>
-                    <TableHead className="font-semibold">Program</TableHead>
-                    <TableHead className="font-semibold">Type</TableHead>
-                    <TableHead className="font-semibold">Participation</TableHead>
-                    <TableHead className="font-semibold">Date</TableHead>
-                    <TableHead className="font-semibold">Actions</TableHead>
-                  </TableRow>
-                </TableHeader>
-                <TableBody>
-                  {filteredRegistrations.length === 0 ? (
-                    <TableRow>
-                      <TableCell colSpan={9} className="text-center py-12">
-                        <div className="flex flex-col items-center space-y-3">
-                          <Database className="h-12 w-12 text-gray-400" />
-                          <p className="text-gray-500 dark:text-gray-400">No registrations found</p>
-                          <p className="text-sm text-gray-400 dark:text-gray-500">
-                            {searchTerm || filterType !== "all" 
-                              ? "Try adjusting your search or filter criteria" 
-                              : "Start by registering participants for programs"
-                            }
-                          </p>
-                        </div>
-                      </TableCell>
+            </CardHeader>
+            <CardContent className="p-0">
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow className="bg-gray-50 dark:bg-gray-800">
+                      <TableHead className="w-12">
+                        <Checkbox
+                          checked={isPageSelected}
+                          onCheckedChange={handleSelectAll}
+                        />
+                      </TableHead>
+                      {sortableHead("participant", "Participant")}
+                      {sortableHead("team", "Team")}
+                      {sortableHead("code", "Code")}
+                      {sortableHead("program", "Program")}
+                      <TableHead className="font-semibold">Type</TableHead>
+                      <TableHead className="font-semibold">Participation</TableHead>
+                      {sortableHead("registeredAt", "Date")}
+                      <TableHead className="font-semibold">Actions</TableHead>
                     </TableRow>
-                  ) : (
-                    filteredRegistrations.map((registration) => (
-                      <TableRow 
-                        key={registration.id} 
-                        className={`hover:bg-gray-50 dark:hover:bg-gray-700 ${
-                          selectedRows.includes(registration.id) ? 'bg-blue-50 dark:bg-blue-900/20' : ''
-                        }`}
-                      >
-                        <TableCell>
-                          <Checkbox
-                            checked={selectedRows.includes(registration.id)}
-                            onCheckedChange={(checked) => handleSelectRow(registration.id, !!checked)}
-                          />
+                  </TableHeader>
+                  <TableBody>
+                    {pageRegistrations.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={9} className="text-center py-12">
+                          <div className="flex flex-col items-center space-y-3">
+                            <Database className="h-12 w-12 text-gray-400" />
+                            <p className="text-gray-500 dark:text-gray-400">No registrations found</p>
+                            <p className="text-sm text-gray-400 dark:text-gray-500">
+                              {hasActiveFilters
+                                ? "Try adjusting your search or filter criteria" 
+                                : "Start by registering participants for programs"
+                              }
+                            </p>
+                          </div>
                         </TableCell>
-                        <TableCell>
-                          <div className="flex items-center space-x-3">
-                            <div className="w-8 h-8 bg-gradient-to-br from-blue-500 to-purple-600 rounded-full flex items-center justify-center">
-                              <span className="text-white text-xs font-bold">
-                                {registration.participant.fullName.charAt(0)}
-                              </span>
+                      </TableRow>
+                    ) : (
+                      pageRegistrations.map((registration) => (
+                        <TableRow 
+                          key={registration.id} 
+                          className={`hover:bg-gray-50 dark:hover:bg-gray-700 ${
+                            selectedRows.includes(registration.id) ? 'bg-blue-50 dark:bg-blue-900/20' : ''
+                          }`}
+                        >
+                          <TableCell>
+                            <Checkbox
+                              checked={selectedRows.includes(registration.id)}
+                              onCheckedChange={(checked) => handleSelectRow(registration.id, !!checked)}
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex items-center space-x-3">
+                              <div className="w-8 h-8 bg-gradient-to-br from-blue-500 to-purple-600 rounded-full flex items-center justify-center">
+                                <span className="text-white text-xs font-bold">
+                                  {registration.participant.fullName.charAt(0)}
+                                </span>
+                              </div>
+                              <div>
+                                <p className="font-medium text-gray-900 dark:text-white">
+                                  {registration.participant.fullName}
+                                </p>
+                              </div>
                             </div>
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant="secondary" className="bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200">
+                              {registration.participant.team.name}
+                            </Badge>
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant="outline" className="font-mono text-xs">
+                              {registration.participant.uniqueCode}
+                            </Badge>
+                          </TableCell>
+                          <TableCell>
                             <div>
                               <p className="font-medium text-gray-900 dark:text-white">
-                                {registration.participant.fullName}
+                                {registration.program.name}
+                              </p>
+                              <p className="text-xs text-gray-500 dark:text-gray-400 truncate max-w-48">
+                                {registration.program.description}
                               </p>
                             </div>
-                          </div>
-                        </TableCell>
-                        <TableCell>
-                          <Badge variant="secondary" className="bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200">
-                            {registration.participant.team.name}
-                          </Badge>
-                        </TableCell>
-                        <TableCell>
-                          <Badge variant="outline" className="font-mono text-xs">
-                            {registration.participant.uniqueCode}
-                          </Badge>
-                        </TableCell>
-                        <TableCell>
-                          <div>
-                            <p className="font-medium text-gray-900 dark:text-white">
-                              {registration.program.name}
-                            </p>
-                            <p className="text-xs text-gray-500 dark:text-gray-400 truncate max-w-48">
-                              {registration.program.description}
-                            </p>
-                          </div>
-                        </TableCell>
-                        <TableCell>
-                          <Badge 
-                            variant={registration.program.type === 'stage' ? 'default' : 'secondary'}
-                            className={
-                              registration.program.type === 'stage' 
-                                ? 'bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200'
-                                : 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200'
-                            }
-                          >
-                            {registration.program.type}
-                          </Badge>
-                        </TableCell>
-                        <TableCell>
-                          <Badge 
-                            variant="outline"
-                            className={
-                              registration.program.participationType === 'group'
-                                ? 'border-green-300 text-green-700 dark:border-green-700 dark:text-green-400'
-                                : 'border-orange-300 text-orange-700 dark:border-orange-700 dark:text-orange-400'
-                            }
-                          >
-                            {registration.program.participationType}
-                          </Badge>
-                        </TableCell>
-                        <TableCell>
-                          <div className="flex items-center space-x-1 text-sm text-gray-600 dark:text-gray-300">
-                            <Calendar className="h-3 w-3" />
-                            <span>{new Date(registration.registeredAt).toLocaleDateString()}</span>
-                          </div>
-                        </TableCell>
-                        <TableCell>
-                          <div className="flex items-center space-x-2">
-                            <Button
-                              size="sm"
-                              variant="outline"
-                              onClick={() => {
-                                generateIndividualReport(
-                                  registration.participant,
-                                  [registration]
-                                );
-                              }}
-                              className="h-7 px-2"
+                          </TableCell>
+                          <TableCell>
+                            <Badge 
+                              variant={registration.program.type === 'stage' ? 'default' : 'secondary'}
+                              className={
+                                registration.program.type === 'stage' 
+                                  ? 'bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200'
+                                  : 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200'
+                              }
                             >
-                              <FileText className="h-3 w-3" />
-                            </Button>
-                            <Button
-                              size="sm"
+                              {registration.program.type}
+                            </Badge>
+                          </TableCell>
+                          <TableCell>
+                            <Badge 
                               variant="outline"
-                              onClick={() => {
-                                generateHistoryIDCard(
-                                  registration.participant,
-                                  [registration]
-                                );
-                              }}
-                              className="h-7 px-2"
-                            >
-                              <IdCard className="h-3 w-3" />
-                            </Button>
-                            <Button
-                              size="sm"
-                              variant="destructive"
-                              onClick={() => deleteRegistrationMutation.mutate(registration.id)}
-                              disabled={deleteRegistrationMutation.isPending}
-                              className="h-7 px-2"
+                              className={
+                                registration.program.participationType === 'group'
+                                  ? 'border-green-300 text-green-700 dark:border-green-700 dark:text-green-400'
+                                  : 'border-orange-300 text-orange-700 dark:border-orange-700 dark:text-orange-400'
+                              }
                             >
-                              <Trash2 className="h-3 w-3" />
-                            </Button>
-                          </div>
-                        </TableCell>
-                      </TableRow>
-                    ))
-                  )}
-                </TableBody>
-              </Table>
-            </div>
-          </CardContent>
-        </Card>
+                              {registration.program.participationType}
+                            </Badge>
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex items-center space-x-1 text-sm text-gray-600 dark:text-gray-300">
+                              <Calendar className="h-3 w-3" />
+                              <span>{new Date(registration.registeredAt).toLocaleDateString()}</span>
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex items-center space-x-2">
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => {
+                                  runPdfDownload(
+                                    downloadIndividualReport(registration.participant, registration),
+                                    "Report Failed"
+                                  );
+                                }}
+                                className="h-7 px-2"
+                              >
+                                <FileText className="h-3 w-3" />
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => {
+                                  runPdfDownload(downloadIDCard(registration.participant), "ID Card Failed");
+                                }}
+                                className="h-7 px-2"
+                              >
+                                <IdCard className="h-3 w-3" />
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="destructive"
+                                onClick={() => deleteRegistrationMutation.mutate({ registrationId: registration.id })}
+                                disabled={deleteRegistrationMutation.isPending || !!registration.groupEntryId}
+                                className="h-7 px-2"
+                              >
+                                <Trash2 className="h-3 w-3" />
+                              </Button>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+              {totalRegistrations > REGISTRATIONS_PAGE_SIZE && (
+                <div className="flex items-center justify-between px-4 py-3 border-t">
+                  <p className="text-sm text-gray-600 dark:text-gray-300">
+                    Page {pageCursors.length + 1} of {Math.ceil(totalRegistrations / REGISTRATIONS_PAGE_SIZE)}
+                  </p>
+                  <div className="flex items-center space-x-2">
+                    <Button
+                      onClick={() => setPageCursors(pageCursors.slice(0, -1))}
+                      disabled={pageCursors.length === 0 || isFetchingRegistrations}
+                      variant="outline"
+                      size="sm"
+                    >
+                      <ChevronLeft className="mr-1 h-4 w-4" />
+                      Previous
+                    </Button>
+                    <Button
+                      onClick={() => registrationPage?.nextCursor && setPageCursors([...pageCursors, registrationPage.nextCursor])}
+                      disabled={!registrationPage?.nextCursor || isFetchingRegistrations}
+                      variant="outline"
+                      size="sm"
+                    >
+                      Next
+                      <ChevronRight className="ml-1 h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
       </main>
 
       {/* Image Upload Modal */}
@@ -1249,7 +1960,79 @@ export default function Home() {
         isOpen={isImageModalOpen}
         onClose={() => setIsImageModalOpen(false)}
         onImageUpload={handleImageUpload}
+        uniqueCode={selectedParticipant?.uniqueCode}
+      />
+
+      {/* Import Participants Modal */}
+      {canManageRegistrations && (
+        <ImportParticipantsModal
+          isOpen={isImportModalOpen}
+          onClose={() => setIsImportModalOpen(false)}
+          teams={teams}
+          canChooseTeam={hasRole("admin")}
+        />
+      )}
+
+      {/* Duplicate Participants Modal */}
+      {hasRole("admin") && (
+        <DuplicatesModal
+          isOpen={isDuplicatesModalOpen}
+          onClose={() => setIsDuplicatesModalOpen(false)}
+        />
+      )}
+
+      {/* Code Reset Modal */}
+      {hasRole("admin") && (
+        <CodeResetModal
+          isOpen={isCodeResetModalOpen}
+          onClose={() => setIsCodeResetModalOpen(false)}
+        />
+      )}
+
+      {/* Programs Modal */}
+      {hasRole("admin") && (
+        <ProgramsModal
+          isOpen={isProgramsModalOpen}
+          onClose={() => setIsProgramsModalOpen(false)}
+        />
+      )}
+
+      {/* Registration Window Modal */}
+      {hasRole("admin") && (
+        <RegistrationWindowModal
+          isOpen={isWindowModalOpen}
+          onClose={() => setIsWindowModalOpen(false)}
+          teams={teams}
+        />
+      )}
+
+      {/* Chest Numbers Modal */}
+      {hasRole("admin") && (
+        <ChestNumbersModal
+          isOpen={isChestNumbersModalOpen}
+          onClose={() => setIsChestNumbersModalOpen(false)}
+          teams={teams}
+        />
+      )}
+
+      {/* Recover Code Modal */}
+      <RecoverCodeModal
+        isOpen={isRecoverModalOpen}
+        onClose={() => setIsRecoverModalOpen(false)}
+        teams={teams}
+        onRecovered={setExistingCode}
       />
+
+      {/* Group Entry Modal */}
+      {selectedParticipant && (
+        <GroupEntryModal
+          isOpen={!!groupEntryProgram}
+          onClose={() => setGroupEntryProgram(null)}
+          program={groupEntryProgram}
+          leader={selectedParticipant}
+          onEntryCreated={(_entry, registrations) => setSelectedRegistrations(registrations)}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,99 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Redirect, Link } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useAuth } from "@/hooks/use-auth";
+import { loginSchema, type Login as LoginData } from "@shared/schema";
+import { Palette, LogIn, ArrowLeft } from "lucide-react";
+
+export default function Login() {
+  const { user, loginMutation } = useAuth();
+
+  const form = useForm<LoginData>({
+    resolver: zodResolver(loginSchema),
+    defaultValues: {
+      username: "",
+      password: "",
+    },
+  });
+
+  if (user) {
+    return <Redirect to="/" />;
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-slate-50 to-slate-100 dark:from-gray-900 dark:to-gray-800 px-4">
+      <Card className="w-full max-w-md border-0 shadow-xl bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm">
+        <CardHeader className="bg-gradient-to-r from-blue-50 to-purple-50 dark:from-blue-900/20 dark:to-purple-900/20 rounded-t-lg">
+          <div className="flex items-center space-x-3">
+            <div className="bg-gradient-to-r from-blue-600 to-purple-600 p-3 rounded-xl shadow-lg">
+              <Palette className="text-white h-6 w-6" />
+            </div>
+            <div>
+              <CardTitle className="text-xl">Staff Login</CardTitle>
+              <p className="text-sm text-gray-600 dark:text-gray-300">Admins, team managers, judges and volunteers</p>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="p-8">
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => loginMutation.mutate(data))} className="space-y-6">
+              <FormField
+                control={form.control}
+                name="username"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-base font-semibold">Username</FormLabel>
+                    <FormControl>
+                      <Input {...field} autoComplete="username" className="h-12 text-base border-2 focus:border-blue-500" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="password"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-base font-semibold">Password</FormLabel>
+                    <FormControl>
+                      <Input {...field} type="password" autoComplete="current-password" className="h-12 text-base border-2 focus:border-blue-500" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <Button
+                type="submit"
+                className="w-full h-12 text-base bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 shadow-lg"
+                disabled={loginMutation.isPending}
+              >
+                {loginMutation.isPending ? (
+                  <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+                ) : (
+                  <div className="flex items-center space-x-2">
+                    <LogIn className="h-5 w-5" />
+                    <span>Log In</span>
+                  </div>
+                )}
+              </Button>
+            </form>
+          </Form>
+
+          <div className="mt-6 text-center">
+            <Link href="/" className="inline-flex items-center space-x-1 text-sm text-gray-500 dark:text-gray-400 hover:text-blue-600">
+              <ArrowLeft className="h-4 w-4" />
+              <span>Back to registration</span>
+            </Link>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
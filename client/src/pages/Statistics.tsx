@@ -0,0 +1,266 @@
+import { useQuery } from "@tanstack/react-query";
+import { Redirect, Link } from "wouter";
+import { Bar, BarChart, CartesianGrid, Cell, Line, LineChart, Pie, PieChart, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  ChartContainer, ChartTooltip, ChartTooltipContent, ChartLegend, ChartLegendContent, type ChartConfig
+} from "@/components/ui/chart";
+import { useAuth } from "@/hooks/use-auth";
+import type { FestivalStatistics } from "@shared/schema";
+import { ChartBar, ArrowLeft } from "lucide-react";
+
+const teamChartConfig = {
+  stage: { label: "Stage", color: "#8b5cf6" },
+  nonStage: { label: "Non-Stage", color: "#10b981" },
+} satisfies ChartConfig;
+
+const participationChartConfig = {
+  individual: { label: "Individual", color: "#f97316" },
+  group: { label: "Group", color: "#22c55e" },
+} satisfies ChartConfig;
+
+const dailyChartConfig = {
+  registrations: { label: "Registrations", color: "#3b82f6" },
+} satisfies ChartConfig;
+
+const programChartConfig = {
+  confirmed: { label: "Confirmed", color: "#3b82f6" },
+  waitlisted: { label: "Waitlisted", color: "#f59e0b" },
+} satisfies ChartConfig;
+
+// Programs shown in the chart; the table below lists them all
+const TOP_PROGRAMS = 10;
+
+export default function Statistics() {
+  const { user, isLoading, hasRole } = useAuth();
+
+  const { data: statistics } = useQuery<FestivalStatistics>({
+    queryKey: ["/api/statistics"],
+    enabled: hasRole("admin", "team_manager"),
+    refetchInterval: 60000,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (!user || !hasRole("admin", "team_manager")) {
+    return <Redirect to="/login" />;
+  }
+
+  const totals = statistics?.totals;
+  const teamData = (statistics?.teams ?? []).map(row => ({
+    name: row.team.name,
+    stage: row.stageRegistrations,
+    nonStage: row.nonStageRegistrations,
+  }));
+  const participationData = (statistics?.participationTypes ?? []).map(row => ({
+    participationType: row.participationType,
+    registrations: row.registrations,
+    fill: `var(--color-${row.participationType})`,
+  }));
+  const programData = [...(statistics?.programs ?? [])]
+    .sort((a, b) => b.registrations - a.registrations)
+    .slice(0, TOP_PROGRAMS)
+    .map(row => ({
+      name: row.program.name,
+      confirmed: row.registrations - row.waitlisted,
+      waitlisted: row.waitlisted,
+    }));
+
+  const summary = [
+    { label: "Participants", value: totals?.participants, detail: `${totals?.registeredParticipants ?? 0} registered for a program` },
+    { label: "Registrations", value: totals?.registrations, detail: `${totals?.waitlisted ?? 0} on a waitlist` },
+    { label: "Stage Registrations", value: totals?.stageRegistrations, detail: `${totals?.stagePrograms ?? 0} stage programs` },
+    { label: "Non-Stage Registrations", value: totals?.nonStageRegistrations, detail: `${totals?.nonStagePrograms ?? 0} non-stage programs` },
+  ];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 dark:from-gray-900 dark:to-gray-800">
+      <main className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <div className="bg-gradient-to-r from-blue-600 to-purple-600 p-3 rounded-xl shadow-lg">
+              <ChartBar className="text-white h-6 w-6" />
+            </div>
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Statistics</h1>
+              <p className="text-sm text-gray-600 dark:text-gray-300">
+                Registrations by team, program and day
+              </p>
+            </div>
+          </div>
+          <Link href="/" className="inline-flex items-center space-x-1 text-sm text-gray-500 dark:text-gray-400 hover:text-blue-600">
+            <ArrowLeft className="h-4 w-4" />
+            <span>Back</span>
+          </Link>
+        </div>
+
+        <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+          {summary.map(item => (
+            <Card key={item.label} className="border-0 shadow-lg bg-white/70 dark:bg-gray-800/70 backdrop-blur-sm">
+              <CardContent className="p-4">
+                <p className="text-sm text-gray-600 dark:text-gray-300">{item.label}</p>
+                <p className="text-3xl font-bold text-gray-900 dark:text-white">{item.value ?? 0}</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">{item.detail}</p>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+          <Card className="border-0 shadow-xl bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm">
+            <CardHeader>
+              <CardTitle className="text-lg">Registrations by Team</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={teamChartConfig} className="h-64 w-full">
+                <BarChart data={teamData}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="name" tickLine={false} axisLine={false} />
+                  <YAxis allowDecimals={false} tickLine={false} axisLine={false} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Bar dataKey="stage" stackId="type" fill="var(--color-stage)" />
+                  <Bar dataKey="nonStage" stackId="type" fill="var(--color-nonStage)" radius={[4, 4, 0, 0]} />
+                </BarChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+
+          <Card className="border-0 shadow-xl bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm">
+            <CardHeader>
+              <CardTitle className="text-lg">Individual and Group</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={participationChartConfig} className="h-64 w-full">
+                <PieChart>
+                  <ChartTooltip content={<ChartTooltipContent nameKey="participationType" hideLabel />} />
+                  <Pie data={participationData} dataKey="registrations" nameKey="participationType" innerRadius={50}>
+                    {participationData.map(row => (
+                      <Cell key={row.participationType} fill={row.fill} />
+                    ))}
+                  </Pie>
+                  <ChartLegend content={<ChartLegendContent nameKey="participationType" />} />
+                </PieChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+
+          <Card className="border-0 shadow-xl bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm">
+            <CardHeader>
+              <CardTitle className="text-lg">Registrations per Day</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={dailyChartConfig} className="h-64 w-full">
+                <LineChart data={statistics?.daily ?? []}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="date" tickLine={false} axisLine={false} />
+                  <YAxis allowDecimals={false} tickLine={false} axisLine={false} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Line dataKey="registrations" stroke="var(--color-registrations)" strokeWidth={2} dot={false} />
+                </LineChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+
+          <Card className="border-0 shadow-xl bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm">
+            <CardHeader>
+              <CardTitle className="text-lg">Most Popular Programs</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={programChartConfig} className="h-64 w-full">
+                <BarChart data={programData} layout="vertical">
+                  <CartesianGrid horizontal={false} />
+                  <XAxis type="number" allowDecimals={false} tickLine={false} axisLine={false} />
+                  <YAxis type="category" dataKey="name" width={110} tickLine={false} axisLine={false} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="confirmed" stackId="place" fill="var(--color-confirmed)" />
+                  <Bar dataKey="waitlisted" stackId="place" fill="var(--color-waitlisted)" radius={[0, 4, 4, 0]} />
+                </BarChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card className="border-0 shadow-xl bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm">
+          <CardHeader>
+            <CardTitle className="text-lg">Teams</CardTitle>
+          </CardHeader>
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Team</TableHead>
+                  <TableHead className="text-right">Participants</TableHead>
+                  <TableHead className="text-right">Registered</TableHead>
+                  <TableHead className="text-right">Stage</TableHead>
+                  <TableHead className="text-right">Non-Stage</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {(statistics?.teams ?? []).map(row => (
+                  <TableRow key={row.team.id}>
+                    <TableCell>
+                      <div className="flex items-center space-x-2">
+                        <span className="h-3 w-3 rounded-full" style={{ backgroundColor: row.team.color ?? "#3b82f6" }} />
+                        <span className="font-medium">{row.team.name}</span>
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">{row.participants}</TableCell>
+                    <TableCell className="text-right">{row.registeredParticipants}</TableCell>
+                    <TableCell className="text-right">{row.stageRegistrations}</TableCell>
+                    <TableCell className="text-right">{row.nonStageRegistrations}</TableCell>
+                    <TableCell className="text-right font-medium">{row.registrations}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        <Card className="border-0 shadow-xl bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm">
+          <CardHeader>
+            <CardTitle className="text-lg">Programs</CardTitle>
+          </CardHeader>
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Program</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead className="text-right">Teams</TableHead>
+                  <TableHead className="text-right">Waitlisted</TableHead>
+                  <TableHead className="text-right">Registrations</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {(statistics?.programs ?? []).map(row => (
+                  <TableRow key={row.program.id}>
+                    <TableCell>
+                      <span className="font-medium">{row.program.name}</span>
+                      {row.program.archived && <Badge variant="outline" className="ml-2">Archived</Badge>}
+                    </TableCell>
+                    <TableCell className="text-sm text-gray-600 dark:text-gray-300">
+                      {row.program.type} · {row.program.participationType}
+                    </TableCell>
+                    <TableCell className="text-right">{row.teams}</TableCell>
+                    <TableCell className="text-right">{row.waitlisted}</TableCell>
+                    <TableCell className="text-right font-medium">{row.registrations}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
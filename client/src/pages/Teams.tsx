@@ -0,0 +1,379 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Redirect, Link } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { ImageUploadModal } from "@/components/ImageUploadModal";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { Team, TeamDashboard, TeamForm, TeamManagerInput } from "@shared/schema";
+import { Shield, ArrowLeft, Plus, Save, Trash2, Upload, UserPlus, X } from "lucide-react";
+
+const emptyForm: TeamForm = { name: "", code: "", color: "#2563eb", logo: null };
+
+function TeamBadge({ team }: { team: Pick<Team, "name" | "color" | "logo"> }) {
+  return team.logo ? (
+    <img src={team.logo} alt={team.name} className="h-8 w-8 rounded-full object-cover" />
+  ) : (
+    <div className="h-8 w-8 rounded-full" style={{ backgroundColor: team.color ?? "#3b82f6" }} />
+  );
+}
+
+export default function Teams() {
+  const { user, isLoading, hasRole } = useAuth();
+  const isAdmin = hasRole("admin");
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [form, setForm] = useState<TeamForm>(emptyForm);
+  const [manager, setManager] = useState<TeamManagerInput>({ username: "", password: "" });
+  const [isLogoUploadOpen, setIsLogoUploadOpen] = useState(false);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: teams = [] } = useQuery<Team[]>({
+    queryKey: ["/api/teams"],
+  });
+
+  // Team managers only ever see their own team
+  const teamId = isAdmin ? selectedId : user?.teamId ?? null;
+  const dashboardUrl = `/api/teams/${teamId}/dashboard`;
+  const { data: dashboard } = useQuery<TeamDashboard>({
+    queryKey: [dashboardUrl],
+    enabled: teamId !== null && !isCreating && hasRole("admin", "team_manager"),
+  });
+
+  useEffect(() => {
+    if (isCreating) {
+      setForm(emptyForm);
+    } else if (dashboard) {
+      const { name, code, color, logo } = dashboard.team;
+      setForm({ name, code, color: color ?? "#3b82f6", logo });
+    }
+  }, [dashboard, isCreating]);
+
+  const showError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: TeamForm) => {
+      const response = isCreating
+        ? await apiRequest("POST", "/api/teams", data)
+        : await apiRequest("PUT", `/api/teams/${teamId}`, data);
+      return response.json() as Promise<Team>;
+    },
+    onSuccess: (team) => {
+      toast({
+        title: isCreating ? "Team Created" : "Team Updated",
+        description: isCreating || team.code === dashboard?.team.code
+          ? `${team.name} has been saved.`
+          : `New participants of ${team.name} will get ${team.code} codes. Existing codes stay the same.`,
+      });
+      setIsCreating(false);
+      setSelectedId(team.id);
+      queryClient.invalidateQueries({ queryKey: ["/api/teams"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/teams/${team.id}/dashboard`] });
+    },
+    onError: showError("Save Failed"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("DELETE", `/api/teams/${id}`);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      toast({ title: "Team Deleted", description: data.message });
+      setSelectedId(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/teams"] });
+    },
+    onError: showError("Delete Failed"),
+  });
+
+  const addManagerMutation = useMutation({
+    mutationFn: async (data: TeamManagerInput) => {
+      const response = await apiRequest("POST", `/api/teams/${teamId}/managers`, data);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      toast({ title: "Manager Added", description: `${data.username} can now sign in for this team.` });
+      setManager({ username: "", password: "" });
+      queryClient.invalidateQueries({ queryKey: [dashboardUrl] });
+    },
+    onError: showError("Could Not Add Manager"),
+  });
+
+  const removeManagerMutation = useMutation({
+    mutationFn: async (userId: number) => {
+      const response = await apiRequest("DELETE", `/api/teams/${teamId}/managers/${userId}`);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      toast({ title: "Manager Removed", description: data.message });
+      queryClient.invalidateQueries({ queryKey: [dashboardUrl] });
+    },
+    onError: showError("Could Not Remove Manager"),
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (!user || !hasRole("admin", "team_manager")) {
+    return <Redirect to="/login" />;
+  }
+
+  const totalEntries = dashboard?.members.reduce((sum, member) => sum + member.registrations.length, 0) ?? 0;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 dark:from-gray-900 dark:to-gray-800">
+      <main className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <div className="bg-gradient-to-r from-blue-600 to-purple-600 p-3 rounded-xl shadow-lg">
+              <Shield className="text-white h-6 w-6" />
+            </div>
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Teams</h1>
+              <p className="text-sm text-gray-600 dark:text-gray-300">
+                {isAdmin ? "Manage teams, their managers and members" : "Your team's members and their programs"}
+              </p>
+            </div>
+          </div>
+          <Link href="/" className="inline-flex items-center space-x-1 text-sm text-gray-500 dark:text-gray-400 hover:text-blue-600">
+            <ArrowLeft className="h-4 w-4" />
+            <span>Back</span>
+          </Link>
+        </div>
+
+        {isAdmin && (
+          <div className="flex flex-wrap gap-2">
+            {teams.map(team => (
+              <Button
+                key={team.id}
+                variant={team.id === selectedId && !isCreating ? "default" : "outline"}
+                onClick={() => { setIsCreating(false); setSelectedId(team.id); }}
+              >
+                <span className="mr-2 h-3 w-3 rounded-full" style={{ backgroundColor: team.color ?? "#3b82f6" }} />
+                {team.name}
+                <Badge variant="secondary" className="ml-2 font-mono">{team.code}</Badge>
+              </Button>
+            ))}
+            <Button variant="outline" onClick={() => setIsCreating(true)}>
+              <Plus className="mr-2 h-4 w-4" />
+              New Team
+            </Button>
+          </div>
+        )}
+
+        {isAdmin && (isCreating || dashboard) && (
+          <Card className="border-0 shadow-xl bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm">
+            <CardHeader>
+              <CardTitle>{isCreating ? "New Team" : "Team Details"}</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <Label>Name</Label>
+                  <Input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+                </div>
+                <div>
+                  <Label>Code</Label>
+                  <Input
+                    value={form.code}
+                    onChange={(e) => setForm({ ...form, code: e.target.value.toUpperCase() })}
+                    className="font-mono"
+                    maxLength={6}
+                  />
+                </div>
+                <div>
+                  <Label>Color</Label>
+                  <div className="flex items-center space-x-2">
+                    <Input
+                      type="color"
+                      value={form.color ?? "#3b82f6"}
+                      onChange={(e) => setForm({ ...form, color: e.target.value })}
+                      className="w-14 p-1"
+                    />
+                    <span className="font-mono text-sm text-gray-500">{form.color}</span>
+                  </div>
+                </div>
+              </div>
+
+              {!isCreating && dashboard && form.code !== dashboard.team.code && (
+                <p className="text-sm text-amber-700 dark:text-amber-300">
+                  Participants who already have {dashboard.team.code} codes keep them. Only new registrations get {form.code || "the new"} codes.
+                </p>
+              )}
+
+              <div className="flex items-center space-x-3">
+                <TeamBadge team={{ name: form.name, color: form.color ?? null, logo: form.logo ?? null }} />
+                <Button variant="outline" size="sm" onClick={() => setIsLogoUploadOpen(true)}>
+                  <Upload className="mr-2 h-4 w-4" />
+                  {form.logo ? "Change Logo" : "Upload Logo"}
+                </Button>
+                {form.logo && (
+                  <Button variant="ghost" size="sm" onClick={() => setForm({ ...form, logo: null })}>
+                    <X className="mr-1 h-4 w-4" />
+                    Remove Logo
+                  </Button>
+                )}
+              </div>
+
+              <div className="flex justify-between">
+                {!isCreating && dashboard ? (
+                  <Button
+                    variant="outline"
+                    className="text-red-600"
+                    disabled={deleteMutation.isPending}
+                    onClick={() => {
+                      if (confirm(`Delete ${dashboard.team.name}? This cannot be undone.`)) {
+                        deleteMutation.mutate(dashboard.team.id);
+                      }
+                    }}
+                  >
+                    <Trash2 className="mr-2 h-4 w-4" />
+                    Delete Team
+                  </Button>
+                ) : <span />}
+                <Button onClick={() => saveMutation.mutate(form)} disabled={saveMutation.isPending}>
+                  <Save className="mr-2 h-4 w-4" />
+                  {saveMutation.isPending ? "Saving..." : "Save Team"}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {dashboard && !isCreating && (
+          <>
+            <Card className="border-0 shadow-xl bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm">
+              <CardHeader>
+                <CardTitle>Team Managers</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {dashboard.managers.map(teamManager => (
+                  <div key={teamManager.id} className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-700 rounded-lg">
+                    <span className="font-medium text-gray-900 dark:text-white">{teamManager.username}</span>
+                    {isAdmin && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={removeManagerMutation.isPending}
+                        onClick={() => removeManagerMutation.mutate(teamManager.id)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                ))}
+                {dashboard.managers.length === 0 && (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">No managers assigned yet.</p>
+                )}
+
+                {isAdmin && (
+                  <div className="flex flex-col md:flex-row gap-2 pt-2">
+                    <Input
+                      value={manager.username}
+                      onChange={(e) => setManager({ ...manager, username: e.target.value })}
+                      placeholder="Username"
+                    />
+                    <Input
+                      type="password"
+                      value={manager.password}
+                      onChange={(e) => setManager({ ...manager, password: e.target.value })}
+                      placeholder="Password (8+ characters)"
+                    />
+                    <Button
+                      variant="outline"
+                      disabled={addManagerMutation.isPending}
+                      onClick={() => addManagerMutation.mutate(manager)}
+                    >
+                      <UserPlus className="mr-2 h-4 w-4" />
+                      Add Manager
+                    </Button>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card className="border-0 shadow-xl bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm">
+              <CardHeader>
+                <CardTitle className="flex items-center justify-between">
+                  <span className="flex items-center space-x-3">
+                    <TeamBadge team={dashboard.team} />
+                    <span>{dashboard.team.name} Members</span>
+                  </span>
+                  <Badge variant="secondary">
+                    {dashboard.members.length} members · {totalEntries} entries
+                  </Badge>
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-2">
+                  {dashboard.members.map(({ participant, registrations }) => (
+                    <div key={participant.id} className="p-3 bg-gray-50 dark:bg-gray-700 rounded-lg">
+                      <div className="flex items-center justify-between">
+                        <span className="font-medium text-gray-900 dark:text-white">{participant.fullName}</span>
+                        <Badge variant="outline" className="font-mono">{participant.uniqueCode}</Badge>
+                      </div>
+                      <div className="flex flex-wrap gap-1 mt-2">
+                        {registrations.map(registration => (
+                          <Badge key={registration.id} variant="secondary" className="text-xs">
+                            {registration.program.name}
+                            {registration.waitlistPosition !== null && ` · waitlist #${registration.waitlistPosition}`}
+                          </Badge>
+                        ))}
+                        {registrations.length === 0 && (
+                          <span className="text-xs text-gray-500 dark:text-gray-400">No programs yet</span>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                  {dashboard.members.length === 0 && (
+                    <p className="text-sm text-gray-500 dark:text-gray-400">No one has registered for this team yet.</p>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+
+            {dashboard.groupEntries.length > 0 && (
+              <Card className="border-0 shadow-xl bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm">
+                <CardHeader>
+                  <CardTitle>Group Entries</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {dashboard.groupEntries.map(entry => (
+                    <div key={entry.id} className="p-3 bg-gray-50 dark:bg-gray-700 rounded-lg">
+                      <div className="flex items-center justify-between">
+                        <span className="font-medium text-gray-900 dark:text-white">{entry.program.name}</span>
+                        <span className="text-xs text-gray-500 dark:text-gray-400">Leader: {entry.leader.fullName}</span>
+                      </div>
+                      <p className="text-sm text-gray-600 dark:text-gray-300 mt-1">
+                        {entry.members.map(member => member.fullName).join(", ")}
+                      </p>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+          </>
+        )}
+      </main>
+
+      <ImageUploadModal
+        isOpen={isLogoUploadOpen}
+        onClose={() => setIsLogoUploadOpen(false)}
+        onImageUpload={(imageUrl) => setForm({ ...form, logo: imageUrl })}
+      />
+    </div>
+  );
+}
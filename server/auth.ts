@@ -0,0 +1,196 @@
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import type { Express, Request, Response, NextFunction } from "express";
+import session from "express-session";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { storage } from "./storage";
+import { config } from "./config";
+import {
+  insertUserSchema,
+  loginSchema,
+  type User as SelectUser,
+  type UserRole,
+  type SafeUser
+} from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+export async function hashPassword(password: string) {
+  const salt = randomBytes(16).toString("hex");
+  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+export async function comparePasswords(supplied: string, stored: string) {
+  const [hashed, salt] = stored.split(".");
+  const hashedBuf = Buffer.from(hashed, "hex");
+  const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return timingSafeEqual(hashedBuf, suppliedBuf);
+}
+
+export function toSafeUser(user: SelectUser): SafeUser {
+  const { password: _password, ...safeUser } = user;
+  return safeUser;
+}
+
+// Rejects the request unless the caller is logged in with one of the roles
+export function requireRole(...roles: UserRole[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Please log in to continue" });
+    }
+    if (roles.length > 0 && !roles.includes(req.user.role as UserRole)) {
+      return res.status(403).json({ message: "You do not have permission to do this" });
+    }
+    next();
+  };
+}
+
+// Creates the first admin account from ADMIN_USERNAME / ADMIN_PASSWORD
+export async function seedAdminUser() {
+  try {
+    const existingUsers = await storage.getUsers();
+    if (existingUsers.length > 0) return;
+
+    if (!config.adminPassword) {
+      console.warn("No users exist. Set ADMIN_PASSWORD to create the first admin account.");
+      return;
+    }
+
+    await storage.createUser({
+      username: config.adminUsername,
+      password: await hashPassword(config.adminPassword),
+      role: "admin",
+    });
+  } catch (error) {
+    console.error('Error seeding admin user:', error);
+  }
+}
+
+export function setupAuth(app: Express) {
+  const sessionSettings: session.SessionOptions = {
+    secret: config.sessionSecret,
+    resave: false,
+    saveUninitialized: false,
+    store: storage.sessionStore,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: config.secureCookies,
+      maxAge: 7 * 24 * 60 * 60 * 1000,
+    },
+  };
+
+  if (config.trustProxy) {
+    app.set("trust proxy", 1);
+  }
+  app.use(session(sessionSettings));
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username);
+        if (!user || !(await comparePasswords(password, user.password))) {
+          return done(null, false);
+        }
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user || false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post("/api/login", (req, res, next) => {
+    const parsed = loginSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Username and password are required" });
+    }
+
+    passport.authenticate("local", (err: Error | null, user: SelectUser | false) => {
+      if (err) return next(err);
+      if (!user) {
+        return res.status(401).json({ message: "Invalid username or password" });
+      }
+
+      req.login(user, (loginErr) => {
+        if (loginErr) return next(loginErr);
+        res.json(toSafeUser(user));
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/logout", (req, res, next) => {
+    req.logout((err) => {
+      if (err) return next(err);
+      res.sendStatus(200);
+    });
+  });
+
+  app.get("/api/user", (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    res.json(toSafeUser(req.user));
+  });
+
+  // Get all users
+  app.get("/api/users", requireRole("admin"), async (req, res) => {
+    try {
+      const users = await storage.getUsers();
+      res.json(users.map(toSafeUser));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch users" });
+    }
+  });
+
+  // Create a user account
+  app.post("/api/users", requireRole("admin"), async (req, res) => {
+    try {
+      const validatedData = insertUserSchema.parse(req.body);
+
+      const existingUser = await storage.getUserByUsername(validatedData.username);
+      if (existingUser) {
+        return res.status(400).json({ message: "Username already exists" });
+      }
+
+      if (validatedData.role === "team_manager" && !validatedData.teamId) {
+        return res.status(400).json({ message: "Team managers must be assigned a team" });
+      }
+      if (validatedData.role === "judge" && !validatedData.judgeId) {
+        return res.status(400).json({ message: "Judge accounts must be linked to a judge" });
+      }
+      if (validatedData.role === "participant" && !validatedData.participantId) {
+        return res.status(400).json({ message: "Participant accounts must be linked to a participant" });
+      }
+
+      const user = await storage.createUser({
+        ...validatedData,
+        password: await hashPassword(validatedData.password),
+      });
+      res.json(toSafeUser(user));
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(400).json({ message: error.message });
+      } else {
+        res.status(500).json({ message: "Failed to create user" });
+      }
+    }
+  });
+}
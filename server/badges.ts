@@ -0,0 +1,44 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import type { Participant } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { config } from "./config";
+
+export const BADGE_SECRET_SETTING_KEY = "badgeSecret";
+
+const TOKEN_PREFIX = "AF";
+
+async function getBadgeSecret(storage: IStorage): Promise<string> {
+  if (config.badgeSecret) return config.badgeSecret;
+
+  const stored = await storage.getSetting<string>(BADGE_SECRET_SETTING_KEY);
+  if (stored) return stored;
+
+  return await storage.saveSetting(BADGE_SECRET_SETTING_KEY, randomBytes(32).toString("hex"));
+}
+
+function sign(secret: string, participantId: number): string {
+  // Truncated to keep the QR code small enough to scan from a phone screen
+  return createHmac("sha256", secret)
+    .update(`${TOKEN_PREFIX}.${participantId}`)
+    .digest("base64url")
+    .slice(0, 22);
+}
+
+// Token encoded in the QR code on a participant's ID card
+export async function signParticipantToken(storage: IStorage, participant: Participant): Promise<string> {
+  const secret = await getBadgeSecret(storage);
+  return `${TOKEN_PREFIX}.${participant.id}.${sign(secret, participant.id)}`;
+}
+
+// Returns the participant id a token was issued for, if the signature holds
+export async function verifyParticipantToken(storage: IStorage, token: string): Promise<number | undefined> {
+  const [prefix, id, signature] = token.trim().split(".");
+  const participantId = parseInt(id);
+  if (prefix !== TOKEN_PREFIX || isNaN(participantId) || !signature) return undefined;
+
+  const expected = Buffer.from(sign(await getBadgeSecret(storage), participantId));
+  const supplied = Buffer.from(signature);
+  if (expected.length !== supplied.length || !timingSafeEqual(expected, supplied)) return undefined;
+
+  return participantId;
+}
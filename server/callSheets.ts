@@ -0,0 +1,77 @@
+import JSZip from "jszip";
+import type { CallSheetEntry, ChestNumberSettings, GroupEntry, Program, RegistrationWithDetails } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { competitorRegistrations } from "./groups";
+import { chestNumberOf, getChestNumberSettings } from "./chestNumbers";
+import { callSheet } from "./reports";
+
+// Call sheets: one printable list per program for the stage manager
+
+// Confirmed entries in order of appearance. Entries without a place yet
+// follow, earliest registration first.
+export function callSheetEntries(
+  registrations: RegistrationWithDetails[],
+  groupEntries: GroupEntry[],
+  settings: ChestNumberSettings
+): CallSheetEntry[] {
+  return competitorRegistrations(registrations, groupEntries)
+    .sort((a, b) =>
+      (a.appearanceOrder ?? Infinity) - (b.appearanceOrder ?? Infinity) ||
+      a.registeredAt.localeCompare(b.registeredAt) ||
+      a.id - b.id
+    )
+    .map(registration => {
+      const chestNumber = chestNumberOf(registration, settings);
+      if (!registration.groupEntryId) return { registration, members: [], chestNumber };
+      const members = registrations
+        .filter(r => r.groupEntryId === registration.groupEntryId)
+        .map(r => r.participant)
+        .sort((a, b) => (a.id === registration.participantId ? -1 : b.id === registration.participantId ? 1 : 0));
+      return { registration, members, chestNumber };
+    });
+}
+
+export async function programCallSheet(storage: IStorage, program: Program, timeZone?: string): Promise<Buffer> {
+  const [registrations, groupEntries, schedule, settings] = await Promise.all([
+    storage.getRegistrationsByProgramWithDetails(program.id),
+    storage.getGroupEntries(),
+    storage.getScheduleWithDetails(),
+    getChestNumberSettings(storage),
+  ]);
+  return callSheet(
+    program,
+    callSheetEntries(registrations, groupEntries, settings),
+    schedule.find(slot => slot.programId === program.id),
+    timeZone
+  );
+}
+
+// File names keep letters in any script but drop characters file systems reject
+function fileName(program: Program, index: number): string {
+  const name = program.name.replace(/[\\/:*?"<>|]/g, " ").replace(/\s+/g, "_");
+  return `${String(index + 1).padStart(2, "0")}_${name}.pdf`;
+}
+
+// Call sheets for every program still running that has a confirmed entry,
+// in the festival's program order. Null when no program has one.
+export async function callSheetsZip(storage: IStorage, timeZone?: string): Promise<Buffer | null> {
+  const [programs, registrations, groupEntries, schedule, settings] = await Promise.all([
+    storage.getPrograms(),
+    storage.getRegistrationsWithDetails(),
+    storage.getGroupEntries(),
+    storage.getScheduleWithDetails(),
+    getChestNumberSettings(storage),
+  ]);
+
+  const zip = new JSZip();
+  let count = 0;
+  for (const program of programs.filter(p => !p.archived)) {
+    const entries = callSheetEntries(registrations.filter(r => r.programId === program.id), groupEntries, settings);
+    if (entries.length === 0) continue;
+    const pdf = await callSheet(program, entries, schedule.find(slot => slot.programId === program.id), timeZone);
+    zip.file(fileName(program, count++), pdf);
+  }
+  if (count === 0) return null;
+
+  return zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
+}
@@ -0,0 +1,192 @@
+import type {
+  ChestNumberAssign, ChestNumberAssignment, ChestNumberSettings, GroupEntry, JudgingEntry, Participant,
+  Registration, RegistrationWithDetails, Team
+} from "@shared/schema";
+import type { IStorage } from "./storage";
+import { competitorRegistrations } from "./groups";
+
+// Chest numbers: anonymous numbers performers are called and judged by, so
+// judges never see a name, code or team
+
+export const CHEST_NUMBER_SETTING_KEY = "chestNumbers";
+
+export const defaultChestNumberSettings: ChestNumberSettings = {
+  scope: "festival",
+  method: "random",
+  start: 101,
+  teamRanges: [],
+};
+
+export async function getChestNumberSettings(storage: IStorage): Promise<ChestNumberSettings> {
+  return (await storage.getSetting<ChestNumberSettings>(CHEST_NUMBER_SETTING_KEY)) ?? defaultChestNumberSettings;
+}
+
+// The number a registration is called by. A group entry is called by its
+// leader's registration.
+export function chestNumberOf(
+  registration: Registration & { participant: Pick<Participant, "chestNumber"> },
+  settings: ChestNumberSettings
+): number | null {
+  return (settings.scope === "program" ? registration.chestNumber : registration.participant.chestNumber) ?? null;
+}
+
+// Confirmed entries of a program in order of appearance, with only their numbers
+export function judgingEntries(
+  registrations: RegistrationWithDetails[],
+  groupEntries: GroupEntry[],
+  settings: ChestNumberSettings
+): JudgingEntry[] {
+  return competitorRegistrations(registrations, groupEntries)
+    .map(registration => ({
+      registrationId: registration.id,
+      chestNumber: chestNumberOf(registration, settings),
+      appearanceOrder: registration.appearanceOrder ?? null,
+    }))
+    .sort((a, b) =>
+      (a.appearanceOrder ?? Infinity) - (b.appearanceOrder ?? Infinity) ||
+      (a.chestNumber ?? Infinity) - (b.chestNumber ?? Infinity) ||
+      a.registrationId - b.registrationId
+    );
+}
+
+// The numbers an ID card shows: the participant's own, or one per program
+export function cardChestNumbers(
+  participant: Participant,
+  registrations: RegistrationWithDetails[],
+  settings: ChestNumberSettings
+): { programName: string | null; chestNumber: number }[] {
+  if (settings.scope === "festival") {
+    return participant.chestNumber != null ? [{ programName: null, chestNumber: participant.chestNumber }] : [];
+  }
+  return registrations
+    .filter(r => !r.waitlisted && r.chestNumber != null)
+    .map(r => ({ programName: r.program.name, chestNumber: r.chestNumber! }));
+}
+
+// Something given a number: a participant, or a program entry with the
+// registrations that share its number
+type Numbered = { teamId: number; current: number | null; ids: number[] };
+
+function shuffle<T>(items: T[]): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+// Numbers one pool in random order. Numbers already held are kept when asked
+// and never handed out twice.
+function numberPool(
+  items: Numbered[],
+  settings: ChestNumberSettings,
+  teams: Team[],
+  keepExisting: boolean
+): { assignments: ChestNumberAssignment[]; assigned: number } | { problem: string } {
+  const kept = keepExisting ? items.filter(item => item.current !== null) : [];
+  const taken = new Set<number>(kept.map(item => item.current!));
+  const pending = shuffle(keepExisting ? items.filter(item => item.current === null) : items);
+
+  const assignments: ChestNumberAssignment[] = [];
+  const give = (item: Numbered, chestNumber: number) => {
+    taken.add(chestNumber);
+    for (const id of item.ids) assignments.push({ id, chestNumber });
+  };
+  // Members who joined a numbered entry take its number
+  for (const item of kept) give(item, item.current!);
+
+  if (settings.method === "random") {
+    let next = settings.start;
+    for (const item of pending) {
+      while (taken.has(next)) next++;
+      give(item, next);
+    }
+    return { assignments, assigned: pending.length };
+  }
+
+  for (const team of teams) {
+    const teamItems = pending.filter(item => item.teamId === team.id);
+    if (teamItems.length === 0) continue;
+    const range = settings.teamRanges.find(r => r.teamId === team.id);
+    if (!range) return { problem: `${team.name} has no chest number range` };
+
+    let next = range.from;
+    for (const item of teamItems) {
+      while (taken.has(next)) next++;
+      if (next > range.to) {
+        return { problem: `${team.name} needs more chest numbers than ${range.from}-${range.to} holds` };
+      }
+      give(item, next);
+    }
+  }
+  return { assignments, assigned: pending.length };
+}
+
+// Gives out numbers under the current settings. Per festival, everyone with a
+// confirmed registration gets one; per program, every confirmed entry does,
+// shared by all members of a group entry. Without keepExisting, numbers are
+// drawn afresh. Numbers no longer needed, such as a withdrawn participant's,
+// are cleared either way.
+export async function assignChestNumbers(
+  storage: IStorage,
+  settings: ChestNumberSettings,
+  options: ChestNumberAssign
+): Promise<{ assigned: number } | { problem: string }> {
+  if (settings.scope === "festival" && options.programId !== undefined) {
+    return { problem: "Chest numbers are given per festival, so they cannot be assigned for one program" };
+  }
+
+  const [teams, registrations, groupEntries] = await Promise.all([
+    storage.getTeams(),
+    storage.getRegistrationsWithDetails(),
+    storage.getGroupEntries(),
+  ]);
+
+  if (settings.scope === "festival") {
+    const participants = await storage.getParticipants();
+    const registered = new Set<number>(registrations.filter(r => !r.waitlisted).map(r => r.participantId));
+    const items = participants
+      .filter(p => registered.has(p.id))
+      .map(p => ({ teamId: p.teamId, current: p.chestNumber ?? null, ids: [p.id] }));
+
+    const result = numberPool(items, settings, teams, options.keepExisting);
+    if ("problem" in result) return result;
+
+    const cleared = participants
+      .filter(p => p.chestNumber != null && !registered.has(p.id))
+      .map(p => ({ id: p.id, chestNumber: null }));
+    await storage.setParticipantChestNumbers([...result.assignments, ...cleared]);
+    return { assigned: result.assigned };
+  }
+
+  const programIds = options.programId !== undefined
+    ? [options.programId]
+    : Array.from(new Set<number>(registrations.map(r => r.programId)));
+  const assignments: ChestNumberAssignment[] = [];
+  let assigned = 0;
+
+  for (const programId of programIds) {
+    const programRegistrations = registrations.filter(r => r.programId === programId);
+    const items = competitorRegistrations(programRegistrations, groupEntries).map(registration => ({
+      teamId: registration.participant.teamId,
+      current: registration.chestNumber ?? null,
+      ids: registration.groupEntryId
+        ? programRegistrations.filter(r => r.groupEntryId === registration.groupEntryId).map(r => r.id)
+        : [registration.id],
+    }));
+
+    const result = numberPool(items, settings, teams, options.keepExisting);
+    if ("problem" in result) return { problem: `${programRegistrations[0].program.name}: ${result.problem}` };
+    assignments.push(...result.assignments);
+    assigned += result.assigned;
+
+    const numbered = new Set<number>(result.assignments.map(a => a.id));
+    assignments.push(...programRegistrations
+      .filter(r => r.chestNumber != null && !numbered.has(r.id))
+      .map(r => ({ id: r.id, chestNumber: null })));
+  }
+
+  await storage.setRegistrationChestNumbers(assignments);
+  return { assigned };
+}
@@ -0,0 +1,56 @@
+import { randomInt } from "crypto";
+import type { CodeFormat, Team } from "@shared/schema";
+import { withCheckCharacter } from "@shared/codes";
+import type { IStorage } from "./storage";
+
+export const CODE_FORMAT_SETTING_KEY = "codeFormat";
+
+export const defaultCodeFormat: CodeFormat = {
+  pattern: "{team}{number}",
+  digits: 3,
+  randomCharacters: 4,
+  checkCharacter: true,
+};
+
+// Letters and digits that are hard to confuse when read out or typed
+const RANDOM_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+
+export const MISTYPED_CODE_MESSAGE = "This code has a typo. Please check it and try again.";
+
+// Formats saved before a field existed take its default
+export async function getCodeFormat(storage: IStorage): Promise<CodeFormat> {
+  return { ...defaultCodeFormat, ...(await storage.getSetting<Partial<CodeFormat>>(CODE_FORMAT_SETTING_KEY)) };
+}
+
+function randomCharacters(count: number): string {
+  let result = "";
+  for (let i = 0; i < count; i++) {
+    result += RANDOM_ALPHABET[randomInt(RANDOM_ALPHABET.length)];
+  }
+  return result;
+}
+
+function numberedCode(format: CodeFormat, team: Team, number: number): string {
+  return format.pattern
+    .replace("{team}", team.code)
+    .replace("{number}", String(number).padStart(format.digits, "0"));
+}
+
+// Each team's counter only moves forward, so two registrations can never be
+// handed the same number. Numbers already taken by codes from before the
+// counters, or from an earlier format, are skipped.
+export async function generateParticipantCode(storage: IStorage, team: Team): Promise<string> {
+  const format = await getCodeFormat(storage);
+  for (;;) {
+    const numbered = numberedCode(format, team, await storage.nextCodeNumber(team.id));
+    const base = format.randomCharacters > 0 ? `${numbered}-${randomCharacters(format.randomCharacters)}` : numbered;
+    const code = format.checkCharacter ? withCheckCharacter(base) : base;
+
+    const taken = await Promise.all(
+      [code, numbered, withCheckCharacter(numbered)].map(candidate => storage.getParticipantByCode(candidate))
+    );
+    if (!taken.some(Boolean)) {
+      return code;
+    }
+  }
+}
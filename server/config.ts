@@ -0,0 +1,40 @@
+import path from "path";
+import { randomBytes } from "crypto";
+
+export type StorageDriver = "postgres" | "sqlite" | "memory";
+
+const storageDrivers: StorageDriver[] = ["postgres", "sqlite", "memory"];
+
+function resolveStorageDriver(): StorageDriver {
+  const configured = process.env.STORAGE_DRIVER;
+  if (configured) {
+    if (!storageDrivers.includes(configured as StorageDriver)) {
+      throw new Error(
+        `Unknown STORAGE_DRIVER "${configured}". Expected one of: ${storageDrivers.join(", ")}`,
+      );
+    }
+    return configured as StorageDriver;
+  }
+
+  // Fall back to a local SQLite file when no hosted database is provisioned,
+  // so the portal still runs offline at the venue.
+  return process.env.DATABASE_URL ? "postgres" : "sqlite";
+}
+
+export const config = {
+  storageDriver: resolveStorageDriver(),
+  databaseUrl: process.env.DATABASE_URL,
+  // Without a fixed secret, sessions only survive until the next restart
+  sessionSecret: process.env.SESSION_SECRET || randomBytes(32).toString("hex"),
+  // Only enable behind HTTPS; the venue laptop serves plain HTTP
+  secureCookies: process.env.SECURE_COOKIES === "true",
+  // Only enable behind a reverse proxy. Otherwise any client could pick its
+  // own address with X-Forwarded-For and slip past the code rate limits.
+  trustProxy: process.env.TRUST_PROXY === "true",
+  // Signs the QR tokens printed on ID cards. When unset a secret is
+  // generated once and kept in the settings table, so printed cards stay valid.
+  badgeSecret: process.env.BADGE_SECRET,
+  adminUsername: process.env.ADMIN_USERNAME || "admin",
+  adminPassword: process.env.ADMIN_PASSWORD,
+  sqlitePath: process.env.SQLITE_PATH || path.join(process.cwd(), "data", "artsfest.sqlite"),
+};
@@ -0,0 +1,833 @@
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import type { Pool } from "@neondatabase/serverless";
+import { 
+  users, teams, participants, programs, registrations, groupEntries, judges, judgingCriteria, scoreSheets,
+  venues, scheduleSlots, results, checkIns, codeCounters, recoverySecrets, settings, auditLogs,
+  registrationExtensions,
+  type User, type Team, type Participant, type Program, type Registration, type GroupEntry,
+  type Judge, type JudgingCriterion, type ScoreSheet, type Venue, type ScheduleSlot, type Result, type AuditLog, type CheckIn,
+  type RecoverySecret, type RegistrationExtension, type InsertRegistrationExtension,
+  type InsertUser, type InsertTeam, type InsertParticipant, type InsertProgram, type InsertRegistration, type InsertGroupEntry,
+  type InsertJudge, type InsertScoreSheet, type InsertVenue, type InsertScheduleSlot, type InsertResult, type InsertAuditLog, type InsertCheckIn,
+  type ProgramCriteria, type ParticipantWithTeam, type RegistrationWithDetails,
+  type ScheduleEntry, type ResultWithDetails, type RegistrationCount, type TeamParticipantCount, type DailyRegistrationCount,
+  type ChestNumberAssignment, type RegistrationQuery, type RegistrationExport, type RegistrationPage
+} from "@shared/schema";
+import type { Database } from "./db";
+import type { IStorage } from "./storage";
+import { sortValue, encodeCursor, decodeCursor } from "./registrationQuery";
+import {
+  eq, and, or, asc, desc, gte, lt, ilike, inArray, isNull, sql, count, countDistinct, type SQL
+} from "drizzle-orm";
+
+const PostgresSessionStore = connectPg(session);
+
+const registrationSortColumns = {
+  registeredAt: registrations.registeredAt,
+  participant: participants.fullName,
+  team: teams.name,
+  program: programs.name,
+  code: participants.uniqueCode,
+};
+
+// Filters shared by the registrations table and its exports. Search matches
+// text anywhere, so LIKE wildcards typed by the user are escaped.
+function registrationFilter(filters: RegistrationExport): SQL | undefined {
+  const search = filters.search ? `%${filters.search.replace(/[\\%_]/g, "\\$&")}%` : undefined;
+  return and(
+    filters.registrationIds ? inArray(registrations.id, filters.registrationIds) : undefined,
+    filters.teamId !== undefined ? eq(participants.teamId, filters.teamId) : undefined,
+    filters.programId !== undefined ? eq(registrations.programId, filters.programId) : undefined,
+    filters.type ? eq(programs.type, filters.type) : undefined,
+    filters.participationType ? eq(programs.participationType, filters.participationType) : undefined,
+    // registeredAt holds ISO strings, which compare like the times they hold
+    filters.from ? gte(registrations.registeredAt, new Date(filters.from).toISOString()) : undefined,
+    filters.to ? lt(registrations.registeredAt, new Date(filters.to).toISOString()) : undefined,
+    search ? or(
+      ilike(participants.fullName, search),
+      ilike(participants.uniqueCode, search),
+      ilike(programs.name, search),
+      ilike(teams.name, search)
+    ) : undefined
+  );
+}
+
+export class DatabaseStorage implements IStorage {
+  sessionStore: session.Store;
+
+  constructor(private db: Database, pool: Pool) {
+    this.sessionStore = new PostgresSessionStore({ pool, createTableIfMissing: true });
+  }
+
+  // Users
+  async getUsers(): Promise<User[]> {
+    return await this.db.select().from(users);
+  }
+
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user || undefined;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user || undefined;
+  }
+
+  async createUser(user: InsertUser): Promise<User> {
+    const [newUser] = await this.db.insert(users).values(user).returning();
+    return newUser;
+  }
+
+  async deleteUser(id: number): Promise<boolean> {
+    const result = await this.db.delete(users).where(eq(users.id, id));
+    return (result.rowCount || 0) > 0;
+  }
+
+  // Teams
+  async getTeams(): Promise<Team[]> {
+    return await this.db.select().from(teams);
+  }
+
+  async getTeam(id: number): Promise<Team | undefined> {
+    const [team] = await this.db.select().from(teams).where(eq(teams.id, id));
+    return team || undefined;
+  }
+
+  async createTeam(team: InsertTeam): Promise<Team> {
+    const [newTeam] = await this.db.insert(teams).values(team).returning();
+    return newTeam;
+  }
+
+  async updateTeam(id: number, team: Partial<InsertTeam>): Promise<Team | undefined> {
+    const [updated] = await this.db.update(teams).set(team).where(eq(teams.id, id)).returning();
+    return updated || undefined;
+  }
+
+  async deleteTeam(id: number): Promise<boolean> {
+    return await this.db.transaction(async (tx) => {
+      await tx.delete(codeCounters).where(eq(codeCounters.teamId, id));
+      await tx.delete(registrationExtensions).where(eq(registrationExtensions.teamId, id));
+      const result = await tx.delete(teams).where(eq(teams.id, id));
+      return (result.rowCount || 0) > 0;
+    });
+  }
+
+  // Participants
+  async getParticipants(): Promise<Participant[]> {
+    return await this.db.select().from(participants);
+  }
+
+  async getParticipant(id: number): Promise<Participant | undefined> {
+    const [participant] = await this.db.select().from(participants).where(eq(participants.id, id));
+    return participant || undefined;
+  }
+
+  async getParticipantByCode(code: string): Promise<Participant | undefined> {
+    const [participant] = await this.db.select().from(participants).where(eq(participants.uniqueCode, code.trim().toUpperCase()));
+    return participant || undefined;
+  }
+
+  async getParticipantByName(name: string): Promise<Participant | undefined> {
+    const [participant] = await this.db.select().from(participants).where(eq(participants.fullName, name));
+    return participant || undefined;
+  }
+
+  async getParticipantWithTeam(id: number): Promise<ParticipantWithTeam | undefined> {
+    const result = await this.db
+      .select()
+      .from(participants)
+      .leftJoin(teams, eq(participants.teamId, teams.id))
+      .where(eq(participants.id, id));
+    
+    if (!result[0] || !result[0].teams) return undefined;
+    
+    return {
+      ...result[0].participants,
+      team: result[0].teams
+    };
+  }
+
+  async createParticipant(participant: InsertParticipant & { uniqueCode: string }): Promise<Participant> {
+    const [newParticipant] = await this.db.insert(participants).values(participant).returning();
+    return newParticipant;
+  }
+
+  async updateParticipantImage(id: number, imageUrl: string): Promise<Participant | undefined> {
+    const [updatedParticipant] = await this.db
+      .update(participants)
+      .set({ profileImage: imageUrl })
+      .where(eq(participants.id, id))
+      .returning();
+    return updatedParticipant || undefined;
+  }
+  async setParticipantChestNumbers(numbers: ChestNumberAssignment[]): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      for (const { id, chestNumber } of numbers) {
+        await tx.update(participants).set({ chestNumber }).where(eq(participants.id, id));
+      }
+    });
+  }
+
+  async mergeParticipants(keepId: number, mergeId: number): Promise<{ moved: number[]; dropped: number[] }> {
+    return await this.db.transaction(async (tx) => {
+      const held = await tx.select().from(registrations).where(eq(registrations.participantId, keepId));
+      const merging = await tx.select().from(registrations).where(eq(registrations.participantId, mergeId));
+      const moved: number[] = [];
+      const dropped: number[] = [];
+      for (const registration of merging) {
+        if (held.some(r => r.programId === registration.programId)) {
+          await tx.delete(registrations).where(eq(registrations.id, registration.id));
+          dropped.push(registration.id);
+        } else {
+          await tx.update(registrations).set({ participantId: keepId }).where(eq(registrations.id, registration.id));
+          moved.push(registration.id);
+        }
+      }
+
+      const checkedIn = await tx.select().from(checkIns).where(eq(checkIns.participantId, keepId));
+      for (const checkIn of await tx.select().from(checkIns).where(eq(checkIns.participantId, mergeId))) {
+        if (checkedIn.some(c => c.programId === checkIn.programId)) {
+          await tx.delete(checkIns).where(eq(checkIns.id, checkIn.id));
+        } else {
+          await tx.update(checkIns).set({ participantId: keepId }).where(eq(checkIns.id, checkIn.id));
+        }
+      }
+
+      await tx.update(groupEntries).set({ leaderId: keepId }).where(eq(groupEntries.leaderId, mergeId));
+      await tx.update(users).set({ participantId: keepId }).where(eq(users.participantId, mergeId));
+
+      const [keptSecret] = await tx.select().from(recoverySecrets).where(eq(recoverySecrets.participantId, keepId));
+      if (keptSecret) {
+        await tx.delete(recoverySecrets).where(eq(recoverySecrets.participantId, mergeId));
+      } else {
+        await tx.update(recoverySecrets).set({ participantId: keepId }).where(eq(recoverySecrets.participantId, mergeId));
+      }
+
+      const [merged] = await tx.select().from(participants).where(eq(participants.id, mergeId));
+      if (merged?.profileImage) {
+        await tx
+          .update(participants)
+          .set({ profileImage: merged.profileImage })
+          .where(and(eq(participants.id, keepId), isNull(participants.profileImage)));
+      }
+      await tx.delete(participants).where(eq(participants.id, mergeId));
+
+      return { moved, dropped };
+    });
+  }
+
+
+  // Programs
+  // In the order set by admins, then by id
+  async getPrograms(): Promise<Program[]> {
+    return await this.db.select().from(programs).orderBy(asc(programs.sortOrder), asc(programs.id));
+  }
+
+  async getProgramsByType(type: string, participationType?: string): Promise<Program[]> {
+    if (participationType) {
+      return await this.db.select().from(programs)
+        .where(and(eq(programs.type, type), eq(programs.participationType, participationType)))
+        .orderBy(asc(programs.sortOrder), asc(programs.id));
+    }
+    
+    return await this.db.select().from(programs).where(eq(programs.type, type))
+      .orderBy(asc(programs.sortOrder), asc(programs.id));
+  }
+
+  async getProgram(id: number): Promise<Program | undefined> {
+    const [program] = await this.db.select().from(programs).where(eq(programs.id, id));
+    return program || undefined;
+  }
+
+  async createProgram(program: InsertProgram): Promise<Program> {
+    const [newProgram] = await this.db.insert(programs).values(program).returning();
+    return newProgram;
+  }
+
+  async updateProgram(id: number, program: Partial<InsertProgram>): Promise<Program | undefined> {
+    const [updated] = await this.db.update(programs).set(program).where(eq(programs.id, id)).returning();
+    return updated || undefined;
+  }
+
+  // Registrations
+  async getRegistrations(): Promise<Registration[]> {
+    return await this.db.select().from(registrations);
+  }
+
+  async getRegistration(id: number): Promise<Registration | undefined> {
+    const [registration] = await this.db.select().from(registrations).where(eq(registrations.id, id));
+    return registration || undefined;
+  }
+
+  async getRegistrationsByParticipant(participantId: number): Promise<Registration[]> {
+    return await this.db.select().from(registrations).where(eq(registrations.participantId, participantId));
+  }
+
+  async getRegistrationsWithDetails(): Promise<RegistrationWithDetails[]> {
+    const result = await this.db
+      .select()
+      .from(registrations)
+      .leftJoin(participants, eq(registrations.participantId, participants.id))
+      .leftJoin(teams, eq(participants.teamId, teams.id))
+      .leftJoin(programs, eq(registrations.programId, programs.id));
+
+    return result.map(row => ({
+      ...row.registrations,
+      participant: {
+        ...row.participants!,
+        team: row.teams!
+      },
+      program: row.programs!
+    }));
+  }
+
+  async getRegistrationsByParticipantWithDetails(participantId: number): Promise<RegistrationWithDetails[]> {
+    const result = await this.db
+      .select()
+      .from(registrations)
+      .leftJoin(participants, eq(registrations.participantId, participants.id))
+      .leftJoin(teams, eq(participants.teamId, teams.id))
+      .leftJoin(programs, eq(registrations.programId, programs.id))
+      .where(eq(registrations.participantId, participantId));
+
+    return result.map(row => ({
+      ...row.registrations,
+      participant: {
+        ...row.participants!,
+        team: row.teams!
+      },
+      program: row.programs!
+    }));
+  }
+
+  async getRegistrationsByProgramWithDetails(programId: number): Promise<RegistrationWithDetails[]> {
+    const result = await this.db
+      .select()
+      .from(registrations)
+      .leftJoin(participants, eq(registrations.participantId, participants.id))
+      .leftJoin(teams, eq(participants.teamId, teams.id))
+      .leftJoin(programs, eq(registrations.programId, programs.id))
+      .where(eq(registrations.programId, programId));
+
+    return result.map(row => ({
+      ...row.registrations,
+      participant: {
+        ...row.participants!,
+        team: row.teams!
+      },
+      program: row.programs!
+    }));
+  }
+
+  // Keyset paging: the next page starts after the cursor's row in sort order.
+  // Names sort without regard to case.
+  async getRegistrationPage(query: RegistrationQuery): Promise<RegistrationPage> {
+    const filter = registrationFilter(query);
+    const sortKey = (value: SQL) => (query.sort === "registeredAt" ? value : sql`lower(${value})`);
+    const key = sortKey(sql`${registrationSortColumns[query.sort]}`);
+    const after = query.cursor ? decodeCursor(query.cursor) : null;
+    const afterCursor = after
+      ? query.order === "asc"
+        ? sql`(${key}, ${registrations.id}) > (${sortKey(sql`${after.value}::text`)}, ${after.id})`
+        : sql`(${key}, ${registrations.id}) < (${sortKey(sql`${after.value}::text`)}, ${after.id})`
+      : undefined;
+    const direction = query.order === "asc" ? asc : desc;
+
+    const [rows, [{ total }]] = await Promise.all([
+      this.db
+        .select()
+        .from(registrations)
+        .leftJoin(participants, eq(registrations.participantId, participants.id))
+        .leftJoin(teams, eq(participants.teamId, teams.id))
+        .leftJoin(programs, eq(registrations.programId, programs.id))
+        .where(and(filter, afterCursor))
+        .orderBy(direction(key), direction(registrations.id))
+        .limit(query.limit + 1),
+      this.db
+        .select({ total: count() })
+        .from(registrations)
+        .leftJoin(participants, eq(registrations.participantId, participants.id))
+        .leftJoin(teams, eq(participants.teamId, teams.id))
+        .leftJoin(programs, eq(registrations.programId, programs.id))
+        .where(filter),
+    ]);
+
+    const items: RegistrationWithDetails[] = rows.slice(0, query.limit).map(row => ({
+      ...row.registrations,
+      participant: {
+        ...row.participants!,
+        team: row.teams!
+      },
+      program: row.programs!
+    }));
+    const last = items[items.length - 1];
+    return {
+      items,
+      total,
+      nextCursor: rows.length > query.limit ? encodeCursor({ value: sortValue(last, query.sort), id: last.id }) : null,
+    };
+  }
+
+  async getRegistrationsMatching(filters: RegistrationExport): Promise<RegistrationWithDetails[]> {
+    const result = await this.db
+      .select()
+      .from(registrations)
+      .leftJoin(participants, eq(registrations.participantId, participants.id))
+      .leftJoin(teams, eq(participants.teamId, teams.id))
+      .leftJoin(programs, eq(registrations.programId, programs.id))
+      .where(registrationFilter(filters));
+
+    return result.map(row => ({
+      ...row.registrations,
+      participant: {
+        ...row.participants!,
+        team: row.teams!
+      },
+      program: row.programs!
+    }));
+  }
+
+  async createRegistration(registration: InsertRegistration): Promise<Registration> {
+    const [newRegistration] = await this.db
+      .insert(registrations)
+      .values({
+        ...registration,
+        registeredAt: new Date().toISOString()
+      })
+      .returning();
+    return newRegistration;
+  }
+
+  async registerForPrograms(
+    participantId: number,
+    programIds: number[],
+    profileImage?: string,
+    waitlistedProgramIds: number[] = []
+  ): Promise<Registration[]> {
+    return await this.db.transaction(async (tx) => {
+      if (profileImage) {
+        await tx.update(participants).set({ profileImage }).where(eq(participants.id, participantId));
+      }
+      if (programIds.length === 0) return [];
+
+      // Rows that already exist, including ones a concurrent request just added,
+      // are left alone and not returned
+      const registeredAt = new Date().toISOString();
+      return await tx
+        .insert(registrations)
+        .values(programIds.map(programId => ({
+          participantId,
+          programId,
+          registeredAt,
+          waitlisted: waitlistedProgramIds.includes(programId)
+        })))
+        .onConflictDoNothing({ target: [registrations.participantId, registrations.programId] })
+        .returning();
+    });
+  }
+
+  async updateAppearanceOrder(id: number, appearanceOrder: number | null): Promise<Registration | undefined> {
+    const [updatedRegistration] = await this.db
+      .update(registrations)
+      .set({ appearanceOrder })
+      .where(eq(registrations.id, id))
+      .returning();
+    return updatedRegistration || undefined;
+  }
+
+  async confirmWaitlisted(
+    programId: number,
+    pick: (program: Program, registrations: Registration[]) => number[]
+  ): Promise<number[]> {
+    return await this.db.transaction(async (tx) => {
+      const [program] = await tx.select().from(programs).where(eq(programs.id, programId)).for("update");
+      if (!program) return [];
+      const rows = await tx.select().from(registrations).where(eq(registrations.programId, programId));
+      const ids = pick(program, rows);
+      if (ids.length > 0) {
+        await tx.update(registrations).set({ waitlisted: false }).where(inArray(registrations.id, ids));
+      }
+      return ids;
+    });
+  }
+
+  async setRegistrationChestNumbers(numbers: ChestNumberAssignment[]): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      for (const { id, chestNumber } of numbers) {
+        await tx.update(registrations).set({ chestNumber }).where(eq(registrations.id, id));
+      }
+    });
+  }
+
+  async deleteRegistration(id: number): Promise<boolean> {
+    const result = await this.db.delete(registrations).where(eq(registrations.id, id));
+    return (result.rowCount || 0) > 0;
+  }
+
+  // Group entries
+  async getGroupEntries(): Promise<GroupEntry[]> {
+    return await this.db.select().from(groupEntries);
+  }
+
+  async getGroupEntry(id: number): Promise<GroupEntry | undefined> {
+    const [entry] = await this.db.select().from(groupEntries).where(eq(groupEntries.id, id));
+    return entry || undefined;
+  }
+
+  async getGroupEntryByProgramAndTeam(programId: number, teamId: number): Promise<GroupEntry | undefined> {
+    const [entry] = await this.db
+      .select()
+      .from(groupEntries)
+      .where(and(eq(groupEntries.programId, programId), eq(groupEntries.teamId, teamId)));
+    return entry || undefined;
+  }
+
+  async createGroupEntry(
+    entry: InsertGroupEntry,
+    memberIds: number[],
+    waitlisted: boolean
+  ): Promise<{ entry: GroupEntry; registrations: Registration[] }> {
+    return await this.db.transaction(async (tx) => {
+      const registeredAt = new Date().toISOString();
+      const [newEntry] = await tx
+        .insert(groupEntries)
+        .values({ ...entry, createdAt: registeredAt })
+        .returning();
+      const created = memberIds.length === 0 ? [] : await tx
+        .insert(registrations)
+        .values(memberIds.map(participantId => ({
+          participantId,
+          programId: newEntry.programId,
+          groupEntryId: newEntry.id,
+          registeredAt,
+          waitlisted
+        })))
+        .returning();
+      return { entry: newEntry, registrations: created };
+    });
+  }
+
+  async updateGroupRoster(
+    entry: GroupEntry,
+    added: { memberIds: number[]; waitlisted: boolean; chestNumber: number | null },
+    removedIds: number[]
+  ): Promise<Registration[]> {
+    return await this.db.transaction(async (tx) => {
+      if (removedIds.length > 0) {
+        await tx.delete(registrations).where(inArray(registrations.id, removedIds));
+      }
+      if (added.memberIds.length === 0) return [];
+
+      const registeredAt = new Date().toISOString();
+      return await tx
+        .insert(registrations)
+        .values(added.memberIds.map(participantId => ({
+          participantId,
+          programId: entry.programId,
+          groupEntryId: entry.id,
+          registeredAt,
+          waitlisted: added.waitlisted,
+          chestNumber: added.chestNumber
+        })))
+        .returning();
+    });
+  }
+
+  async deleteGroupEntry(id: number): Promise<boolean> {
+    return await this.db.transaction(async (tx) => {
+      await tx.delete(registrations).where(eq(registrations.groupEntryId, id));
+      const result = await tx.delete(groupEntries).where(eq(groupEntries.id, id));
+      return (result.rowCount || 0) > 0;
+    });
+  }
+
+  // Judges
+  async getJudges(): Promise<Judge[]> {
+    return await this.db.select().from(judges);
+  }
+
+  async getJudge(id: number): Promise<Judge | undefined> {
+    const [judge] = await this.db.select().from(judges).where(eq(judges.id, id));
+    return judge || undefined;
+  }
+
+  async createJudge(judge: InsertJudge): Promise<Judge> {
+    const [newJudge] = await this.db.insert(judges).values(judge).returning();
+    return newJudge;
+  }
+
+  // Judging criteria
+  async getCriteriaByProgram(programId: number): Promise<JudgingCriterion[]> {
+    return await this.db.select().from(judgingCriteria).where(eq(judgingCriteria.programId, programId));
+  }
+
+  async replaceProgramCriteria(programId: number, criteria: ProgramCriteria): Promise<JudgingCriterion[]> {
+    return await this.db.transaction(async (tx) => {
+      await tx.delete(judgingCriteria).where(eq(judgingCriteria.programId, programId));
+      return await tx
+        .insert(judgingCriteria)
+        .values(criteria.map(criterion => ({ ...criterion, programId })))
+        .returning();
+    });
+  }
+
+  // Score sheets
+  async getScoreSheet(id: number): Promise<ScoreSheet | undefined> {
+    const [sheet] = await this.db.select().from(scoreSheets).where(eq(scoreSheets.id, id));
+    return sheet || undefined;
+  }
+
+  async getScoreSheetsByProgram(programId: number): Promise<ScoreSheet[]> {
+    const result = await this.db
+      .select({ sheet: scoreSheets })
+      .from(scoreSheets)
+      .innerJoin(registrations, eq(scoreSheets.registrationId, registrations.id))
+      .where(eq(registrations.programId, programId));
+
+    return result.map(row => row.sheet);
+  }
+
+  async getScoreSheetByJudgeAndRegistration(judgeId: number, registrationId: number): Promise<ScoreSheet | undefined> {
+    const [sheet] = await this.db
+      .select()
+      .from(scoreSheets)
+      .where(and(eq(scoreSheets.judgeId, judgeId), eq(scoreSheets.registrationId, registrationId)));
+    return sheet || undefined;
+  }
+
+  async saveScoreSheet(sheet: InsertScoreSheet): Promise<ScoreSheet> {
+    const submittedAt = new Date().toISOString();
+    const [savedSheet] = await this.db
+      .insert(scoreSheets)
+      .values({ ...sheet, submittedAt })
+      .onConflictDoUpdate({
+        target: [scoreSheets.judgeId, scoreSheets.registrationId],
+        set: { scores: sheet.scores, submittedAt },
+      })
+      .returning();
+    return savedSheet;
+  }
+
+  async lockScoreSheet(id: number): Promise<ScoreSheet | undefined> {
+    const [lockedSheet] = await this.db
+      .update(scoreSheets)
+      .set({ locked: true })
+      .where(eq(scoreSheets.id, id))
+      .returning();
+    return lockedSheet || undefined;
+  }
+
+  // Venues
+  async getVenues(): Promise<Venue[]> {
+    return await this.db.select().from(venues);
+  }
+
+  async createVenue(venue: InsertVenue): Promise<Venue> {
+    const [newVenue] = await this.db.insert(venues).values(venue).returning();
+    return newVenue;
+  }
+
+  // Schedule
+  async getScheduleWithDetails(): Promise<ScheduleEntry[]> {
+    const result = await this.db
+      .select()
+      .from(scheduleSlots)
+      .innerJoin(programs, eq(scheduleSlots.programId, programs.id))
+      .innerJoin(venues, eq(scheduleSlots.venueId, venues.id))
+      .orderBy(asc(scheduleSlots.startsAt));
+
+    return result.map(row => ({
+      ...row.schedule_slots,
+      program: row.programs,
+      venue: row.venues
+    }));
+  }
+
+  async saveScheduleSlot(slot: InsertScheduleSlot): Promise<ScheduleSlot> {
+    const [savedSlot] = await this.db
+      .insert(scheduleSlots)
+      .values(slot)
+      .onConflictDoUpdate({
+        target: scheduleSlots.programId,
+        set: { venueId: slot.venueId, startsAt: slot.startsAt, endsAt: slot.endsAt },
+      })
+      .returning();
+    return savedSlot;
+  }
+
+  async deleteScheduleSlot(programId: number): Promise<boolean> {
+    const result = await this.db.delete(scheduleSlots).where(eq(scheduleSlots.programId, programId));
+    return (result.rowCount || 0) > 0;
+  }
+
+  // Results
+  async getResultsWithDetails(): Promise<ResultWithDetails[]> {
+    const result = await this.db
+      .select()
+      .from(results)
+      .innerJoin(registrations, eq(results.registrationId, registrations.id))
+      .innerJoin(participants, eq(registrations.participantId, participants.id))
+      .innerJoin(teams, eq(participants.teamId, teams.id))
+      .innerJoin(programs, eq(registrations.programId, programs.id));
+
+    return result.map(row => ({
+      ...row.results,
+      registration: {
+        ...row.registrations,
+        participant: {
+          ...row.participants,
+          team: row.teams
+        },
+        program: row.programs
+      }
+    }));
+  }
+
+  async saveResult(result: InsertResult): Promise<Result> {
+    const publishedAt = new Date().toISOString();
+    const [savedResult] = await this.db
+      .insert(results)
+      .values({ ...result, publishedAt })
+      .onConflictDoUpdate({
+        target: results.registrationId,
+        set: { grade: result.grade, position: result.position, publishedAt },
+      })
+      .returning();
+    return savedResult;
+  }
+
+  // Check-ins
+  async getCheckInsByProgram(programId: number): Promise<CheckIn[]> {
+    return await this.db.select().from(checkIns).where(eq(checkIns.programId, programId));
+  }
+
+  async getCheckIn(participantId: number, programId: number): Promise<CheckIn | undefined> {
+    const [checkIn] = await this.db
+      .select()
+      .from(checkIns)
+      .where(and(eq(checkIns.participantId, participantId), eq(checkIns.programId, programId)));
+    return checkIn || undefined;
+  }
+
+  async createCheckIn(checkIn: InsertCheckIn): Promise<CheckIn> {
+    const [newCheckIn] = await this.db
+      .insert(checkIns)
+      .values({
+        ...checkIn,
+        checkedInAt: new Date().toISOString()
+      })
+      .returning();
+    return newCheckIn;
+  }
+
+  // Settings
+  async getSetting<T>(key: string): Promise<T | undefined> {
+    const [setting] = await this.db.select().from(settings).where(eq(settings.key, key));
+    return setting ? (setting.value as T) : undefined;
+  }
+
+  async saveSetting<T>(key: string, value: T): Promise<T> {
+    await this.db
+      .insert(settings)
+      .values({ key, value })
+      .onConflictDoUpdate({ target: settings.key, set: { value } });
+    return value;
+  }
+
+  // Audit log
+  async getAuditLogs(): Promise<AuditLog[]> {
+    return await this.db.select().from(auditLogs).orderBy(desc(auditLogs.id));
+  }
+
+  async createAuditLog(entry: InsertAuditLog): Promise<AuditLog> {
+    const [newEntry] = await this.db
+      .insert(auditLogs)
+      .values({ ...entry, createdAt: new Date().toISOString() })
+      .returning();
+    return newEntry;
+  }
+
+  // Statistics
+  async getRegistrationCounts(): Promise<RegistrationCount[]> {
+    return await this.db
+      .select({
+        programId: registrations.programId,
+        teamId: participants.teamId,
+        waitlisted: registrations.waitlisted,
+        registrations: count(),
+        participants: countDistinct(registrations.participantId),
+      })
+      .from(registrations)
+      .innerJoin(participants, eq(registrations.participantId, participants.id))
+      .groupBy(registrations.programId, participants.teamId, registrations.waitlisted);
+  }
+
+  async getTeamParticipantCounts(): Promise<TeamParticipantCount[]> {
+    return await this.db
+      .select({
+        teamId: participants.teamId,
+        participants: countDistinct(participants.id),
+        registeredParticipants: countDistinct(registrations.participantId),
+      })
+      .from(participants)
+      .leftJoin(registrations, eq(registrations.participantId, participants.id))
+      .groupBy(participants.teamId);
+  }
+
+  async getDailyRegistrationCounts(): Promise<DailyRegistrationCount[]> {
+    // registeredAt is an ISO timestamp, so its first ten characters are the UTC day
+    const date = sql<string>`substring(${registrations.registeredAt} from 1 for 10)`;
+    return await this.db
+      .select({ date, registrations: count() })
+      .from(registrations)
+      .groupBy(date)
+      .orderBy(date);
+  }
+
+  // Code counters
+  async nextCodeNumber(teamId: number): Promise<number> {
+    // A single upsert, so concurrent registrations each get their own number
+    const [counter] = await this.db
+      .insert(codeCounters)
+      .values({ teamId, value: 1 })
+      .onConflictDoUpdate({ target: codeCounters.teamId, set: { value: sql`${codeCounters.value} + 1` } })
+      .returning();
+    return counter.value;
+  }
+
+  // Code recovery
+  async getRecoverySecret(participantId: number): Promise<RecoverySecret | undefined> {
+    const [secret] = await this.db.select().from(recoverySecrets).where(eq(recoverySecrets.participantId, participantId));
+    return secret || undefined;
+  }
+
+  async setRecoverySecret(participantId: number, secretHash: string): Promise<RecoverySecret> {
+    const setAt = new Date().toISOString();
+    const [secret] = await this.db
+      .insert(recoverySecrets)
+      .values({ participantId, secretHash, setAt })
+      .onConflictDoUpdate({ target: recoverySecrets.participantId, set: { secretHash, setAt } })
+      .returning();
+    return secret;
+  }
+
+  // Registration extensions
+  async getRegistrationExtensions(): Promise<RegistrationExtension[]> {
+    return await this.db.select().from(registrationExtensions);
+  }
+
+  async createRegistrationExtension(extension: InsertRegistrationExtension): Promise<RegistrationExtension> {
+    const [created] = await this.db
+      .insert(registrationExtensions)
+      .values({ ...extension, createdAt: new Date().toISOString() })
+      .returning();
+    return created;
+  }
+
+  async deleteRegistrationExtension(id: number): Promise<boolean> {
+    const result = await this.db.delete(registrationExtensions).where(eq(registrationExtensions.id, id));
+    return (result.rowCount || 0) > 0;
+  }
+}
@@ -0,0 +1,132 @@
+import type { DuplicateCandidate, DuplicatePair, Participant, ParticipantWithTeam, Team } from "@shared/schema";
+import { withoutCode } from "./publicData";
+
+// Likely-duplicate detection for participant names. Names are reduced to a
+// comparison key that ignores case, spacing, word order, diacritics and common
+// spelling variants, and keys are compared by edit distance.
+
+export const DUPLICATE_THRESHOLD = 0.85;
+
+// Transliterations of the same name, mapped to one spelling
+const nameVariants: Record<string, string> = {
+  mohammed: "muhammad", mohammad: "muhammad", mohamed: "muhammad", mohamad: "muhammad",
+  muhammed: "muhammad", muhamed: "muhammad", mohd: "muhammad", muhd: "muhammad", md: "muhammad",
+  ahmed: "ahmad", ahamed: "ahmad", ahammed: "ahmad",
+  abdu: "abdul", abd: "abdul",
+  fathima: "fatima", fathimah: "fatima", fatimah: "fatima",
+  aysha: "aisha", ayisha: "aisha", ayesha: "aisha",
+  hussain: "husain", hussein: "husain", hussan: "hasan", hassan: "hasan",
+  yousuf: "yusuf", yoosuf: "yusuf", yousef: "yusuf",
+};
+
+// Malayalam chillu letters and their spelled-out forms
+const chillu: Record<string, string> = {
+  "ൺ": "ണ്", "ൻ": "ന്", "ർ": "ര്", "ൽ": "ല്", "ൾ": "ള്", "ൿ": "ക്",
+};
+
+function foldArabic(text: string): string {
+  return text
+    .replace(/[\u064B-\u065F\u0670\u0640]/g, "") // harakat, superscript alef, tatweel
+    .replace(/[أإآٱ]/g, "ا")
+    .replace(/ى/g, "ي")
+    .replace(/ة/g, "ه")
+    .replace(/ؤ/g, "و")
+    .replace(/ئ/g, "ي");
+}
+
+function foldMalayalam(text: string): string {
+  return text
+    .replace(/[ൺൻർൽൾൿ]/g, char => chillu[char])
+    .replace(/[\u200C\u200D]/g, ""); // zero-width joiners
+}
+
+// Spelling differences that do not change how a romanized name sounds
+function foldLatinWord(word: string): string {
+  const known = nameVariants[word];
+  if (known) return known;
+  return word
+    .replace(/(th|dh|kh|gh|ph)/g, match => (match === "ph" ? "f" : match[0]))
+    .replace(/ee/g, "i")
+    .replace(/oo/g, "u")
+    .replace(/o/g, "u")
+    .replace(/e/g, "i")
+    .replace(/w/g, "v")
+    .replace(/q/g, "k")
+    .replace(/y$/, "i")
+    .replace(/(.)\1+/g, "$1");
+}
+
+export function nameKey(name: string): string {
+  const folded = foldMalayalam(foldArabic(
+    name.normalize("NFKD").replace(/[\u0300-\u036f]/g, "").toLowerCase()
+  ));
+  return folded
+    .split(/[\s.,'’\-_]+/)
+    .filter(Boolean)
+    .map(word => (/^[a-z]+$/.test(word) ? foldLatinWord(word) : word))
+    .sort()
+    .join(" ");
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// 1 for the same key, falling towards 0 as the keys differ
+export function nameSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  const longest = Math.max(a.length, b.length);
+  if (longest === 0) return 1;
+  // Keys this different in length can never reach the threshold
+  if (Math.min(a.length, b.length) / longest < DUPLICATE_THRESHOLD) return 0;
+  return 1 - editDistance(a, b) / longest;
+}
+
+function withTeam(participant: Participant, teams: Team[]): ParticipantWithTeam | undefined {
+  const team = teams.find(t => t.id === participant.teamId);
+  return team ? { ...participant, team } : undefined;
+}
+
+// Existing participants whose names look like the given one, closest first.
+// Shown to whoever is registering, so codes are left out.
+export function findLikelyDuplicates(name: string, participants: Participant[], teams: Team[]): DuplicateCandidate[] {
+  const key = nameKey(name);
+  const candidates: DuplicateCandidate[] = [];
+  for (const participant of participants) {
+    const score = nameSimilarity(key, nameKey(participant.fullName));
+    const withDetails = withTeam(participant, teams);
+    if (score >= DUPLICATE_THRESHOLD && withDetails) {
+      candidates.push({ participant: withoutCode(withDetails), score });
+    }
+  }
+  return candidates.sort((a, b) => b.score - a.score);
+}
+
+// Every pair of participants that look like the same person, closest first
+export function findDuplicatePairs(participants: Participant[], teams: Team[]): DuplicatePair[] {
+  const keyed = participants.map(participant => ({ participant, key: nameKey(participant.fullName) }));
+  const pairs: DuplicatePair[] = [];
+  for (let i = 0; i < keyed.length; i++) {
+    for (let j = i + 1; j < keyed.length; j++) {
+      const score = nameSimilarity(keyed[i].key, keyed[j].key);
+      if (score < DUPLICATE_THRESHOLD) continue;
+
+      const first = withTeam(keyed[i].participant, teams);
+      const second = withTeam(keyed[j].participant, teams);
+      if (first && second) pairs.push({ first, second, score });
+    }
+  }
+  return pairs.sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,155 @@
+import type {
+  GroupEntry, GroupEntryWithDetails, Participant, Program, RegistrationWithDetails, RuleViolation, User
+} from "@shared/schema";
+import type { IStorage } from "./storage";
+import { isMistypedCode } from "@shared/codes";
+import { getRegistrationRules, evaluateRegistrationRules } from "./rules";
+import { getCodeFormat } from "./codes";
+
+export type RosterProblem = { status: number; message: string; violations?: RuleViolation[] };
+
+// Looks up roster members by code. The leader is always part of the roster.
+export async function resolveRoster(
+  storage: IStorage,
+  leader: Participant,
+  memberCodes: string[]
+): Promise<{ members: Participant[] } | RosterProblem> {
+  const members = [leader];
+  const format = await getCodeFormat(storage);
+  for (const code of memberCodes) {
+    if (members.some(m => m.uniqueCode === code)) continue;
+    const member = await storage.getParticipantByCode(code);
+    if (!member) {
+      // Codes issued before a check character was turned on still look up
+      if (isMistypedCode(code, format)) {
+        return { status: 400, message: `${code} has a typo. Please check it and try again.` };
+      }
+      return { status: 404, message: `Invalid code: ${code}` };
+    }
+    members.push(member);
+  }
+  return { members };
+}
+
+// Returns a message describing the first problem with a group roster, if any.
+// The roster includes the leader.
+export function validateRoster(
+  program: Program,
+  leader: Participant,
+  members: Participant[]
+): string | undefined {
+  if (program.participationType !== "group") {
+    return `${program.name} is not a group program`;
+  }
+
+  const outsider = members.find(m => m.teamId !== leader.teamId);
+  if (outsider) {
+    return `${outsider.fullName} is not in the leader's team`;
+  }
+
+  if (program.minMembers && members.length < program.minMembers) {
+    return `${program.name} needs at least ${program.minMembers} members`;
+  }
+  if (program.maxMembers && members.length > program.maxMembers) {
+    return `${program.name} allows at most ${program.maxMembers} members`;
+  }
+
+  return undefined;
+}
+
+// Checks that members joining an entry are free to enter the program and
+// stay within the per-participant registration rules
+export async function checkRosterAdditions(
+  storage: IStorage,
+  program: Program,
+  added: Participant[]
+): Promise<RosterProblem | undefined> {
+  const programRegistrations = await storage.getRegistrationsByProgramWithDetails(program.id);
+  const taken = added.find(m => programRegistrations.some(r => r.participantId === m.id));
+  if (taken) {
+    return { status: 409, message: `${taken.fullName} is already registered for ${program.name}` };
+  }
+
+  // The team limit is already covered by the one-entry-per-team rule
+  const rules = { ...(await getRegistrationRules(storage)), maxPerTeamPerProgram: null };
+  const violations: RuleViolation[] = [];
+  for (const member of added) {
+    const memberViolations = evaluateRegistrationRules({
+      rules,
+      requested: [program],
+      existing: await storage.getRegistrationsByParticipantWithDetails(member.id),
+      teamEntries: new Map(),
+    });
+    violations.push(...memberViolations.map(v => ({ ...v, message: `${member.fullName}: ${v.message}` })));
+  }
+  if (violations.length > 0) {
+    return { status: 422, message: "Some members cannot join this program", violations };
+  }
+
+  return undefined;
+}
+
+// A group entry competes once, through its leader's registration. Members'
+// registrations are dropped; individual registrations pass through as-is.
+// Entries still on the waitlist do not compete.
+export function competitorRegistrations(
+  registrations: RegistrationWithDetails[],
+  entries: GroupEntry[]
+): RegistrationWithDetails[] {
+  const leaders = new Map<number, number>(entries.map(entry => [entry.id, entry.leaderId]));
+  return registrations.filter(r =>
+    !r.waitlisted && (!r.groupEntryId || leaders.get(r.groupEntryId) === r.participantId)
+  );
+}
+
+// Builds entry details from the members' registrations
+export function withGroupDetails(
+  entries: GroupEntry[],
+  registrations: RegistrationWithDetails[]
+): GroupEntryWithDetails[] {
+  const result: GroupEntryWithDetails[] = [];
+  for (const entry of entries) {
+    const memberRegistrations = registrations.filter(r => r.groupEntryId === entry.id);
+    const leaderRegistration = memberRegistrations.find(r => r.participantId === entry.leaderId);
+    if (!leaderRegistration) continue;
+
+    const { team, ...leader } = leaderRegistration.participant;
+    result.push({
+      ...entry,
+      program: leaderRegistration.program,
+      team,
+      leader,
+      members: memberRegistrations.map(({ participant: { team: _team, ...member } }) => member),
+    });
+  }
+  return result;
+}
+
+// Works out who is changing a group entry. Staff are checked against their
+// role; without a session the leader's unique code is required.
+export function groupEntryActor(
+  entry: GroupEntry,
+  leader: Participant | undefined,
+  user: User | undefined,
+  uniqueCode: string | undefined
+): { actor: string } | { status: number; message: string } {
+  if (user) {
+    const isAllowed = user.role === "admin" ||
+      (user.role === "team_manager" && entry.teamId === user.teamId) ||
+      (user.role === "participant" && entry.leaderId === user.participantId);
+    if (!isAllowed) {
+      return { status: 403, message: "Only the group leader can change this entry" };
+    }
+    return { actor: `user:${user.username}` };
+  }
+
+  // Codes are matched the way they are looked up and rate limited
+  const code = uniqueCode?.trim().toUpperCase();
+  if (!code) {
+    return { status: 401, message: "Please provide the leader's unique code or log in" };
+  }
+  if (leader?.uniqueCode !== code) {
+    return { status: 403, message: "Only the group leader can change this entry" };
+  }
+  return { actor: `participant:${code}` };
+}
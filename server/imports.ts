@@ -0,0 +1,226 @@
+import { Readable } from "stream";
+import ExcelJS from "exceljs";
+import {
+  firstRegistrationSchema,
+  type ImportRow, type Program, type Team, type User
+} from "@shared/schema";
+import type { IStorage } from "./storage";
+import { getRegistrationRules, evaluateRegistrationRules } from "./rules";
+import { generateParticipantCode } from "./codes";
+import { nameKey } from "./duplicates";
+import { registrationWindowProblem } from "./windows";
+import { startsWaitlisted, promoteFromWaitlist } from "./waitlist";
+
+// Spreadsheet import of participants. Sheets need a name column and may have
+// team and programs columns; programs are listed by name or id in one cell.
+
+type Column = "name" | "team" | "programs";
+
+const headerAliases: Record<Column, string[]> = {
+  name: ["name", "fullname", "participant", "student", "studentname"],
+  team: ["team", "teamname", "teamcode"],
+  programs: ["programs", "program", "events", "event"],
+};
+
+export async function readSpreadsheet(file: { buffer: Buffer; originalname: string }): Promise<string[][]> {
+  const workbook = new ExcelJS.Workbook();
+  let sheet: ExcelJS.Worksheet | undefined;
+
+  if (file.originalname.toLowerCase().endsWith(".csv")) {
+    // Keep every cell as text so values such as codes are not turned into numbers
+    const text = file.buffer.toString("utf8").replace(/^\uFEFF/, "");
+    sheet = await workbook.csv.read(Readable.from([text]), { map: (value: unknown) => value });
+  } else {
+    await workbook.xlsx.load(file.buffer);
+    sheet = workbook.worksheets[0];
+  }
+  if (!sheet) {
+    throw new Error("The file has no sheets");
+  }
+
+  const rows: string[][] = [];
+  sheet.eachRow({ includeEmpty: true }, (row) => {
+    const cells: string[] = [];
+    for (let column = 1; column <= sheet!.columnCount; column++) {
+      cells.push(row.getCell(column).text.trim());
+    }
+    rows.push(cells);
+  });
+  return rows;
+}
+
+function findColumns(header: string[]): Partial<Record<Column, number>> {
+  const columns: Partial<Record<Column, number>> = {};
+  header.forEach((cell, index) => {
+    const key = cell.toLowerCase().replace(/[^a-z]/g, "");
+    for (const column of Object.keys(headerAliases) as Column[]) {
+      if (columns[column] === undefined && headerAliases[column].includes(key)) {
+        columns[column] = index;
+      }
+    }
+  });
+  return columns;
+}
+
+// Checks every row without writing anything. Team managers can only import
+// into their own team; rows without a team use defaultTeamId.
+export async function planImport(
+  storage: IStorage,
+  rows: string[][],
+  options: { user: User; defaultTeamId?: number }
+): Promise<ImportRow[]> {
+  const [header = [], ...body] = rows;
+  const columns = findColumns(header);
+  if (columns.name === undefined) {
+    throw new Error("The first row needs a Name column");
+  }
+
+  const teams = await storage.getTeams();
+  const programs = await storage.getPrograms();
+  const rules = await getRegistrationRules(storage);
+  const registrations = await storage.getRegistrationsWithDetails();
+
+  const findTeam = (value: string): Team | undefined => {
+    const key = value.toLowerCase();
+    return teams.find(t => t.name.toLowerCase() === key || t.code.toLowerCase() === key);
+  };
+  const findProgram = (value: string): Program | undefined => {
+    const key = value.toLowerCase();
+    return programs.find(p => p.name.toLowerCase() === key || p.id.toString() === key);
+  };
+
+  // Entries per team and program, including rows planned earlier in the sheet
+  const teamEntries = new Map<string, number>();
+  for (const registration of registrations) {
+    const key = `${registration.participant.teamId}:${registration.programId}`;
+    teamEntries.set(key, (teamEntries.get(key) ?? 0) + 1);
+  }
+  const namesSeen = new Set<string>();
+
+  const planned: ImportRow[] = [];
+  for (let index = 0; index < body.length; index++) {
+    const cells = body[index];
+    const fullName = cells[columns.name] ?? "";
+    const teamCell = columns.team !== undefined ? cells[columns.team] ?? "" : "";
+    const programsCell = columns.programs !== undefined ? cells[columns.programs] ?? "" : "";
+    if (!fullName && !teamCell && !programsCell) continue;
+
+    const errors: string[] = [];
+    let team: Team | undefined;
+    if (teamCell) {
+      team = findTeam(teamCell);
+      if (!team) errors.push(`Unknown team: ${teamCell}`);
+    } else if (options.user.role === "team_manager") {
+      team = teams.find(t => t.id === options.user.teamId);
+    } else if (options.defaultTeamId) {
+      team = teams.find(t => t.id === options.defaultTeamId);
+    } else {
+      errors.push("No team given");
+    }
+    if (team && options.user.role === "team_manager" && team.id !== options.user.teamId) {
+      errors.push("Team managers can only import their own team");
+    }
+
+    const parsed = firstRegistrationSchema.safeParse({ fullName, teamId: team?.id });
+    if (!parsed.success) {
+      // A missing team has already been reported
+      errors.push(...parsed.error.errors.filter(e => team || e.path[0] !== "teamId").map(e => e.message));
+    }
+
+    const key = nameKey(fullName);
+    if (fullName && (namesSeen.has(key) || await storage.getParticipantByName(fullName))) {
+      errors.push("A participant with this name already exists");
+    }
+    namesSeen.add(key);
+
+    const requested: Program[] = [];
+    for (const value of programsCell.split(/[,;\n|]/).map(v => v.trim()).filter(Boolean)) {
+      const program = findProgram(value);
+      if (!program) {
+        errors.push(`Unknown program: ${value}`);
+      } else if (program.archived) {
+        errors.push(`${program.name} is no longer open for registration`);
+      } else if (program.participationType === "group") {
+        errors.push(`${program.name} is a group program. Enter it as a group entry after importing`);
+      } else if (!requested.includes(program)) {
+        requested.push(program);
+      }
+    }
+
+    if (team) {
+      for (const program of requested) {
+        const windowProblem = await registrationWindowProblem(storage, program, team.id, options.user);
+        if (windowProblem) errors.push(windowProblem);
+      }
+
+      const violations = evaluateRegistrationRules({
+        rules,
+        requested,
+        existing: [],
+        teamEntries: new Map(requested.map(p => [p.id, teamEntries.get(`${team!.id}:${p.id}`) ?? 0] as [number, number])),
+      });
+      errors.push(...violations.map(v => v.message));
+    }
+
+    if (errors.length === 0 && team) {
+      for (const program of requested) {
+        const key = `${team.id}:${program.id}`;
+        teamEntries.set(key, (teamEntries.get(key) ?? 0) + 1);
+      }
+    }
+
+    planned.push({
+      row: index + 2, // the header is row 1
+      fullName,
+      teamId: team?.id ?? null,
+      teamName: team?.name ?? null,
+      programIds: requested.map(p => p.id),
+      programNames: requested.map(p => p.name),
+      errors,
+      uniqueCode: null,
+    });
+  }
+
+  return planned;
+}
+
+// Creates the participants and registrations for rows that passed every check.
+// Rows join a full program's waitlist in sheet order.
+export async function applyImport(storage: IStorage, rows: ImportRow[], actor: string): Promise<ImportRow[]> {
+  const teams = await storage.getTeams();
+  const waitlistedIds = (await storage.getPrograms()).filter(startsWaitlisted).map(p => p.id);
+  const result: ImportRow[] = [];
+  const createdIds: number[] = [];
+  for (const row of rows) {
+    const team = teams.find(t => t.id === row.teamId);
+    if (row.errors.length > 0 || !team) {
+      result.push(row);
+      continue;
+    }
+
+    const uniqueCode = await generateParticipantCode(storage, team);
+    const participant = await storage.createParticipant({
+      fullName: row.fullName,
+      teamId: team.id,
+      uniqueCode,
+      profileImage: null,
+    });
+    const created = await storage.registerForPrograms(participant.id, row.programIds, undefined, waitlistedIds);
+    createdIds.push(...created.map(r => r.id));
+
+    await storage.createAuditLog({
+      action: "participant.import",
+      entityType: "participant",
+      entityId: participant.id,
+      actor,
+      details: { row: row.row, programIds: row.programIds }
+    });
+
+    result.push({ ...row, uniqueCode });
+  }
+
+  for (const program of (await storage.getPrograms()).filter(startsWaitlisted)) {
+    await promoteFromWaitlist(storage, program, actor, createdIds);
+  }
+  return result;
+}
@@ -0,0 +1,75 @@
+import type {
+  JudgingCriterion, ScoreSheet, RegistrationWithDetails, ProgramResult
+} from "@shared/schema";
+
+// Returns a message describing the first problem with a score sheet, if any
+export function validateScores(
+  scores: Record<string, number>,
+  criteria: JudgingCriterion[]
+): string | undefined {
+  if (criteria.length === 0) {
+    return "No judging criteria have been configured for this program";
+  }
+
+  const criterionIds = new Set(criteria.map(c => c.id.toString()));
+  const unknown = Object.keys(scores).find(id => !criterionIds.has(id));
+  if (unknown) {
+    return `Unknown criterion: ${unknown}`;
+  }
+
+  for (const criterion of criteria) {
+    const score = scores[criterion.id.toString()];
+    if (score === undefined) {
+      return `Missing score for "${criterion.name}"`;
+    }
+    if (score > criterion.maxScore) {
+      return `Score for "${criterion.name}" cannot exceed ${criterion.maxScore}`;
+    }
+  }
+
+  return undefined;
+}
+
+// Weighted score for a single sheet, scaled to 100
+export function weightedScore(sheet: ScoreSheet, criteria: JudgingCriterion[]): number {
+  const totalWeight = criteria.reduce((sum, c) => sum + c.weight, 0);
+  if (totalWeight === 0) return 0;
+
+  const weighted = criteria.reduce((sum, criterion) => {
+    const score = sheet.scores[criterion.id.toString()] ?? 0;
+    return sum + (score / criterion.maxScore) * criterion.weight;
+  }, 0);
+
+  return (weighted / totalWeight) * 100;
+}
+
+// Averages every judge's weighted score per registration and ranks the
+// results. Tied scores share a rank (1, 1, 3).
+export function aggregateResults(
+  registrations: RegistrationWithDetails[],
+  sheets: ScoreSheet[],
+  criteria: JudgingCriterion[]
+): ProgramResult[] {
+  const results = registrations
+    .map(registration => {
+      const registrationSheets = sheets.filter(s => s.registrationId === registration.id);
+      const total = registrationSheets.reduce((sum, s) => sum + weightedScore(s, criteria), 0);
+
+      return {
+        registration,
+        judgeCount: registrationSheets.length,
+        lockedCount: registrationSheets.filter(s => s.locked).length,
+        score: registrationSheets.length > 0 ? Math.round((total / registrationSheets.length) * 100) / 100 : 0,
+        rank: 0,
+      };
+    })
+    .filter(result => result.judgeCount > 0)
+    .sort((a, b) => b.score - a.score);
+
+  results.forEach((result, index) => {
+    const previous = results[index - 1];
+    result.rank = previous && previous.score === result.score ? previous.rank : index + 1;
+  });
+
+  return results;
+}
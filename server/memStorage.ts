@@ -0,0 +1,734 @@
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import type {
+  User, Team, Participant, Program, Registration, GroupEntry, Judge, JudgingCriterion, ScoreSheet,
+  Venue, ScheduleSlot, Result, CodeCounter, RecoverySecret, Setting, AuditLog, CheckIn,
+  RegistrationExtension, InsertRegistrationExtension,
+  InsertUser, InsertTeam, InsertParticipant, InsertProgram, InsertRegistration, InsertGroupEntry, InsertJudge, InsertScoreSheet,
+  InsertVenue, InsertScheduleSlot, InsertResult, InsertAuditLog, InsertCheckIn,
+  ProgramCriteria, ParticipantWithTeam, RegistrationWithDetails, ScheduleEntry, ResultWithDetails,
+  RegistrationCount, TeamParticipantCount, DailyRegistrationCount, ChestNumberAssignment,
+  RegistrationQuery, RegistrationExport, RegistrationPage
+} from "@shared/schema";
+import type { IStorage } from "./storage";
+import { queryRegistrations, filterRegistrations } from "./registrationQuery";
+
+const MemoryStore = createMemoryStore(session);
+
+interface MemRows {
+  users: User;
+  teams: Team;
+  participants: Participant;
+  programs: Program;
+  registrations: Registration;
+  groupEntries: GroupEntry;
+  judges: Judge;
+  judgingCriteria: JudgingCriterion;
+  scoreSheets: ScoreSheet;
+  venues: Venue;
+  scheduleSlots: ScheduleSlot;
+  results: Result;
+  checkIns: CheckIn;
+  codeCounters: CodeCounter;
+  recoverySecrets: RecoverySecret;
+  registrationExtensions: RegistrationExtension;
+  settings: Setting;
+  auditLogs: AuditLog;
+}
+
+export type TableName = keyof MemRows;
+
+type MemTables = { [T in TableName]: Map<number, MemRows[T]> };
+
+// Keeps every table in a Map keyed by id. Subclasses can override the
+// persist/unpersist hooks to write rows through to durable storage.
+export class MemStorage implements IStorage {
+  sessionStore: session.Store = new MemoryStore({ checkPeriod: 86400000 });
+
+  protected tables: MemTables = {
+    users: new Map(),
+    teams: new Map(),
+    participants: new Map(),
+    programs: new Map(),
+    registrations: new Map(),
+    groupEntries: new Map(),
+    judges: new Map(),
+    judgingCriteria: new Map(),
+    scoreSheets: new Map(),
+    venues: new Map(),
+    scheduleSlots: new Map(),
+    results: new Map(),
+    checkIns: new Map(),
+    codeCounters: new Map(),
+    recoverySecrets: new Map(),
+    registrationExtensions: new Map(),
+    settings: new Map(),
+    auditLogs: new Map(),
+  };
+
+  protected currentIds: Record<TableName, number> = {
+    users: 1,
+    teams: 1,
+    participants: 1,
+    programs: 1,
+    registrations: 1,
+    groupEntries: 1,
+    judges: 1,
+    judgingCriteria: 1,
+    scoreSheets: 1,
+    venues: 1,
+    scheduleSlots: 1,
+    results: 1,
+    checkIns: 1,
+    codeCounters: 1,
+    recoverySecrets: 1,
+    registrationExtensions: 1,
+    settings: 1,
+    auditLogs: 1,
+  };
+
+  protected persist(_table: TableName, _row: { id: number }): void {}
+
+  protected unpersist(_table: TableName, _id: number): void {}
+
+  // Groups several writes so durable subclasses can commit them together
+  protected atomically<T>(write: () => T): T {
+    return write();
+  }
+
+  private insert<T extends TableName>(table: T, values: Omit<MemRows[T], "id">): MemRows[T] {
+    const id = this.currentIds[table]++;
+    const row = { id, ...values } as MemRows[T];
+    this.tables[table].set(id, row);
+    this.persist(table, row);
+    return row;
+  }
+
+  private update<T extends TableName>(table: T, id: number, values: Partial<MemRows[T]>): MemRows[T] | undefined {
+    const existing = this.tables[table].get(id);
+    if (!existing) return undefined;
+
+    const row = { ...existing, ...values, id } as MemRows[T];
+    this.tables[table].set(id, row);
+    this.persist(table, row);
+    return row;
+  }
+
+  private remove(table: TableName, id: number): boolean {
+    const deleted = this.tables[table].delete(id);
+    if (deleted) this.unpersist(table, id);
+    return deleted;
+  }
+
+  // Users
+  async getUsers(): Promise<User[]> {
+    return Array.from(this.tables.users.values());
+  }
+
+  async getUser(id: number): Promise<User | undefined> {
+    return this.tables.users.get(id);
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    return Array.from(this.tables.users.values()).find(u => u.username === username);
+  }
+
+  async createUser(user: InsertUser): Promise<User> {
+    return this.insert("users", {
+      ...user,
+      teamId: user.teamId ?? null,
+      judgeId: user.judgeId ?? null,
+      participantId: user.participantId ?? null,
+    });
+  }
+
+  async deleteUser(id: number): Promise<boolean> {
+    return this.remove("users", id);
+  }
+
+  // Teams
+  async getTeams(): Promise<Team[]> {
+    return Array.from(this.tables.teams.values());
+  }
+
+  async getTeam(id: number): Promise<Team | undefined> {
+    return this.tables.teams.get(id);
+  }
+
+  async createTeam(team: InsertTeam): Promise<Team> {
+    return this.insert("teams", { ...team, color: team.color ?? null, logo: team.logo ?? null });
+  }
+
+  async updateTeam(id: number, team: Partial<InsertTeam>): Promise<Team | undefined> {
+    return this.update("teams", id, team);
+  }
+
+  async deleteTeam(id: number): Promise<boolean> {
+    return this.atomically(() => {
+      Array.from(this.tables.codeCounters.values())
+        .filter(c => c.teamId === id)
+        .forEach(c => this.remove("codeCounters", c.id));
+      Array.from(this.tables.registrationExtensions.values())
+        .filter(e => e.teamId === id)
+        .forEach(e => this.remove("registrationExtensions", e.id));
+      return this.remove("teams", id);
+    });
+  }
+
+  // Participants
+  async getParticipants(): Promise<Participant[]> {
+    return Array.from(this.tables.participants.values());
+  }
+
+  async getParticipant(id: number): Promise<Participant | undefined> {
+    return this.tables.participants.get(id);
+  }
+
+  async getParticipantByCode(code: string): Promise<Participant | undefined> {
+    const normalized = code.trim().toUpperCase();
+    return Array.from(this.tables.participants.values()).find(p => p.uniqueCode === normalized);
+  }
+
+  async getParticipantByName(name: string): Promise<Participant | undefined> {
+    return Array.from(this.tables.participants.values()).find(p => p.fullName === name);
+  }
+
+  async getParticipantWithTeam(id: number): Promise<ParticipantWithTeam | undefined> {
+    const participant = this.tables.participants.get(id);
+    const team = participant && this.tables.teams.get(participant.teamId);
+    if (!participant || !team) return undefined;
+
+    return { ...participant, team };
+  }
+
+  async createParticipant(participant: InsertParticipant & { uniqueCode: string }): Promise<Participant> {
+    return this.insert("participants", {
+      ...participant,
+      profileImage: participant.profileImage ?? null,
+      chestNumber: null,
+    });
+  }
+
+  async updateParticipantImage(id: number, imageUrl: string): Promise<Participant | undefined> {
+    return this.update("participants", id, { profileImage: imageUrl });
+  }
+
+  async setParticipantChestNumbers(numbers: ChestNumberAssignment[]): Promise<void> {
+    this.atomically(() => numbers.forEach(({ id, chestNumber }) => this.update("participants", id, { chestNumber })));
+  }
+
+  async mergeParticipants(keepId: number, mergeId: number): Promise<{ moved: number[]; dropped: number[] }> {
+    return this.atomically(() => {
+      const registrations = Array.from(this.tables.registrations.values());
+      const held = new Set(registrations.filter(r => r.participantId === keepId).map(r => r.programId));
+      const moved: number[] = [];
+      const dropped: number[] = [];
+      for (const registration of registrations.filter(r => r.participantId === mergeId)) {
+        if (held.has(registration.programId)) {
+          this.remove("registrations", registration.id);
+          dropped.push(registration.id);
+        } else {
+          this.update("registrations", registration.id, { participantId: keepId });
+          moved.push(registration.id);
+        }
+      }
+
+      const checkIns = Array.from(this.tables.checkIns.values());
+      const checkedIn = new Set(checkIns.filter(c => c.participantId === keepId).map(c => c.programId));
+      for (const checkIn of checkIns.filter(c => c.participantId === mergeId)) {
+        if (checkedIn.has(checkIn.programId)) {
+          this.remove("checkIns", checkIn.id);
+        } else {
+          this.update("checkIns", checkIn.id, { participantId: keepId });
+        }
+      }
+
+      for (const entry of Array.from(this.tables.groupEntries.values()).filter(e => e.leaderId === mergeId)) {
+        this.update("groupEntries", entry.id, { leaderId: keepId });
+      }
+      for (const user of Array.from(this.tables.users.values()).filter(u => u.participantId === mergeId)) {
+        this.update("users", user.id, { participantId: keepId });
+      }
+
+      const secrets = Array.from(this.tables.recoverySecrets.values());
+      const mergedSecret = secrets.find(r => r.participantId === mergeId);
+      if (mergedSecret) {
+        if (secrets.some(r => r.participantId === keepId)) {
+          this.remove("recoverySecrets", mergedSecret.id);
+        } else {
+          this.update("recoverySecrets", mergedSecret.id, { participantId: keepId });
+        }
+      }
+
+      const keep = this.tables.participants.get(keepId);
+      const merged = this.tables.participants.get(mergeId);
+      if (keep && !keep.profileImage && merged?.profileImage) {
+        this.update("participants", keepId, { profileImage: merged.profileImage });
+      }
+      this.remove("participants", mergeId);
+
+      return { moved, dropped };
+    });
+  }
+
+  // Programs
+  // In the order set by admins, then by id
+  async getPrograms(): Promise<Program[]> {
+    return Array.from(this.tables.programs.values())
+      .sort((a, b) => (a.sortOrder ?? 0) - (b.sortOrder ?? 0) || a.id - b.id);
+  }
+
+  async getProgramsByType(type: string, participationType?: string): Promise<Program[]> {
+    return (await this.getPrograms()).filter(p =>
+      p.type === type && (!participationType || p.participationType === participationType)
+    );
+  }
+
+  async getProgram(id: number): Promise<Program | undefined> {
+    return this.tables.programs.get(id);
+  }
+
+  async createProgram(program: InsertProgram): Promise<Program> {
+    return this.insert("programs", {
+      ...program,
+      description: program.description ?? null,
+      minMembers: program.minMembers ?? null,
+      maxMembers: program.maxMembers ?? null,
+      category: program.category ?? null,
+      section: program.section ?? null,
+      ageGroup: program.ageGroup ?? null,
+      maxEntries: program.maxEntries ?? null,
+      capacity: program.capacity ?? null,
+      durationMinutes: program.durationMinutes ?? null,
+      sortOrder: program.sortOrder ?? 0,
+      registrationOpensAt: program.registrationOpensAt ?? null,
+      registrationClosesAt: program.registrationClosesAt ?? null,
+      archived: program.archived ?? false,
+    });
+  }
+
+  async updateProgram(id: number, program: Partial<InsertProgram>): Promise<Program | undefined> {
+    return this.update("programs", id, program);
+  }
+
+
+  // Registrations
+  async getRegistrations(): Promise<Registration[]> {
+    return Array.from(this.tables.registrations.values());
+  }
+
+  async getRegistration(id: number): Promise<Registration | undefined> {
+    return this.tables.registrations.get(id);
+  }
+
+  async getRegistrationsByParticipant(participantId: number): Promise<Registration[]> {
+    return Array.from(this.tables.registrations.values()).filter(r => r.participantId === participantId);
+  }
+
+  async getRegistrationsWithDetails(): Promise<RegistrationWithDetails[]> {
+    return this.withDetails(Array.from(this.tables.registrations.values()));
+  }
+
+  async getRegistrationsByParticipantWithDetails(participantId: number): Promise<RegistrationWithDetails[]> {
+    return this.withDetails(await this.getRegistrationsByParticipant(participantId));
+  }
+
+  async getRegistrationsByProgramWithDetails(programId: number): Promise<RegistrationWithDetails[]> {
+    return this.withDetails(Array.from(this.tables.registrations.values()).filter(r => r.programId === programId));
+  }
+
+  async getRegistrationPage(query: RegistrationQuery): Promise<RegistrationPage> {
+    return queryRegistrations(await this.getRegistrationsWithDetails(), query);
+  }
+
+  async getRegistrationsMatching(filters: RegistrationExport): Promise<RegistrationWithDetails[]> {
+    return filterRegistrations(await this.getRegistrationsWithDetails(), filters);
+  }
+
+  async createRegistration(registration: InsertRegistration): Promise<Registration> {
+    return this.insert("registrations", {
+      ...registration,
+      registeredAt: new Date().toISOString(),
+      appearanceOrder: null,
+      groupEntryId: registration.groupEntryId ?? null,
+      waitlisted: registration.waitlisted ?? false,
+      chestNumber: null
+    });
+  }
+
+  async registerForPrograms(
+    participantId: number,
+    programIds: number[],
+    profileImage?: string,
+    waitlistedProgramIds: number[] = []
+  ): Promise<Registration[]> {
+    return this.atomically(() => {
+      if (profileImage) {
+        this.update("participants", participantId, { profileImage });
+      }
+
+      const held = new Set(
+        Array.from(this.tables.registrations.values())
+          .filter(r => r.participantId === participantId)
+          .map(r => r.programId)
+      );
+      return programIds
+        .filter(programId => !held.has(programId))
+        .map(programId => this.insert("registrations", {
+          participantId,
+          programId,
+          registeredAt: new Date().toISOString(),
+          appearanceOrder: null,
+          groupEntryId: null,
+          waitlisted: waitlistedProgramIds.includes(programId),
+          chestNumber: null
+        }));
+    });
+  }
+
+  async updateAppearanceOrder(id: number, appearanceOrder: number | null): Promise<Registration | undefined> {
+    return this.update("registrations", id, { appearanceOrder });
+  }
+
+  async confirmWaitlisted(
+    programId: number,
+    pick: (program: Program, registrations: Registration[]) => number[]
+  ): Promise<number[]> {
+    return this.atomically(() => {
+      const program = this.tables.programs.get(programId);
+      if (!program) return [];
+      const ids = pick(program, Array.from(this.tables.registrations.values()).filter(r => r.programId === programId));
+      ids.forEach(id => this.update("registrations", id, { waitlisted: false }));
+      return ids;
+    });
+  }
+
+  async setRegistrationChestNumbers(numbers: ChestNumberAssignment[]): Promise<void> {
+    this.atomically(() => numbers.forEach(({ id, chestNumber }) => this.update("registrations", id, { chestNumber })));
+  }
+
+  async deleteRegistration(id: number): Promise<boolean> {
+    return this.remove("registrations", id);
+  }
+
+  // Group entries
+  async getGroupEntries(): Promise<GroupEntry[]> {
+    return Array.from(this.tables.groupEntries.values());
+  }
+
+  async getGroupEntry(id: number): Promise<GroupEntry | undefined> {
+    return this.tables.groupEntries.get(id);
+  }
+
+  async getGroupEntryByProgramAndTeam(programId: number, teamId: number): Promise<GroupEntry | undefined> {
+    return Array.from(this.tables.groupEntries.values()).find(e =>
+      e.programId === programId && e.teamId === teamId
+    );
+  }
+
+  private insertGroupRegistrations(
+    entry: GroupEntry,
+    memberIds: number[],
+    waitlisted: boolean,
+    chestNumber: number | null
+  ): Registration[] {
+    const registeredAt = new Date().toISOString();
+    return memberIds.map(participantId => this.insert("registrations", {
+      participantId,
+      programId: entry.programId,
+      registeredAt,
+      appearanceOrder: null,
+      groupEntryId: entry.id,
+      waitlisted,
+      chestNumber
+    }));
+  }
+
+  async createGroupEntry(
+    entry: InsertGroupEntry,
+    memberIds: number[],
+    waitlisted: boolean
+  ): Promise<{ entry: GroupEntry; registrations: Registration[] }> {
+    return this.atomically(() => {
+      const created = this.insert("groupEntries", { ...entry, createdAt: new Date().toISOString() });
+      return { entry: created, registrations: this.insertGroupRegistrations(created, memberIds, waitlisted, null) };
+    });
+  }
+
+  async updateGroupRoster(
+    entry: GroupEntry,
+    added: { memberIds: number[]; waitlisted: boolean; chestNumber: number | null },
+    removedIds: number[]
+  ): Promise<Registration[]> {
+    return this.atomically(() => {
+      removedIds.forEach(id => this.remove("registrations", id));
+      return this.insertGroupRegistrations(entry, added.memberIds, added.waitlisted, added.chestNumber);
+    });
+  }
+
+  async deleteGroupEntry(id: number): Promise<boolean> {
+    return this.atomically(() => {
+      Array.from(this.tables.registrations.values())
+        .filter(r => r.groupEntryId === id)
+        .forEach(r => this.remove("registrations", r.id));
+      return this.remove("groupEntries", id);
+    });
+  }
+
+  // Judges
+  async getJudges(): Promise<Judge[]> {
+    return Array.from(this.tables.judges.values());
+  }
+
+  async getJudge(id: number): Promise<Judge | undefined> {
+    return this.tables.judges.get(id);
+  }
+
+  async createJudge(judge: InsertJudge): Promise<Judge> {
+    return this.insert("judges", judge);
+  }
+
+  // Judging criteria
+  async getCriteriaByProgram(programId: number): Promise<JudgingCriterion[]> {
+    return Array.from(this.tables.judgingCriteria.values()).filter(c => c.programId === programId);
+  }
+
+  async replaceProgramCriteria(programId: number, criteria: ProgramCriteria): Promise<JudgingCriterion[]> {
+    for (const existing of await this.getCriteriaByProgram(programId)) {
+      this.remove("judgingCriteria", existing.id);
+    }
+    return criteria.map(criterion => this.insert("judgingCriteria", { ...criterion, programId }));
+  }
+
+  // Score sheets
+  async getScoreSheet(id: number): Promise<ScoreSheet | undefined> {
+    return this.tables.scoreSheets.get(id);
+  }
+
+  async getScoreSheetsByProgram(programId: number): Promise<ScoreSheet[]> {
+    return Array.from(this.tables.scoreSheets.values()).filter(sheet =>
+      this.tables.registrations.get(sheet.registrationId)?.programId === programId
+    );
+  }
+
+  async getScoreSheetByJudgeAndRegistration(judgeId: number, registrationId: number): Promise<ScoreSheet | undefined> {
+    return Array.from(this.tables.scoreSheets.values()).find(sheet =>
+      sheet.judgeId === judgeId && sheet.registrationId === registrationId
+    );
+  }
+
+  async saveScoreSheet(sheet: InsertScoreSheet): Promise<ScoreSheet> {
+    const submittedAt = new Date().toISOString();
+    const existing = await this.getScoreSheetByJudgeAndRegistration(sheet.judgeId, sheet.registrationId);
+    if (existing) {
+      return this.update("scoreSheets", existing.id, { scores: sheet.scores, submittedAt })!;
+    }
+    return this.insert("scoreSheets", { ...sheet, locked: false, submittedAt });
+  }
+
+  async lockScoreSheet(id: number): Promise<ScoreSheet | undefined> {
+    return this.update("scoreSheets", id, { locked: true });
+  }
+
+  // Venues
+  async getVenues(): Promise<Venue[]> {
+    return Array.from(this.tables.venues.values());
+  }
+
+  async createVenue(venue: InsertVenue): Promise<Venue> {
+    return this.insert("venues", venue);
+  }
+
+  // Schedule
+  async getScheduleWithDetails(): Promise<ScheduleEntry[]> {
+    const result: ScheduleEntry[] = [];
+    for (const slot of Array.from(this.tables.scheduleSlots.values())) {
+      const program = this.tables.programs.get(slot.programId);
+      const venue = this.tables.venues.get(slot.venueId);
+      if (program && venue) result.push({ ...slot, program, venue });
+    }
+    return result.sort((a, b) => a.startsAt.localeCompare(b.startsAt));
+  }
+
+  async saveScheduleSlot(slot: InsertScheduleSlot): Promise<ScheduleSlot> {
+    const existing = Array.from(this.tables.scheduleSlots.values()).find(s => s.programId === slot.programId);
+    if (existing) {
+      return this.update("scheduleSlots", existing.id, slot)!;
+    }
+    return this.insert("scheduleSlots", slot);
+  }
+
+  async deleteScheduleSlot(programId: number): Promise<boolean> {
+    const existing = Array.from(this.tables.scheduleSlots.values()).find(s => s.programId === programId);
+    return existing ? this.remove("scheduleSlots", existing.id) : false;
+  }
+
+  // Results
+  async getResultsWithDetails(): Promise<ResultWithDetails[]> {
+    const result: ResultWithDetails[] = [];
+    for (const row of Array.from(this.tables.results.values())) {
+      const registration = this.tables.registrations.get(row.registrationId);
+      const [details] = registration ? this.withDetails([registration]) : [];
+      if (details) result.push({ ...row, registration: details });
+    }
+    return result;
+  }
+
+  async saveResult(result: InsertResult): Promise<Result> {
+    const publishedAt = new Date().toISOString();
+    const values = { grade: result.grade ?? null, position: result.position ?? null, publishedAt };
+    const existing = Array.from(this.tables.results.values()).find(r => r.registrationId === result.registrationId);
+    if (existing) {
+      return this.update("results", existing.id, values)!;
+    }
+    return this.insert("results", { registrationId: result.registrationId, ...values });
+  }
+
+  // Check-ins
+  async getCheckInsByProgram(programId: number): Promise<CheckIn[]> {
+    return Array.from(this.tables.checkIns.values()).filter(c => c.programId === programId);
+  }
+
+  async getCheckIn(participantId: number, programId: number): Promise<CheckIn | undefined> {
+    return Array.from(this.tables.checkIns.values()).find(c =>
+      c.participantId === participantId && c.programId === programId
+    );
+  }
+
+  async createCheckIn(checkIn: InsertCheckIn): Promise<CheckIn> {
+    return this.insert("checkIns", { ...checkIn, checkedInAt: new Date().toISOString() });
+  }
+
+  // Settings
+  async getSetting<T>(key: string): Promise<T | undefined> {
+    const setting = Array.from(this.tables.settings.values()).find(s => s.key === key);
+    return setting ? (setting.value as T) : undefined;
+  }
+
+  async saveSetting<T>(key: string, value: T): Promise<T> {
+    const existing = Array.from(this.tables.settings.values()).find(s => s.key === key);
+    if (existing) {
+      this.update("settings", existing.id, { value });
+    } else {
+      this.insert("settings", { key, value });
+    }
+    return value;
+  }
+
+  // Audit log
+  async getAuditLogs(): Promise<AuditLog[]> {
+    return Array.from(this.tables.auditLogs.values()).reverse();
+  }
+
+  async createAuditLog(entry: InsertAuditLog): Promise<AuditLog> {
+    return this.insert("auditLogs", {
+      ...entry,
+      details: entry.details ?? null,
+      createdAt: new Date().toISOString()
+    });
+  }
+
+  // Statistics
+  async getRegistrationCounts(): Promise<RegistrationCount[]> {
+    const counts = new Map<string, RegistrationCount & { participantIds: Set<number> }>();
+    for (const registration of Array.from(this.tables.registrations.values())) {
+      const participant = this.tables.participants.get(registration.participantId);
+      if (!participant) continue;
+      const key = `${registration.programId}:${participant.teamId}:${registration.waitlisted}`;
+      let row = counts.get(key);
+      if (!row) {
+        row = {
+          programId: registration.programId,
+          teamId: participant.teamId,
+          waitlisted: registration.waitlisted,
+          registrations: 0,
+          participants: 0,
+          participantIds: new Set(),
+        };
+        counts.set(key, row);
+      }
+      row.registrations++;
+      row.participantIds.add(registration.participantId);
+    }
+    return Array.from(counts.values()).map(({ participantIds, ...row }) => ({ ...row, participants: participantIds.size }));
+  }
+
+  async getTeamParticipantCounts(): Promise<TeamParticipantCount[]> {
+    const registered = new Set(Array.from(this.tables.registrations.values()).map(r => r.participantId));
+    const counts = new Map<number, TeamParticipantCount>();
+    for (const participant of Array.from(this.tables.participants.values())) {
+      const row = counts.get(participant.teamId) ?? { teamId: participant.teamId, participants: 0, registeredParticipants: 0 };
+      row.participants++;
+      if (registered.has(participant.id)) row.registeredParticipants++;
+      counts.set(participant.teamId, row);
+    }
+    return Array.from(counts.values());
+  }
+
+  async getDailyRegistrationCounts(): Promise<DailyRegistrationCount[]> {
+    const counts = new Map<string, number>();
+    for (const registration of Array.from(this.tables.registrations.values())) {
+      const date = registration.registeredAt.slice(0, 10);
+      counts.set(date, (counts.get(date) ?? 0) + 1);
+    }
+    return Array.from(counts.keys()).sort().map(date => ({ date, registrations: counts.get(date)! }));
+  }
+
+  // Code counters
+  async nextCodeNumber(teamId: number): Promise<number> {
+    const counter = Array.from(this.tables.codeCounters.values()).find(c => c.teamId === teamId);
+    if (counter) {
+      return this.update("codeCounters", counter.id, { value: counter.value + 1 })!.value;
+    }
+    return this.insert("codeCounters", { teamId, value: 1 }).value;
+  }
+
+  // Code recovery
+  async getRecoverySecret(participantId: number): Promise<RecoverySecret | undefined> {
+    return Array.from(this.tables.recoverySecrets.values()).find(r => r.participantId === participantId);
+  }
+
+  async setRecoverySecret(participantId: number, secretHash: string): Promise<RecoverySecret> {
+    const setAt = new Date().toISOString();
+    const existing = await this.getRecoverySecret(participantId);
+    if (existing) {
+      return this.update("recoverySecrets", existing.id, { secretHash, setAt })!;
+    }
+    return this.insert("recoverySecrets", { participantId, secretHash, setAt });
+  }
+
+  // Registration extensions
+  async getRegistrationExtensions(): Promise<RegistrationExtension[]> {
+    return Array.from(this.tables.registrationExtensions.values());
+  }
+
+  async createRegistrationExtension(extension: InsertRegistrationExtension): Promise<RegistrationExtension> {
+    return this.insert("registrationExtensions", {
+      ...extension,
+      programId: extension.programId ?? null,
+      reason: extension.reason ?? null,
+      createdAt: new Date().toISOString(),
+    });
+  }
+
+  async deleteRegistrationExtension(id: number): Promise<boolean> {
+    return this.remove("registrationExtensions", id);
+  }
+
+  private withDetails(rows: Registration[]): RegistrationWithDetails[] {
+    const result: RegistrationWithDetails[] = [];
+    for (const registration of rows) {
+      const participant = this.tables.participants.get(registration.participantId);
+      const team = participant && this.tables.teams.get(participant.teamId);
+      const program = this.tables.programs.get(registration.programId);
+      if (!participant || !team || !program) continue;
+
+      result.push({
+        ...registration,
+        participant: { ...participant, team },
+        program
+      });
+    }
+    return result;
+  }
+}
@@ -0,0 +1,41 @@
+import PDFDocument from "pdfkit";
+import { registerFonts, drawText } from "./pdfText";
+
+// Renders names that have broken PDF shaping before: Malayalam viramas and
+// chillu letters, and Arabic and Latin mixed into the same line. Run with
+// `npm run check:pdf`; it exits non-zero if any of them cannot be shaped.
+
+const samples = [
+  "മുഹമ്മദ്",
+  "അബ്ദുൽ",
+  "ഷാഹുൽ ഹമീദ്",
+  "സ്കൂൾ",
+  "മുഹമ്മദ് (Muhammed)",
+  "محمد عبد الله",
+  "Team: അബ്ദുൽ / عبد الله",
+];
+
+const doc = new PDFDocument({ margin: 0 });
+registerFonts(doc);
+doc.on("data", () => {});
+
+// drawText leaves out and logs what it cannot shape rather than throwing
+const failed: string[] = [];
+const logError = console.error;
+console.error = (message: unknown) => failed.push(String(message));
+
+let y = 40;
+for (const sample of samples) {
+  for (const bold of [false, true]) {
+    drawText(doc, sample, 300, y, { bold, align: "center" });
+    y += 20;
+  }
+}
+doc.end();
+console.error = logError;
+
+if (failed.length > 0) {
+  console.error(failed.join("\n"));
+  process.exit(1);
+}
+console.log(`Rendered ${samples.length} samples`);
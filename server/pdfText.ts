@@ -0,0 +1,192 @@
+import path from "path";
+import bidiFactory from "bidi-js";
+import type PDFDocument from "pdfkit";
+
+// Text drawing for server-side PDFs. pdfkit shapes each run it is given
+// (Arabic joining, Malayalam reordering and conjuncts) but does not apply the
+// bidi algorithm or switch fonts, so every line is split into runs by script
+// and direction, reordered for display and drawn one run at a time.
+
+export type PdfDocument = typeof PDFDocument;
+
+type Script = "latin" | "arabic" | "malayalam";
+
+const bidi = bidiFactory();
+
+const fontDir = path.join(process.cwd(), "node_modules", "@fontsource");
+
+// Full Noto Sans Malayalam, bundled because the web-font subsets break
+// pdfkit's shaping of conjuncts and chillu letters
+const malayalamDir = path.join(process.cwd(), "server", "fonts");
+
+const fonts: Record<Script, { regular: string; bold: string }> = {
+  latin: { regular: "Helvetica", bold: "Helvetica-Bold" },
+  arabic: { regular: "Arabic", bold: "Arabic-Bold" },
+  malayalam: { regular: "Malayalam", bold: "Malayalam-Bold" },
+};
+
+export function registerFonts(doc: PdfDocument) {
+  const naskh = path.join(fontDir, "noto-naskh-arabic", "files");
+
+  doc.registerFont("Arabic", path.join(naskh, "noto-naskh-arabic-arabic-400-normal.woff"));
+  doc.registerFont("Arabic-Bold", path.join(naskh, "noto-naskh-arabic-arabic-700-normal.woff"));
+  doc.registerFont("Malayalam", path.join(malayalamDir, "NotoSansMalayalam-Regular.ttf"));
+  doc.registerFont("Malayalam-Bold", path.join(malayalamDir, "NotoSansMalayalam-Bold.ttf"));
+}
+
+function scriptOf(char: string): Script | null {
+  const code = char.codePointAt(0)!;
+  if (
+    (code >= 0x0600 && code <= 0x06ff) || (code >= 0x0750 && code <= 0x077f) ||
+    (code >= 0x08a0 && code <= 0x08ff) || (code >= 0xfb50 && code <= 0xfdff) ||
+    (code >= 0xfe70 && code <= 0xfeff)
+  ) {
+    return "arabic";
+  }
+  if (code >= 0x0d00 && code <= 0x0d7f) return "malayalam";
+  // ASCII always comes from the Latin font; the Arabic subset does not carry it
+  if (code < 0x80 && char !== " ") return "latin";
+  if (char.toLowerCase() !== char.toUpperCase()) return "latin";
+  return null;
+}
+
+type Run = { text: string; script: Script; rtl: boolean };
+
+// Splits a single line into runs in visual (left to right) order
+function layoutLine(line: string): Run[] {
+  // Direction marks are resolved here, and the fonts have no glyphs for them
+  const text = line.replace(/[‎‏؜]/g, "");
+  if (!text) return [];
+
+  const embedding = bidi.getEmbeddingLevels(text, "ltr");
+  const { levels } = embedding;
+
+  // Mirror brackets inside right-to-left text
+  const chars = text.split("");
+  bidi.getMirroredCharactersMap(text, levels).forEach((mirrored, index) => {
+    chars[index] = mirrored;
+  });
+
+  // Neutral characters take the script of a neighbour at the same level
+  const scripts = chars.map(scriptOf);
+  for (let i = 0; i < scripts.length; i++) {
+    if (scripts[i]) continue;
+    let resolved: Script | null = null;
+    for (let j = i - 1; j >= 0 && !resolved && levels[j] === levels[i]; j--) resolved = scripts[j];
+    for (let j = i + 1; j < scripts.length && !resolved && levels[j] === levels[i]; j++) resolved = scripts[j];
+    scripts[i] = resolved ?? "latin";
+  }
+
+  // Logical runs of one script at one level
+  const runIds: number[] = [];
+  const runs: Run[] = [];
+  for (let i = 0; i < chars.length; i++) {
+    const last = runs[runs.length - 1];
+    const rtl = levels[i] % 2 === 1;
+    if (last && last.script === scripts[i] && last.rtl === rtl && levels[i] === levels[i - 1]) {
+      last.text += chars[i];
+    } else {
+      runs.push({ text: chars[i], script: scripts[i]!, rtl });
+    }
+    runIds.push(runs.length - 1);
+  }
+
+  // Reorder characters for display, then read the runs back in that order
+  const order = chars.map((_, index) => index);
+  for (const [start, end] of bidi.getReorderSegments(text, embedding)) {
+    const reversed = order.slice(start, end + 1).reverse();
+    order.splice(start, reversed.length, ...reversed);
+  }
+
+  const visual: Run[] = [];
+  let previous = -1;
+  for (const index of order) {
+    if (runIds[index] === previous) continue;
+    previous = runIds[index];
+    const run = runs[previous];
+    // pdfkit lays Arabic out right to left itself; anything else has to be flipped
+    visual.push(run.rtl && run.script !== "arabic"
+      ? { ...run, text: run.text.split("").reverse().join("") }
+      : run);
+  }
+  return visual;
+}
+
+export type TextOptions = {
+  size?: number;
+  bold?: boolean;
+  color?: string;
+  align?: "left" | "center" | "right"; // which side of x the text sits on
+};
+
+// fontkit crashes on the empty mark anchors Noto Sans Malayalam has after a
+// virama or chillu (as in "മുഹമ്മദ്"). A run that fails is shaped again
+// without above-base mark positioning. pdfkit hands features straight to
+// fontkit, which takes an object to turn features off, though the pdfkit
+// types only describe the list form.
+const fallbackFeatures = { abvm: false } as unknown as PDFKit.Mixins.OpenTypeFeatures[];
+
+type Shaped = { width: number; features?: PDFKit.Mixins.OpenTypeFeatures[] };
+
+// Selects the run's font and finds a way to shape it. Null when it cannot be
+// shaped at all, so that one bad name leaves a gap instead of failing the PDF.
+function shapeRun(doc: PdfDocument, run: Run, size: number, bold: boolean): Shaped | null {
+  doc.font(bold ? fonts[run.script].bold : fonts[run.script].regular).fontSize(size);
+  try {
+    return { width: doc.widthOfString(run.text) };
+  } catch {
+    // Shaped again below
+  }
+  try {
+    return { width: doc.widthOfString(run.text, { features: fallbackFeatures }), features: fallbackFeatures };
+  } catch (error) {
+    console.error(`Could not shape "${run.text}":`, error);
+    return null;
+  }
+}
+
+function measureRuns(doc: PdfDocument, runs: Run[], size: number, bold: boolean): number {
+  return runs.reduce((sum, run) => sum + (shapeRun(doc, run, size, bold)?.width ?? 0), 0);
+}
+
+export function measureText(doc: PdfDocument, text: string, options: TextOptions = {}): number {
+  return measureRuns(doc, layoutLine(text), options.size ?? 12, options.bold ?? false);
+}
+
+// Draws one line of mixed-script text anchored at x, sitting on the baseline y
+export function drawText(doc: PdfDocument, text: string, x: number, y: number, options: TextOptions = {}) {
+  const size = options.size ?? 12;
+  const bold = options.bold ?? false;
+  const runs = layoutLine(text);
+
+  let cursor = x;
+  if (options.align === "center" || options.align === "right") {
+    const width = measureRuns(doc, runs, size, bold);
+    cursor -= options.align === "center" ? width / 2 : width;
+  }
+
+  doc.fillColor(options.color ?? "#000000");
+  for (const run of runs) {
+    const shaped = shapeRun(doc, run, size, bold);
+    if (!shaped) continue;
+    doc.text(run.text, cursor, y, { lineBreak: false, baseline: "alphabetic", features: shaped.features });
+    cursor += shaped.width;
+  }
+}
+
+// Breaks text into lines no wider than width, at spaces
+export function wrapText(doc: PdfDocument, text: string, width: number, options: TextOptions = {}): string[] {
+  const lines: string[] = [];
+  let current = "";
+  for (const word of text.split(" ")) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (current && measureText(doc, candidate, options) > width) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = candidate;
+    }
+  }
+  if (current) lines.push(current);
+  return lines;
+}
@@ -0,0 +1,80 @@
+import type { InsertProgram, Program, ProgramForm, Registration } from "@shared/schema";
+import type { IStorage } from "./storage";
+
+// Program administration. Programs that already have entries can still be
+// renamed and re-described, but not changed in ways that would leave those
+// entries invalid.
+
+// Turns the admin form into stored program values. Member counts only apply
+// to group programs.
+export function toProgramValues(form: ProgramForm): Omit<InsertProgram, "sortOrder" | "archived"> {
+  const { criteria: _criteria, ...fields } = form;
+  const isGroup = fields.participationType === "group";
+  return {
+    ...fields,
+    description: fields.description ?? null,
+    minMembers: isGroup ? fields.minMembers ?? null : null,
+    maxMembers: isGroup ? fields.maxMembers ?? null : null,
+    maxEntries: fields.maxEntries ?? null,
+    durationMinutes: fields.durationMinutes ?? null,
+    registrationOpensAt: fields.registrationOpensAt ?? null,
+    registrationClosesAt: fields.registrationClosesAt ?? null,
+  };
+}
+
+// Returns why the program cannot be changed to the given values, if it cannot
+export async function programChangeProblem(
+  storage: IStorage,
+  program: Program,
+  values: Pick<InsertProgram, "type" | "participationType">
+): Promise<string | undefined> {
+  if (values.participationType !== program.participationType) {
+    const registrations = await storage.getRegistrationsByProgramWithDetails(program.id);
+    if (registrations.length > 0) {
+      return `${program.name} already has entries, so it cannot switch between group and individual`;
+    }
+  }
+
+  if (values.type !== "stage" && program.type === "stage") {
+    const schedule = await storage.getScheduleWithDetails();
+    if (schedule.some(slot => slot.programId === program.id)) {
+      return `${program.name} is on the stage schedule. Remove it from the schedule first`;
+    }
+  }
+
+  return undefined;
+}
+
+// Returns why the program's registrations cannot be withdrawn, if they
+// cannot. Withdrawing one that has been checked in, scored or given a result
+// would lose that record.
+export async function withdrawalProblem(
+  storage: IStorage,
+  program: Program,
+  registrations: Registration[]
+): Promise<string | undefined> {
+  const ids = new Set<number>(registrations.map(r => r.id));
+  const participantIds = new Set<number>(registrations.map(r => r.participantId));
+  const [results, scoreSheets, checkIns] = await Promise.all([
+    storage.getResultsWithDetails(),
+    storage.getScoreSheetsByProgram(program.id),
+    storage.getCheckInsByProgram(program.id),
+  ]);
+
+  if (results.some(result => ids.has(result.registrationId))) {
+    return `This entry has a result in ${program.name}, so it cannot be withdrawn`;
+  }
+  if (scoreSheets.some(sheet => ids.has(sheet.registrationId))) {
+    return `This entry has been scored in ${program.name}, so it cannot be withdrawn`;
+  }
+  if (checkIns.some(checkIn => participantIds.has(checkIn.participantId))) {
+    return `This entry has been checked in for ${program.name}, so it cannot be withdrawn`;
+  }
+  return undefined;
+}
+
+// Places a new program after every existing one
+export async function nextSortOrder(storage: IStorage): Promise<number> {
+  const programs = await storage.getPrograms();
+  return programs.reduce((max, p) => Math.max(max, p.sortOrder ?? 0), 0) + 1;
+}
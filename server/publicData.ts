@@ -0,0 +1,57 @@
+import type { Request } from "express";
+import type {
+  GroupEntryWithDetails, ParticipantLookup, ParticipantRegistration, ParticipantWithTeam, PublicGroupEntry,
+  ResultWithDetails, ScheduleClash, UserRole
+} from "@shared/schema";
+
+// Views of data for callers without a staff session. Anyone holding a code
+// can act as that participant, so codes are left out of everything that can
+// be fetched without one. Chest numbers go too, since they would tie a judged
+// number back to a name. Judges see neither: codes carry the team prefix.
+// Team managers see only their own team's.
+
+const codeViewingRoles: UserRole[] = ["admin", "volunteer"];
+
+export function canSeeCodes(req: Request): boolean {
+  return req.isAuthenticated() && codeViewingRoles.includes(req.user.role as UserRole);
+}
+
+export function canSeeTeamCodes(req: Request, teamId: number): boolean {
+  if (canSeeCodes(req)) return true;
+  return req.isAuthenticated() && req.user.role === "team_manager" && req.user.teamId === teamId;
+}
+
+export function withoutCode<T extends { uniqueCode: string; chestNumber: number | null }>(
+  participant: T
+): Omit<T, "uniqueCode" | "chestNumber"> {
+  const { uniqueCode: _code, chestNumber: _chestNumber, ...rest } = participant;
+  return rest;
+}
+
+export function publicGroupEntry(entry: GroupEntryWithDetails): PublicGroupEntry {
+  return {
+    ...entry,
+    leader: withoutCode(entry.leader),
+    members: entry.members.map(withoutCode),
+  };
+}
+
+export function publicResult(result: ResultWithDetails) {
+  return {
+    ...result,
+    registration: { ...result.registration, participant: withoutCode(result.registration.participant) },
+  };
+}
+
+export function publicClash(clash: ScheduleClash) {
+  return { ...clash, participant: withoutCode(clash.participant) };
+}
+
+// The response to a code lookup. Registrations carry only their program and
+// waitlist place, not another copy of the participant.
+export function participantLookup(
+  participant: ParticipantWithTeam,
+  registrations: ParticipantRegistration[]
+): ParticipantLookup {
+  return { participant, registrations };
+}
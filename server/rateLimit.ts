@@ -0,0 +1,105 @@
+import type { Request, RequestHandler } from "express";
+
+// Fixed-window request limits kept in memory. Counts reset on restart, which
+// is fine for slowing down guessing on a single venue server.
+
+interface RateLimitOptions {
+  windowMs: number;
+  max: number;
+  message: string;
+  // Defaults to the client address; return undefined to skip the limit
+  key?: (req: Request) => string | undefined;
+}
+
+interface Window {
+  count: number;
+  resetAt: number;
+}
+
+export function rateLimit({ windowMs, max, message, key = req => req.ip }: RateLimitOptions): RequestHandler {
+  const windows = new Map<string, Window>();
+
+  return (req, res, next) => {
+    const id = key(req);
+    if (id === undefined) return next();
+
+    const now = Date.now();
+    if (windows.size > 10000) {
+      // Drop finished windows so the map cannot grow without bound
+      windows.forEach((window, windowKey) => {
+        if (window.resetAt <= now) windows.delete(windowKey);
+      });
+    }
+
+    let window = windows.get(id);
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + windowMs };
+      windows.set(id, window);
+    }
+
+    window.count++;
+    if (window.count > max) {
+      res.setHeader("Retry-After", Math.ceil((window.resetAt - now) / 1000));
+      return res.status(429).json({ message });
+    }
+    next();
+  };
+}
+
+interface LockoutOptions {
+  maxFailures: number;
+  windowMs: number;
+  lockMs: number;
+  message: string;
+  // Whether a finished response counts as a failed attempt
+  isFailure: (status: number) => boolean;
+  key?: (req: Request) => string | undefined;
+}
+
+interface Attempts {
+  failures: number;
+  windowEndsAt: number;
+  lockedUntil: number;
+}
+
+// Locks a client out for lockMs after maxFailures failed attempts within
+// windowMs. Successes do not clear the count, so an attacker holding one valid
+// code cannot use it to keep guessing others.
+export function lockout({ maxFailures, windowMs, lockMs, message, isFailure, key = req => req.ip }: LockoutOptions): RequestHandler {
+  const attempts = new Map<string, Attempts>();
+
+  return (req, res, next) => {
+    const id = key(req);
+    if (id === undefined) return next();
+
+    const now = Date.now();
+    const current = attempts.get(id);
+    if (current && current.lockedUntil > now) {
+      res.setHeader("Retry-After", Math.ceil((current.lockedUntil - now) / 1000));
+      return res.status(429).json({ message });
+    }
+
+    if (attempts.size > 10000) {
+      attempts.forEach((entry, entryKey) => {
+        if (entry.windowEndsAt <= now && entry.lockedUntil <= now) attempts.delete(entryKey);
+      });
+    }
+
+    res.on("finish", () => {
+      if (!isFailure(res.statusCode)) return;
+
+      const finishedAt = Date.now();
+      let entry = attempts.get(id);
+      if (!entry || entry.windowEndsAt <= finishedAt) {
+        entry = { failures: 0, windowEndsAt: finishedAt + windowMs, lockedUntil: 0 };
+        attempts.set(id, entry);
+      }
+      entry.failures++;
+      if (entry.failures >= maxFailures) {
+        entry.lockedUntil = finishedAt + lockMs;
+        entry.failures = 0;
+      }
+    });
+    next();
+  };
+}
@@ -0,0 +1,50 @@
+import { randomBytes } from "crypto";
+import type { CodeRecovery, Participant } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { hashPassword, comparePasswords } from "./auth";
+import { nameKey } from "./duplicates";
+
+// Lost code recovery. A participant gets their code back by giving their name,
+// team and the recovery word chosen at registration. Admins can replace a
+// forgotten word with a reset key. Codes are never looked up by name alone.
+
+export const RECOVERY_FAILED_MESSAGE = "We could not find a participant with those details";
+
+// Letters and digits that are hard to confuse when read out
+const RESET_KEY_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+
+// Recovery words are compared without regard to case or surrounding spaces
+function normalizeSecret(secret: string): string {
+  return secret.trim().toLowerCase();
+}
+
+export async function setRecoverySecret(storage: IStorage, participantId: number, secret: string): Promise<void> {
+  await storage.setRecoverySecret(participantId, await hashPassword(normalizeSecret(secret)));
+}
+
+// Replaces the participant's recovery word with a random key for an admin to hand over
+export async function issueResetKey(storage: IStorage, participantId: number): Promise<string> {
+  const key = Array.from(randomBytes(8))
+    .map(byte => RESET_KEY_ALPHABET[byte % RESET_KEY_ALPHABET.length])
+    .join("");
+  await setRecoverySecret(storage, participantId, key);
+  return key;
+}
+
+// Participants in the team whose name matches, ignoring case, spacing and spelling variants
+export async function findNamedParticipants(storage: IStorage, fullName: string, teamId: number): Promise<Participant[]> {
+  const key = nameKey(fullName);
+  return (await storage.getParticipants())
+    .filter(p => p.teamId === teamId && nameKey(p.fullName) === key);
+}
+
+// The participant whose recovery word matches, if any
+export async function recoverParticipant(storage: IStorage, request: CodeRecovery): Promise<Participant | undefined> {
+  for (const participant of await findNamedParticipants(storage, request.fullName, request.teamId)) {
+    const stored = await storage.getRecoverySecret(participant.id);
+    if (stored && await comparePasswords(normalizeSecret(request.secret), stored.secretHash)) {
+      return participant;
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,100 @@
+import type {
+  RegistrationExport, RegistrationPage, RegistrationQuery, RegistrationSortField, RegistrationWithDetails, SafeUser
+} from "@shared/schema";
+
+// Filtering, sorting and paging for the registrations table. Cursors carry the
+// sort value and id of the last row on a page, so rows added or removed while
+// someone pages through do not shift later pages. Storage does the work; the
+// functions over arrays here serve the in-memory drivers.
+
+export interface Cursor {
+  value: string;
+  id: number;
+}
+
+// Team managers only see their own team, whatever team they ask for
+export function forUser<T extends { teamId?: number }>(query: T, user: SafeUser): T {
+  return user.role === "team_manager" ? { ...query, teamId: user.teamId ?? 0 } : query;
+}
+
+export function sortValue(registration: RegistrationWithDetails, field: RegistrationSortField): string {
+  switch (field) {
+    case "participant": return registration.participant.fullName;
+    case "team": return registration.participant.team.name;
+    case "program": return registration.program.name;
+    case "code": return registration.participant.uniqueCode;
+    case "registeredAt": return registration.registeredAt;
+  }
+}
+
+function compareValues(a: string, b: string, field: RegistrationSortField): number {
+  // Timestamps are ISO strings, which already sort by plain comparison
+  if (field === "registeredAt") return a < b ? -1 : a > b ? 1 : 0;
+  return a.localeCompare(b, undefined, { sensitivity: "base", numeric: true });
+}
+
+export function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+export function decodeCursor(text: string): Cursor {
+  try {
+    const cursor = JSON.parse(Buffer.from(text, "base64url").toString("utf8"));
+    if (typeof cursor?.value === "string" && Number.isInteger(cursor?.id)) return cursor;
+  } catch {
+    // Falls through to the error below
+  }
+  throw new Error("Invalid cursor");
+}
+
+// Every registration matching the filters, and among the given ids when
+// there are some, ignoring sort and paging
+export function filterRegistrations(
+  registrations: RegistrationWithDetails[],
+  query: RegistrationExport
+): RegistrationWithDetails[] {
+  const search = query.search?.toLowerCase();
+  const from = query.from ? Date.parse(query.from) : null;
+  const to = query.to ? Date.parse(query.to) : null;
+
+  return registrations.filter(r => {
+    if (query.registrationIds && !query.registrationIds.includes(r.id)) return false;
+    if (query.teamId !== undefined && r.participant.teamId !== query.teamId) return false;
+    if (query.programId !== undefined && r.programId !== query.programId) return false;
+    if (query.type && r.program.type !== query.type) return false;
+    if (query.participationType && r.program.participationType !== query.participationType) return false;
+
+    const registeredAt = Date.parse(r.registeredAt);
+    if (from !== null && registeredAt < from) return false;
+    if (to !== null && registeredAt >= to) return false;
+
+    return !search ||
+      r.participant.fullName.toLowerCase().includes(search) ||
+      r.participant.uniqueCode.toLowerCase().includes(search) ||
+      r.program.name.toLowerCase().includes(search) ||
+      r.participant.team.name.toLowerCase().includes(search);
+  });
+}
+
+export function queryRegistrations(
+  registrations: RegistrationWithDetails[],
+  query: RegistrationQuery
+): RegistrationPage {
+  const direction = query.order === "asc" ? 1 : -1;
+  const compare = (a: Cursor, b: Cursor) =>
+    direction * (compareValues(a.value, b.value, query.sort) || a.id - b.id);
+
+  const rows = filterRegistrations(registrations, query)
+    .map(registration => ({ registration, key: { value: sortValue(registration, query.sort), id: registration.id } }))
+    .sort((a, b) => compare(a.key, b.key));
+
+  const after = query.cursor ? decodeCursor(query.cursor) : null;
+  const remaining = after ? rows.filter(row => compare(row.key, after) > 0) : rows;
+  const page = remaining.slice(0, query.limit);
+
+  return {
+    items: page.map(row => row.registration),
+    total: rows.length,
+    nextCursor: remaining.length > page.length ? encodeCursor(page[page.length - 1].key) : null,
+  };
+}
@@ -0,0 +1,416 @@
+import PDFDocument from "pdfkit";
+import QRCode from "qrcode";
+import type {
+  CallSheetEntry, GroupEntryWithDetails, ParticipantWithTeam, Program, RegistrationWithDetails, ScheduleClash,
+  ScheduleEntry
+} from "@shared/schema";
+import { registerFonts, drawText, wrapText, type PdfDocument, type TextOptions } from "./pdfText";
+
+// PDF reports and cards. Layouts are measured in millimetres like the paper
+// they are printed on; font sizes stay in points.
+
+const A4 = { width: 210, height: 297 };
+const CARD = { width: 85.6, height: 53.98 }; // Credit card size
+
+const mm = (value: number) => (value * 72) / 25.4;
+
+const text = (doc: PdfDocument, value: string, x: number, y: number, options?: TextOptions) =>
+  drawText(doc, value, mm(x), mm(y), options);
+
+const wrap = (doc: PdfDocument, value: string, width: number, options?: TextOptions) =>
+  wrapText(doc, value, mm(width), options);
+
+function rect(doc: PdfDocument, x: number, y: number, width: number, height: number, color: string) {
+  doc.rect(mm(x), mm(y), mm(width), mm(height)).fill(color);
+}
+
+function card(
+  doc: PdfDocument,
+  x: number, y: number, width: number, height: number, radius: number,
+  fill: string, stroke?: { color: string; width: number }
+) {
+  doc.roundedRect(mm(x), mm(y), mm(width), mm(height), mm(radius));
+  if (stroke) {
+    doc.lineWidth(mm(stroke.width)).fillAndStroke(fill, stroke.color);
+  } else {
+    doc.fill(fill);
+  }
+}
+
+// Helvetica has no glyph for a bullet character, so it is drawn instead
+function bullet(doc: PdfDocument, x: number, y: number) {
+  doc.circle(mm(x), mm(y), mm(1)).fill("#334155");
+}
+
+async function renderPdf(
+  size: { width: number; height: number },
+  draw: (doc: PdfDocument) => void | Promise<void>
+): Promise<Buffer> {
+  const doc = new PDFDocument({ size: [mm(size.width), mm(size.height)], margin: 0 });
+  registerFonts(doc);
+
+  const chunks: Buffer[] = [];
+  doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+  const finished = new Promise<Buffer>((resolve, reject) => {
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+
+  await draw(doc);
+  doc.end();
+  return finished;
+}
+
+const today = () => new Date().toLocaleDateString();
+
+export function individualReport(
+  participant: ParticipantWithTeam,
+  registrations: RegistrationWithDetails[],
+  groupEntries: GroupEntryWithDetails[] = []
+): Promise<Buffer> {
+  return renderPdf(A4, (doc) => {
+    // Header
+    rect(doc, 0, 0, 210, 45, "#3b82f6");
+    text(doc, "مهرجان الفنون", 105, 20, { size: 24, bold: true, color: "#ffffff", align: "center" });
+    text(doc, "Arts Festival Registration Report", 105, 30, { size: 16, bold: true, color: "#ffffff", align: "center" });
+    text(doc, "تقرير التسجيل الفردي", 105, 40, { size: 12, bold: true, color: "#ffffff", align: "center" });
+
+    // Participant info card
+    card(doc, 15, 55, 180, 45, 5, "#f8fafc", { color: "#e2e8f0", width: 0.35 });
+    text(doc, "معلومات المشارك | Participant Information", 25, 70, { size: 16, bold: true, color: "#1e293b" });
+
+    const info = { size: 12, color: "#334155" };
+    bullet(doc, 26.5, 80.8);
+    text(doc, `الاسم | Name: ${participant.fullName}`, 32, 82, info);
+    bullet(doc, 26.5, 88.8);
+    text(doc, `الفريق | Team: ${participant.team.name}`, 32, 90, info);
+    bullet(doc, 26.5, 96.8);
+    text(doc, `الرمز | Code: ${participant.uniqueCode}`, 32, 98, info);
+
+    // Programs header
+    let y = 120;
+    rect(doc, 15, y - 5, 180, 20, "#22c55e");
+    text(doc, `البرامج المسجلة | Registered Programs (${registrations.length})`, 25, y + 7, {
+      size: 14, bold: true, color: "#ffffff"
+    });
+    y += 25;
+
+    registrations.forEach((registration, index) => {
+      if (y > 250) {
+        doc.addPage();
+        y = 30;
+      }
+
+      card(doc, 20, y - 5, 170, 30, 3, "#ffffff", { color: "#e2e8f0", width: 0.18 });
+
+      // Program number badge
+      doc.circle(mm(30), mm(y + 5), mm(6)).fill("#6366f1");
+      text(doc, (index + 1).toString(), 30, y + 7, { size: 10, bold: true, color: "#ffffff", align: "center" });
+
+      // Program details
+      text(doc, registration.program.name, 40, y + 2, { size: 12, bold: true, color: "#1e293b" });
+      const groupEntry = groupEntries.find(e => e.id === registration.groupEntryId);
+      const detail = groupEntry
+        ? `Group led by ${groupEntry.leader.fullName} (${groupEntry.members.length} members)`
+        : registration.program.description || "";
+      text(doc, wrap(doc, detail, 145, { size: 10 })[0] ?? "", 40, y + 10, { size: 10, color: "#475569" });
+
+      // Type badges
+      card(doc, 40, y + 15, 25, 6, 2, registration.program.type === "stage" ? "#9333ea" : "#22c55e");
+      text(doc, registration.program.type, 52.5, y + 19.3, { size: 8, color: "#ffffff", align: "center" });
+      card(doc, 70, y + 15, 30, 6, 2, registration.program.participationType === "group" ? "#22c55e" : "#fb923c");
+      text(doc, registration.program.participationType, 85, y + 19.3, { size: 8, color: "#ffffff", align: "center" });
+
+      // Date
+      text(doc, `تاريخ التسجيل: ${new Date(registration.registeredAt).toLocaleDateString("ar-SA")}`, 185, y + 19.3, {
+        size: 8, color: "#6b7280", align: "right"
+      });
+
+      y += 40;
+    });
+
+    // Footer
+    const footerY = A4.height - 25;
+    rect(doc, 0, footerY, 210, 25, "#1e293b");
+    const footer = { size: 10, color: "#ffffff" };
+    text(doc, `تم إنشاء التقرير في: ${new Date().toLocaleDateString("ar-SA")}`, 20, footerY + 10, footer);
+    text(doc, `Generated on: ${today()}`, 20, footerY + 18, footer);
+    text(doc, "Arts Festival Registration System", 190, footerY + 14, { ...footer, align: "right" });
+  });
+}
+
+// The QR code carries the signed badge token scanned at check-in. A chest
+// number given per festival is printed large under it; numbers given per
+// program are listed instead.
+export function idCard(
+  participant: ParticipantWithTeam,
+  registrations: RegistrationWithDetails[],
+  badgeToken: string,
+  chestNumbers: { programName: string | null; chestNumber: number }[] = []
+): Promise<Buffer> {
+  return renderPdf(CARD, async (doc) => {
+    rect(doc, 0, 0, CARD.width, CARD.height, "#6366f1");
+    rect(doc, 2, 2, CARD.width - 4, CARD.height - 4, "#ffffff");
+
+    text(doc, "ARTS FEST PARTICIPANT", 5, 8, { size: 8, color: "#6366f1" });
+    text(doc, wrap(doc, participant.fullName, 54, { size: 12 })[0] ?? "", 5, 16, { size: 12 });
+
+    const details = { size: 8, color: "#6b7280" };
+    text(doc, `Team: ${participant.team.name}`, 5, 22, details);
+    text(doc, `Code: ${participant.uniqueCode}`, 5, 27, details);
+    text(doc, `Programs: ${registrations.length}`, 5, 32, details);
+
+    const qrCode = await QRCode.toBuffer(badgeToken, { margin: 0, errorCorrectionLevel: "M", width: 240 });
+    doc.image(qrCode, mm(61), mm(8), { width: mm(20), height: mm(20) });
+
+    const festivalNumber = chestNumbers.find(n => n.programName === null);
+    if (festivalNumber) {
+      text(doc, "CHEST NO.", 71, 32, { size: 6, color: "#6b7280", align: "center" });
+      text(doc, String(festivalNumber.chestNumber), 71, 40, { size: 18, bold: true, align: "center" });
+    } else if (chestNumbers.length > 0) {
+      const list = chestNumbers.map(n => `${n.programName} (${n.chestNumber})`).join(", ");
+      const small = { size: 7, color: "#6b7280" };
+      wrap(doc, `Chest No.: ${list}`, 54, small).slice(0, 2).forEach((line, index) => {
+        text(doc, line, 5, 37 + index * 4, small);
+      });
+    }
+
+    text(doc, "Arts Fest Registration Portal", 5, 47, { size: 6, color: "#6b7280" });
+    text(doc, new Date().getFullYear().toString(), 70, 47, { size: 6, color: "#6b7280" });
+  });
+}
+
+// ID card for a group entry, listing every member
+export function groupEntryCard(entry: GroupEntryWithDetails, chestNumber: number | null = null): Promise<Buffer> {
+  return renderPdf(CARD, (doc) => {
+    rect(doc, 0, 0, CARD.width, CARD.height, "#22c55e");
+    rect(doc, 2, 2, CARD.width - 4, CARD.height - 4, "#ffffff");
+
+    text(doc, "ARTS FEST GROUP ENTRY", 5, 8, { size: 8, color: "#22c55e" });
+    text(doc, wrap(doc, entry.program.name, 75, { size: 11 })[0] ?? "", 5, 15, { size: 11 });
+    text(doc, `Team: ${entry.team.name} | Entry #${entry.id}`, 5, 20, { size: 8, color: "#6b7280" });
+    if (chestNumber !== null) {
+      text(doc, `Chest No. ${chestNumber}`, 80, 8, { size: 10, bold: true, align: "right" });
+    }
+
+    // Members, leader first
+    const members = [entry.leader, ...entry.members.filter(m => m.id !== entry.leaderId)];
+    members.slice(0, 8).forEach((member, index) => {
+      const x = index < 4 ? 5 : 45;
+      const y = 26 + (index % 4) * 4.5;
+      const label = member.id === entry.leaderId ? `${member.fullName} (Leader)` : member.fullName;
+      text(doc, wrap(doc, `${member.uniqueCode}  ${label}`, 38, { size: 7 })[0] ?? "", x, y, { size: 7 });
+    });
+    if (members.length > 8) {
+      text(doc, `+${members.length - 8} more`, 45, 43, { size: 7 });
+    }
+
+    text(doc, "Arts Fest Registration Portal", 5, 47, { size: 6, color: "#6b7280" });
+    text(doc, new Date().getFullYear().toString(), 70, 47, { size: 6, color: "#6b7280" });
+  });
+}
+
+export function batchReport(registrations: RegistrationWithDetails[]): Promise<Buffer> {
+  return renderPdf(A4, (doc) => {
+    text(doc, "Arts Fest - All Registrations Report", 20, 30, { size: 20 });
+
+    // Summary
+    text(doc, "Summary", 20, 50, { size: 14 });
+    const uniqueParticipants = new Set(registrations.map(r => r.participant.id));
+    const stagePrograms = registrations.filter(r => r.program.type === "stage").length;
+    const nonStagePrograms = registrations.filter(r => r.program.type === "non-stage").length;
+    text(doc, `Total Registrations: ${registrations.length}`, 20, 65);
+    text(doc, `Unique Participants: ${uniqueParticipants.size}`, 20, 75);
+    text(doc, `Stage Programs: ${stagePrograms}`, 20, 85);
+    text(doc, `Non-Stage Programs: ${nonStagePrograms}`, 20, 95);
+
+    // Detailed list
+    text(doc, "Detailed Registrations", 20, 115, { size: 14 });
+
+    // A group entry is listed once, with its members
+    const entries = registrations.filter(r =>
+      !r.groupEntryId || registrations.find(o => o.groupEntryId === r.groupEntryId) === r
+    );
+
+    const line = { size: 10 };
+    let y = 130;
+    entries.forEach((registration, index) => {
+      if (y > 250) {
+        doc.addPage();
+        y = 30;
+      }
+
+      if (registration.groupEntryId) {
+        const members = registrations.filter(r => r.groupEntryId === registration.groupEntryId);
+        const heading = `${index + 1}. Group entry (${members.length} members): ${members.map(m => m.participant.fullName).join(", ")}`;
+        const lines = wrap(doc, heading, 170, line);
+        lines.forEach((value, lineIndex) => text(doc, value, 20, y + lineIndex * 5, line));
+        y += (lines.length - 1) * 5;
+      } else {
+        text(doc, `${index + 1}. ${registration.participant.fullName} (${registration.participant.uniqueCode})`, 20, y, line);
+      }
+      text(doc, `Program: ${registration.program.name}`, 25, y + 8, line);
+      text(doc, `Team: ${registration.participant.team.name} | Type: ${registration.program.type}`, 25, y + 16, line);
+      y += 25;
+    });
+
+    text(doc, `Generated on: ${today()}`, 20, A4.height - 20, { size: 10 });
+  });
+}
+
+// Times are shown in the reader's time zone when one is given
+export function timetable(schedule: ScheduleEntry[], clashes: ScheduleClash[], timeZone?: string): Promise<Buffer> {
+  const formatTime = (value: Date | string) =>
+    new Date(value).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit", timeZone });
+
+  return renderPdf(A4, (doc) => {
+    rect(doc, 0, 0, 210, 30, "#9333ea");
+    text(doc, "Arts Fest - Stage Timetable", 105, 19, { size: 18, bold: true, color: "#ffffff", align: "center" });
+
+    let y = 45;
+    let currentDay = "";
+
+    schedule.forEach((entry) => {
+      if (y > 265) {
+        doc.addPage();
+        y = 30;
+      }
+
+      // Day heading
+      const day = new Date(entry.startsAt).toLocaleDateString(undefined, {
+        weekday: "long", year: "numeric", month: "long", day: "numeric", timeZone
+      });
+      if (day !== currentDay) {
+        currentDay = day;
+        rect(doc, 15, y - 6, 180, 9, "#f3e8ff");
+        text(doc, day, 20, y, { size: 12, bold: true });
+        y += 12;
+      }
+
+      text(doc, `${formatTime(entry.startsAt)} - ${formatTime(entry.endsAt)}`, 20, y, { size: 10, bold: true });
+      text(doc, entry.program.name, 60, y, { size: 10, bold: true });
+      text(doc, entry.venue.name, 190, y, { size: 10, align: "right" });
+      text(doc, entry.program.participationType, 60, y + 5, { size: 8, color: "#6b7280" });
+      y += 12;
+    });
+
+    // Clashes that still need resolving
+    if (clashes.length > 0) {
+      if (y > 240) {
+        doc.addPage();
+        y = 30;
+      }
+
+      y += 5;
+      text(doc, `Clashes (${clashes.length})`, 20, y, { size: 12, bold: true, color: "#dc2626" });
+      y += 8;
+
+      clashes.forEach((clash) => {
+        if (y > 275) {
+          doc.addPage();
+          y = 30;
+        }
+        text(
+          doc,
+          `${clash.participant.fullName} (${clash.participant.uniqueCode}): ${clash.first.program.name} / ${clash.second.program.name}`,
+          20,
+          y,
+          { size: 9, color: "#dc2626" }
+        );
+        y += 6;
+      });
+    }
+
+    text(doc, `Generated on: ${today()}`, 20, A4.height - 15, { size: 10 });
+  });
+}
+
+// Printable list for the stage manager, in order of appearance, with blank
+// columns to fill in by hand. Times are shown in the reader's time zone when
+// one is given.
+export function callSheet(
+  program: Program,
+  entries: CallSheetEntry[],
+  slot?: ScheduleEntry,
+  timeZone?: string
+): Promise<Buffer> {
+  const columns = [
+    { label: "No.", x: 15, width: 10 },
+    { label: "Chest No.", x: 25, width: 18 },
+    { label: "Participant", x: 43, width: 62 },
+    { label: "Team", x: 105, width: 30 },
+    { label: "Code", x: 135, width: 25 },
+    { label: "Signature / Marks", x: 160, width: 35 },
+  ];
+  const left = columns[0].x;
+  const right = 195;
+  const lineHeight = 4.5;
+  const cell = { size: 9 };
+
+  return renderPdf(A4, (doc) => {
+    const rule = (y: number) => {
+      doc.moveTo(mm(left), mm(y)).lineTo(mm(right), mm(y)).lineWidth(0.5).stroke("#94a3b8");
+    };
+    const columnLines = (top: number, bottom: number) => {
+      for (const x of [...columns.map(c => c.x), right]) {
+        doc.moveTo(mm(x), mm(top)).lineTo(mm(x), mm(bottom)).lineWidth(0.5).stroke("#94a3b8");
+      }
+    };
+    const tableHeader = (y: number) => {
+      rect(doc, left, y, right - left, 8, "#f1f5f9");
+      columns.forEach(c => text(doc, c.label, c.x + 1.5, y + 5.5, { size: 8, bold: true }));
+      rule(y);
+      rule(y + 8);
+      columnLines(y, y + 8);
+      return y + 8;
+    };
+
+    rect(doc, 0, 0, 210, 30, "#9333ea");
+    text(doc, "Arts Fest - Call Sheet", 105, 19, { size: 18, bold: true, color: "#ffffff", align: "center" });
+
+    text(doc, wrap(doc, program.name, 180, { size: 16, bold: true })[0] ?? "", left, 43, { size: 16, bold: true });
+    const details = [program.type, program.participationType, `${entries.length} entries`];
+    if (slot) {
+      const formatTime = (value: Date | string) =>
+        new Date(value).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit", timeZone });
+      const day = new Date(slot.startsAt).toLocaleDateString(undefined, { dateStyle: "medium", timeZone });
+      details.push(slot.venue.name, `${day} ${formatTime(slot.startsAt)} - ${formatTime(slot.endsAt)}`);
+    }
+    text(doc, details.join(" | "), left, 50, { size: 10, color: "#6b7280" });
+
+    let y = tableHeader(56);
+    entries.forEach((entry, index) => {
+      const people = entry.members.length > 0 ? entry.members : [entry.registration.participant];
+      const names = people.map(p => {
+        const name = wrap(doc, p.fullName, 58, cell)[0] ?? "";
+        return p.id === entry.registration.participantId && entry.members.length > 0 ? `${name} (Leader)` : name;
+      });
+      const height = Math.max(10, people.length * lineHeight + 5.5);
+
+      if (y + height > A4.height - 20) {
+        doc.addPage();
+        y = tableHeader(20);
+      }
+
+      text(doc, String(index + 1), columns[0].x + 1.5, y + 6, cell);
+      if (entry.chestNumber !== null) {
+        text(doc, String(entry.chestNumber), columns[1].x + 1.5, y + 6, { size: 9, bold: true });
+      }
+      names.forEach((name, line) => {
+        text(doc, name, columns[2].x + 1.5, y + 6 + line * lineHeight, cell);
+        text(doc, people[line].uniqueCode, columns[4].x + 1.5, y + 6 + line * lineHeight, { size: 8 });
+      });
+      text(doc, wrap(doc, entry.registration.participant.team.name, 27, cell)[0] ?? "", columns[3].x + 1.5, y + 6, cell);
+
+      rule(y + height);
+      columnLines(y, y + height);
+      y += height;
+    });
+
+    if (entries.length === 0) {
+      text(doc, "No confirmed entries", left, y + 8, { size: 10, color: "#6b7280" });
+    }
+
+    text(doc, `Generated on: ${today()}`, 20, A4.height - 10, { size: 8, color: "#6b7280" });
+  });
+}
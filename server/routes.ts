@@ -1,8 +1,76 @@
-import type { Express } from "express";
+import type { Express, Request } from "express";
 import express from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { firstRegistrationSchema, secondRegistrationSchema } from "@shared/schema";
+import { setupAuth, requireRole, seedAdminUser, hashPassword, toSafeUser } from "./auth";
+import {
+  firstRegistrationSchema,
+  secondRegistrationSchema,
+  deleteRegistrationSchema,
+  insertJudgeSchema,
+  programCriteriaSchema,
+  scoreSubmissionSchema,
+  insertVenueSchema,
+  scheduleSlotSchema,
+  appearanceOrderSchema,
+  resultEntrySchema,
+  pointsConfigSchema,
+  registrationRulesSchema,
+  groupEntrySchema,
+  groupRosterSchema,
+  checkInSchema,
+  batchReportSchema,
+  registrationQuerySchema,
+  registrationExportSchema,
+  codeFormatSchema,
+  mergeParticipantsSchema,
+  codeRecoverySchema,
+  programFormSchema,
+  programOrderSchema,
+  programArchiveSchema,
+  teamFormSchema,
+  teamManagerSchema,
+  registrationWindowSchema,
+  registrationExtensionSchema,
+  chestNumberSettingsSchema,
+  chestNumberAssignSchema,
+  type Program,
+  type ParticipantWithTeam,
+  type ProgramOutcome,
+  type SecondRegistrationResult,
+  type ImportResult,
+  type AnonymousProgramResult,
+  type RegistrationExport
+} from "@shared/schema";
+import { isMistypedCode } from "@shared/codes";
+import { validateScores, aggregateResults } from "./judging";
+import { findVenueConflict, findClashes, drawAppearanceOrder } from "./scheduling";
+import { POINTS_SETTING_KEY, getPointsConfig, gradeForScore, computeStandings } from "./standings";
+import { REGISTRATION_RULES_SETTING_KEY, getRegistrationRules, evaluateRegistrationRules } from "./rules";
+import { signParticipantToken, verifyParticipantToken } from "./badges";
+import { CODE_FORMAT_SETTING_KEY, MISTYPED_CODE_MESSAGE, getCodeFormat, generateParticipantCode } from "./codes";
+import { individualReport, idCard, groupEntryCard, batchReport, timetable } from "./reports";
+import { readSpreadsheet, planImport, applyImport } from "./imports";
+import { findLikelyDuplicates, findDuplicatePairs, nameKey, nameSimilarity, DUPLICATE_THRESHOLD } from "./duplicates";
+import { RECOVERY_FAILED_MESSAGE, setRecoverySecret, issueResetKey, findNamedParticipants, recoverParticipant } from "./recovery";
+import { rateLimit, lockout } from "./rateLimit";
+import { toProgramValues, programChangeProblem, nextSortOrder, withdrawalProblem } from "./programs";
+import {
+  REGISTRATION_WINDOW_SETTING_KEY, getRegistrationWindow, programWindows, registrationWindowProblem
+} from "./windows";
+import { startsWaitlisted, promoteFromWaitlist, withWaitlistPositions } from "./waitlist";
+import { teamCodeProblem, teamDeleteProblem, teamDashboard } from "./teams";
+import { forUser } from "./registrationQuery";
+import { festivalStatistics } from "./statistics";
+import { registrationsWorkbook } from "./workbook";
+import { programCallSheet, callSheetsZip } from "./callSheets";
+import {
+  CHEST_NUMBER_SETTING_KEY, getChestNumberSettings, assignChestNumbers, chestNumberOf, judgingEntries, cardChestNumbers
+} from "./chestNumbers";
+import { canSeeCodes, canSeeTeamCodes, publicGroupEntry, publicResult, publicClash, participantLookup } from "./publicData";
+import {
+  resolveRoster, validateRoster, checkRosterAdditions, competitorRegistrations, withGroupDetails, groupEntryActor
+} from "./groups";
 import multer from "multer";
 import path from "path";
 import fs from "fs";
@@ -27,8 +95,75 @@ const upload = multer({
   },
 });
 
+// Spreadsheets are parsed straight from memory and never written to disk
+const spreadsheetUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 5 * 1024 * 1024, // 5MB limit
+  },
+  fileFilter: (req, file, cb) => {
+    if (/\.(csv|xlsx)$/i.test(file.originalname)) {
+      cb(null, true);
+    } else {
+      cb(new Error('Only CSV and XLSX files are allowed'));
+    }
+  },
+});
+
+// Code recovery attempts, limited per client and per name so a code cannot be
+// guessed out by trying recovery words
+const recoveryLimits = [
+  rateLimit({
+    windowMs: 15 * 60 * 1000,
+    max: 10,
+    message: "Too many recovery attempts. Please wait 15 minutes and try again.",
+  }),
+  rateLimit({
+    windowMs: 60 * 60 * 1000,
+    max: 5,
+    message: "Too many recovery attempts for this name. Please ask an admin for help.",
+    key: req => typeof req.body?.fullName === "string"
+      ? `${req.body.teamId}:${nameKey(req.body.fullName)}`
+      : undefined,
+  }),
+];
+
+// Requests that act on a participant's code, limited per client and per code.
+// Repeated wrong codes lock the client out so codes cannot be enumerated.
+// Staff sessions are not limited.
+function codeFrom(req: Request): string | undefined {
+  if (canSeeCodes(req)) return undefined;
+  const code = req.params.code ?? req.body?.uniqueCode ?? req.body?.leaderCode ?? req.query.code;
+  return typeof code === "string" ? code.trim().toUpperCase() : undefined;
+}
+
+const codeLimits = [
+  rateLimit({
+    windowMs: 60 * 1000,
+    max: 30,
+    message: "Too many requests. Please wait a minute and try again.",
+    key: req => (canSeeCodes(req) ? undefined : req.ip),
+  }),
+  rateLimit({
+    windowMs: 15 * 60 * 1000,
+    max: 30,
+    message: "This code has been used too often. Please try again later.",
+    key: codeFrom,
+  }),
+  lockout({
+    maxFailures: 10,
+    windowMs: 15 * 60 * 1000,
+    lockMs: 15 * 60 * 1000,
+    message: "Too many invalid codes. Please wait 15 minutes and try again.",
+    isFailure: status => status === 403 || status === 404,
+    key: req => (canSeeCodes(req) ? undefined : req.ip),
+  }),
+];
+
 export async function registerRoutes(app: Express): Promise<Server> {
-  
+  setupAuth(app);
+  await seedAdminUser();
+
   // Get teams
   app.get("/api/teams", async (req, res) => {
     try {
@@ -39,31 +174,387 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get programs
+  // Create a team
+  app.post("/api/teams", requireRole("admin"), async (req, res) => {
+    try {
+      const validatedData = teamFormSchema.parse(req.body);
+
+      const teams = await storage.getTeams();
+      if (teams.some(t => t.name.toLowerCase() === validatedData.name.toLowerCase())) {
+        return res.status(409).json({ message: `A team named ${validatedData.name} already exists` });
+      }
+      const problem = await teamCodeProblem(storage, undefined, validatedData.code);
+      if (problem) {
+        return res.status(409).json({ message: problem });
+      }
+
+      const team = await storage.createTeam({
+        ...validatedData,
+        color: validatedData.color ?? null,
+        logo: validatedData.logo ?? null,
+      });
+
+      await storage.createAuditLog({
+        action: "team.create",
+        entityType: "team",
+        entityId: team.id,
+        actor: `user:${req.user!.username}`,
+        details: team
+      });
+
+      res.json(team);
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(400).json({ message: error.message });
+      } else {
+        res.status(500).json({ message: "Failed to create team" });
+      }
+    }
+  });
+
+  // Update a team. A new code only applies to codes issued from now on.
+  app.put("/api/teams/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const teamId = parseInt(req.params.id);
+      const validatedData = teamFormSchema.parse(req.body);
+
+      const team = await storage.getTeam(teamId);
+      if (!team) {
+        return res.status(404).json({ message: "Team not found" });
+      }
+
+      const teams = await storage.getTeams();
+      if (teams.some(t => t.id !== teamId && t.name.toLowerCase() === validatedData.name.toLowerCase())) {
+        return res.status(409).json({ message: `A team named ${validatedData.name} already exists` });
+      }
+      if (validatedData.code !== team.code) {
+        const problem = await teamCodeProblem(storage, team, validatedData.code);
+        if (problem) {
+          return res.status(409).json({ message: problem });
+        }
+      }
+
+      const updated = await storage.updateTeam(teamId, {
+        ...validatedData,
+        color: validatedData.color ?? null,
+        logo: validatedData.logo ?? null,
+      });
+
+      await storage.createAuditLog({
+        action: "team.update",
+        entityType: "team",
+        entityId: teamId,
+        actor: `user:${req.user!.username}`,
+        details: { before: team, after: updated }
+      });
+
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(400).json({ message: error.message });
+      } else {
+        res.status(500).json({ message: "Failed to update team" });
+      }
+    }
+  });
+
+  // Delete a team with no participants or managers
+  app.delete("/api/teams/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const teamId = parseInt(req.params.id);
+      const team = await storage.getTeam(teamId);
+      if (!team) {
+        return res.status(404).json({ message: "Team not found" });
+      }
+
+      const problem = await teamDeleteProblem(storage, team);
+      if (problem) {
+        return res.status(409).json({ message: problem });
+      }
+
+      await storage.deleteTeam(teamId);
+      await storage.createAuditLog({
+        action: "team.delete",
+        entityType: "team",
+        entityId: teamId,
+        actor: `user:${req.user!.username}`,
+        details: team
+      });
+
+      res.json({ message: `${team.name} deleted` });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete team" });
+    }
+  });
+
+  // A team's members, their programs and managers. Team managers only see
+  // their own team.
+  app.get("/api/teams/:id/dashboard", requireRole("admin", "team_manager"), async (req, res) => {
+    try {
+      const teamId = parseInt(req.params.id);
+      const user = req.user!;
+      if (user.role === "team_manager" && user.teamId !== teamId) {
+        return res.status(403).json({ message: "You can only view your own team" });
+      }
+
+      const team = await storage.getTeam(teamId);
+      if (!team) {
+        return res.status(404).json({ message: "Team not found" });
+      }
+
+      res.json(await teamDashboard(storage, team));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch team dashboard" });
+    }
+  });
+
+  // Give a team a new manager login
+  app.post("/api/teams/:id/managers", requireRole("admin"), async (req, res) => {
+    try {
+      const teamId = parseInt(req.params.id);
+      const validatedData = teamManagerSchema.parse(req.body);
+
+      const team = await storage.getTeam(teamId);
+      if (!team) {
+        return res.status(404).json({ message: "Team not found" });
+      }
+      if (await storage.getUserByUsername(validatedData.username)) {
+        return res.status(409).json({ message: "Username already exists" });
+      }
+
+      const user = await storage.createUser({
+        username: validatedData.username,
+        password: await hashPassword(validatedData.password),
+        role: "team_manager",
+        teamId,
+      });
+
+      await storage.createAuditLog({
+        action: "team.manager_add",
+        entityType: "team",
+        entityId: teamId,
+        actor: `user:${req.user!.username}`,
+        details: { userId: user.id, username: user.username }
+      });
+
+      res.json(toSafeUser(user));
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(400).json({ message: error.message });
+      } else {
+        res.status(500).json({ message: "Failed to add team manager" });
+      }
+    }
+  });
+
+  // Remove a team manager's login
+  app.delete("/api/teams/:id/managers/:userId", requireRole("admin"), async (req, res) => {
+    try {
+      const teamId = parseInt(req.params.id);
+      const user = await storage.getUser(parseInt(req.params.userId));
+      if (!user || user.role !== "team_manager" || user.teamId !== teamId) {
+        return res.status(404).json({ message: "Team manager not found" });
+      }
+
+      await storage.deleteUser(user.id);
+      await storage.createAuditLog({
+        action: "team.manager_remove",
+        entityType: "team",
+        entityId: teamId,
+        actor: `user:${req.user!.username}`,
+        details: { userId: user.id, username: user.username }
+      });
+
+      res.json({ message: `${user.username} removed` });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to remove team manager" });
+    }
+  });
+
+  // Get programs. Archived programs are left out unless an admin asks for
+  // them with ?includeArchived=true
   app.get("/api/programs", async (req, res) => {
     try {
       const { type, participationType } = req.query;
+      const includeArchived = req.query.includeArchived === "true" &&
+        req.isAuthenticated() && req.user.role === "admin";
       
+      let programs;
       if (type && typeof type === 'string') {
-        const programs = await storage.getProgramsByType(
+        programs = await storage.getProgramsByType(
           type, 
           participationType as string | undefined
         );
-        res.json(programs);
       } else {
-        const programs = await storage.getPrograms();
-        res.json(programs);
+        programs = await storage.getPrograms();
       }
+      res.json(includeArchived ? programs : programs.filter(p => !p.archived));
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch programs" });
     }
   });
 
-  // Get statistics
+  // Create a program
+  app.post("/api/programs", requireRole("admin"), async (req, res) => {
+    try {
+      const validatedData = programFormSchema.parse(req.body);
+      const program = await storage.createProgram({
+        ...toProgramValues(validatedData),
+        sortOrder: await nextSortOrder(storage),
+      });
+      if (validatedData.criteria) {
+        await storage.replaceProgramCriteria(program.id, validatedData.criteria);
+      }
+
+      await storage.createAuditLog({
+        action: "program.create",
+        entityType: "program",
+        entityId: program.id,
+        actor: `user:${req.user!.username}`,
+        details: { name: program.name }
+      });
+
+      res.status(201).json(program);
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(400).json({ message: error.message });
+      } else {
+        res.status(500).json({ message: "Failed to create program" });
+      }
+    }
+  });
+
+  // Set the order programs are listed in
+  app.put("/api/programs/order", requireRole("admin"), async (req, res) => {
+    try {
+      const { programIds } = programOrderSchema.parse(req.body);
+      const programs = await storage.getPrograms();
+      const unknown = programIds.find(id => !programs.some(p => p.id === id));
+      if (unknown !== undefined) {
+        return res.status(404).json({ message: `Program ${unknown} not found` });
+      }
+
+      // Programs left out of the list keep their order after the listed ones
+      const order = programIds.concat(programs.filter(p => !programIds.includes(p.id)).map(p => p.id));
+      for (let index = 0; index < order.length; index++) {
+        await storage.updateProgram(order[index], { sortOrder: index + 1 });
+      }
+
+      await storage.createAuditLog({
+        action: "program.reorder",
+        entityType: "program",
+        entityId: programIds[0],
+        actor: `user:${req.user!.username}`,
+        details: { programIds }
+      });
+
+      res.json(await storage.getPrograms());
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(400).json({ message: error.message });
+      } else {
+        res.status(500).json({ message: "Failed to reorder programs" });
+      }
+    }
+  });
+
+  // Edit a program. Entries already made are kept, so changes that would
+  // leave them invalid are refused.
+  app.put("/api/programs/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const programId = parseInt(req.params.id);
+      const validatedData = programFormSchema.parse(req.body);
+
+      const program = await storage.getProgram(programId);
+      if (!program) {
+        return res.status(404).json({ message: "Program not found" });
+      }
+
+      const values = toProgramValues(validatedData);
+      const problem = await programChangeProblem(storage, program, values);
+      if (problem) {
+        return res.status(409).json({ message: problem });
+      }
+
+      if (validatedData.criteria) {
+        // Locked sheets were scored against the current criteria
+        const sheets = await storage.getScoreSheetsByProgram(programId);
+        if (sheets.some(sheet => sheet.locked)) {
+          return res.status(409).json({ message: "Criteria cannot be changed after scores have been locked" });
+        }
+      }
+
+      const updated = await storage.updateProgram(programId, values);
+      if (validatedData.criteria) {
+        await storage.replaceProgramCriteria(programId, validatedData.criteria);
+      }
+      // A larger capacity takes entries off the waitlist. A smaller one never
+      // removes places already confirmed.
+      if (updated) {
+        await promoteFromWaitlist(storage, updated, `user:${req.user!.username}`);
+      }
+
+      await storage.createAuditLog({
+        action: "program.update",
+        entityType: "program",
+        entityId: programId,
+        actor: `user:${req.user!.username}`,
+        details: { before: program, after: updated }
+      });
+
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(400).json({ message: error.message });
+      } else {
+        res.status(500).json({ message: "Failed to update program" });
+      }
+    }
+  });
+
+  // Archive a program, or bring it back. Existing registrations are kept.
+  app.put("/api/programs/:id/archived", requireRole("admin"), async (req, res) => {
+    try {
+      const programId = parseInt(req.params.id);
+      const { archived } = programArchiveSchema.parse(req.body);
+
+      const program = await storage.updateProgram(programId, { archived });
+      if (!program) {
+        return res.status(404).json({ message: "Program not found" });
+      }
+
+      await storage.createAuditLog({
+        action: archived ? "program.archive" : "program.unarchive",
+        entityType: "program",
+        entityId: programId,
+        actor: `user:${req.user!.username}`,
+        details: { name: program.name }
+      });
+
+      res.json(program);
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(400).json({ message: error.message });
+      } else {
+        res.status(500).json({ message: "Failed to archive program" });
+      }
+    }
+  });
+
+  // Get headline statistics
   app.get("/api/stats", async (req, res) => {
     try {
-      const stats = await storage.getStats();
-      res.json(stats);
+      const { totals } = await festivalStatistics(storage);
+      res.json(totals);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch statistics" });
+    }
+  });
+
+  // Get statistics broken down by team, program, participation type and day
+  app.get("/api/statistics", requireRole("admin", "team_manager"), async (req, res) => {
+    try {
+      res.json(await festivalStatistics(storage));
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch statistics" });
     }
@@ -88,8 +579,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid team selected" });
       }
 
+      // Names that differ only in spelling need the registrant to confirm
+      if (!validatedData.confirmDuplicate) {
+        const duplicates = findLikelyDuplicates(
+          validatedData.fullName,
+          await storage.getParticipants(),
+          await storage.getTeams()
+        );
+        if (duplicates.length > 0) {
+          return res.status(409).json({
+            message: "This name looks like an existing participant. Check that you are not registered already.",
+            duplicates
+          });
+        }
+      }
+
       // Generate unique code
-      const uniqueCode = await storage.generateUniqueCode(team.code);
+      const uniqueCode = await generateParticipantCode(storage, team);
 
       // Create participant
       const participant = await storage.createParticipant({
@@ -98,6 +604,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         uniqueCode,
         profileImage: null,
       });
+      if (validatedData.recoverySecret) {
+        await setRecoverySecret(storage, participant.id, validatedData.recoverySecret);
+      }
 
       const participantWithTeam = await storage.getParticipantWithTeam(participant.id);
       
@@ -116,67 +625,233 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Validate code and get participant
-  app.get("/api/participant/:code", async (req, res) => {
+  app.get("/api/participant/:code", ...codeLimits, async (req, res) => {
     try {
       const { code } = req.params;
-      
       const participant = await storage.getParticipantByCode(code);
       if (!participant) {
+        if (isMistypedCode(code, await getCodeFormat(storage))) {
+          return res.status(400).json({ message: MISTYPED_CODE_MESSAGE });
+        }
         return res.status(404).json({ message: "Invalid code. Please check and try again." });
       }
 
       const participantWithTeam = await storage.getParticipantWithTeam(participant.id);
       const registrations = await storage.getRegistrationsByParticipantWithDetails(participant.id);
       
-      res.json({ 
-        participant: participantWithTeam,
-        registrations
-      });
+      res.json(participantLookup(participantWithTeam!, await withWaitlistPositions(storage, registrations)));
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch participant data" });
     }
   });
 
+  // Recover a lost code with name, team and recovery word. Failures give the
+  // same answer whether or not the name exists.
+  app.post("/api/participant/recover-code", ...recoveryLimits, async (req, res) => {
+    try {
+      const request = codeRecoverySchema.parse(req.body);
+      const participant = await recoverParticipant(storage, request);
+
+      if (!participant) {
+        for (const named of await findNamedParticipants(storage, request.fullName, request.teamId)) {
+          await storage.createAuditLog({
+            action: "participant.recover_failed",
+            entityType: "participant",
+            entityId: named.id,
+            actor: `ip:${req.ip}`,
+            details: { fullName: request.fullName }
+          });
+        }
+        return res.status(404).json({ message: RECOVERY_FAILED_MESSAGE });
+      }
+
+      await storage.createAuditLog({
+        action: "participant.recover",
+        entityType: "participant",
+        entityId: participant.id,
+        actor: `participant:${participant.uniqueCode}`,
+        details: { ip: req.ip }
+      });
+
+      res.json({
+        participant: await storage.getParticipantWithTeam(participant.id),
+        uniqueCode: participant.uniqueCode,
+        message: "Your code has been found. Please keep it somewhere safe."
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(400).json({ message: error.message });
+      } else {
+        res.status(500).json({ message: "Code recovery failed" });
+      }
+    }
+  });
+
+  // Download a participant's registration report. A single registration can be
+  // picked with ?registrationId=
+  app.get("/api/participant/:code/report.pdf", ...codeLimits, async (req, res) => {
+    try {
+      const participant = await storage.getParticipantByCode(req.params.code);
+      if (!participant) {
+        return res.status(404).json({ message: "Invalid code. Please check and try again." });
+      }
+
+      const participantWithTeam = await storage.getParticipantWithTeam(participant.id);
+      let registrations = await storage.getRegistrationsByParticipantWithDetails(participant.id);
+      if (req.query.registrationId) {
+        const registrationId = parseInt(req.query.registrationId as string);
+        registrations = registrations.filter(r => r.id === registrationId);
+      }
+
+      const entries = await storage.getGroupEntries();
+      const groupEntries = withGroupDetails(
+        entries.filter(e => registrations.some(r => r.groupEntryId === e.id)),
+        await storage.getRegistrationsWithDetails()
+      );
+
+      const pdf = await individualReport(participantWithTeam!, registrations, groupEntries);
+      res.attachment(`${participant.fullName}_Arts_Fest_Report.pdf`).send(pdf);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create report" });
+    }
+  });
+
+  // Download a participant's ID card, with the signed token printed as a QR code
+  app.get("/api/participant/:code/id-card.pdf", ...codeLimits, async (req, res) => {
+    try {
+      const participant = await storage.getParticipantByCode(req.params.code);
+      if (!participant) {
+        return res.status(404).json({ message: "Invalid code. Please check and try again." });
+      }
+
+      const participantWithTeam = await storage.getParticipantWithTeam(participant.id);
+      const registrations = await storage.getRegistrationsByParticipantWithDetails(participant.id);
+      const token = await signParticipantToken(storage, participant);
+      const chestNumbers = cardChestNumbers(participant, registrations, await getChestNumberSettings(storage));
+
+      const pdf = await idCard(participantWithTeam!, registrations, token, chestNumbers);
+      res.attachment(`${participant.fullName}_ID_Card.pdf`).send(pdf);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create ID card" });
+    }
+  });
+
   // Second registration - register for programs
-  app.post("/api/register/second", async (req, res) => {
+  app.post("/api/register/second", ...codeLimits, async (req, res) => {
     try {
       const validatedData = secondRegistrationSchema.parse(req.body);
-      
+
       // Validate participant exists
       const participant = await storage.getParticipantByCode(validatedData.uniqueCode);
       if (!participant) {
+        if (isMistypedCode(validatedData.uniqueCode, await getCodeFormat(storage))) {
+          return res.status(400).json({ message: MISTYPED_CODE_MESSAGE });
+        }
         return res.status(404).json({ message: "Invalid code" });
       }
 
-      // Update profile image if provided
-      if (validatedData.profileImage) {
-        await storage.updateParticipantImage(participant.id, validatedData.profileImage);
+      // Sort the requested programs before writing anything
+      const existingRegistrations = await storage.getRegistrationsByParticipantWithDetails(participant.id);
+      const skipped: ProgramOutcome[] = [];
+      const rejected: ProgramOutcome[] = [];
+      const requestedPrograms: Program[] = [];
+      for (const programId of Array.from(new Set(validatedData.programIds))) {
+        const existing = existingRegistrations.find(r => r.programId === programId);
+        if (existing) {
+          skipped.push({ programId, message: `Already registered for ${existing.program.name}` });
+          continue;
+        }
+        const program = await storage.getProgram(programId);
+        if (!program) {
+          rejected.push({ programId, message: `Program ${programId} not found` });
+        } else if (program.archived) {
+          rejected.push({ programId, message: `${program.name} is no longer open for registration` });
+        } else if (program.participationType === "group") {
+          rejected.push({ programId, message: `${program.name} is a group program. Enter it with your team as a group entry` });
+        } else {
+          const windowProblem = await registrationWindowProblem(
+            storage, program, participant.teamId, req.isAuthenticated() ? req.user : undefined
+          );
+          if (windowProblem) {
+            rejected.push({ programId, message: windowProblem });
+          } else {
+            requestedPrograms.push(program);
+          }
+        }
+      }
+
+      // Count the team's current entries in each requested program
+      const teamEntries = new Map<number, number>();
+      for (const program of requestedPrograms) {
+        const programRegistrations = await storage.getRegistrationsByProgramWithDetails(program.id);
+        teamEntries.set(program.id, programRegistrations.filter(r => r.participant.teamId === participant.teamId).length);
+      }
+
+      const violations = evaluateRegistrationRules({
+        rules: await getRegistrationRules(storage),
+        requested: requestedPrograms,
+        existing: existingRegistrations,
+        teamEntries,
+      });
+      rejected.push(...violations.map(({ programId, message }) => ({ programId, message })));
+
+      // Save nothing if any program is rejected
+      if (rejected.length > 0) {
+        const result: SecondRegistrationResult = {
+          registrations: await withWaitlistPositions(storage, existingRegistrations),
+          added: [],
+          skipped,
+          rejected,
+          message: "Some programs could not be registered",
+        };
+        return res.status(422).json(result);
       }
 
-      // Check for existing registrations to avoid duplicates
-      const existingRegistrations = await storage.getRegistrationsByParticipant(participant.id);
-      const existingProgramIds = existingRegistrations.map(r => r.programId);
+      const created = await storage.registerForPrograms(
+        participant.id,
+        requestedPrograms.map(p => p.id),
+        validatedData.profileImage,
+        requestedPrograms.filter(startsWaitlisted).map(p => p.id)
+      );
 
-      // Register for new programs
-      const newRegistrations = [];
-      for (const programId of validatedData.programIds) {
-        if (!existingProgramIds.includes(programId)) {
-          const registration = await storage.createRegistration({
-            participantId: participant.id,
-            programId
+      const actor = req.isAuthenticated() ? `user:${req.user.username}` : `participant:${participant.uniqueCode}`;
+      for (const program of requestedPrograms.filter(startsWaitlisted)) {
+        await promoteFromWaitlist(storage, program, actor, created.map(r => r.id));
+      }
+      const registrations = await withWaitlistPositions(
+        storage,
+        await storage.getRegistrationsByParticipantWithDetails(participant.id)
+      );
+
+      // A program registered by a concurrent request in the meantime is skipped too
+      const added: ProgramOutcome[] = [];
+      for (const program of requestedPrograms) {
+        const registration = registrations.find(r => r.programId === program.id);
+        if (!created.some(r => r.programId === program.id)) {
+          skipped.push({ programId: program.id, message: `Already registered for ${program.name}` });
+        } else if (registration?.waitlistPosition) {
+          added.push({
+            programId: program.id,
+            message: `${program.name} is full. You are number ${registration.waitlistPosition} on the waitlist`
           });
-          newRegistrations.push(registration);
+        } else {
+          added.push({ programId: program.id, message: `Registered for ${program.name}` });
         }
       }
 
-      // Get updated registrations with details
-      const allRegistrations = await storage.getRegistrationsByParticipantWithDetails(participant.id);
-      
-      res.json({ 
-        registrations: allRegistrations,
-        newRegistrations: newRegistrations.length,
-        message: `Successfully registered for ${newRegistrations.length} program(s)`
-      });
+      const waitlisted = registrations.filter(r => r.waitlistPosition !== null && added.some(a => a.programId === r.programId));
+      const result: SecondRegistrationResult = {
+        registrations,
+        added,
+        skipped,
+        rejected,
+        message: skipped.length > 0
+          ? `Registered for ${added.length} program(s), ${skipped.length} already registered`
+          : waitlisted.length > 0
+            ? `Registered for ${added.length} program(s), ${waitlisted.length} on the waitlist`
+            : `Successfully registered for ${added.length} program(s)`,
+      };
+      res.json(result);
     } catch (error) {
       if (error instanceof Error) {
         res.status(400).json({ message: error.message });
@@ -186,35 +861,278 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Upload profile image
-  app.post("/api/upload/profile", upload.single('image'), async (req, res) => {
+  // Import participants from a spreadsheet. Checks every row and changes
+  // nothing unless dryRun is "false"; then only rows without errors are imported.
+  app.post("/api/import/participants", requireRole("admin", "team_manager"), spreadsheetUpload.single("file"), async (req, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ message: "No file uploaded" });
       }
 
-      // In a real application, you would upload to cloud storage
-      // For now, we'll just return a mock URL
-      const imageUrl = `/uploads/${req.file.filename}`;
-      
-      res.json({ 
-        imageUrl,
-        message: "Image uploaded successfully"
+      const user = req.user!;
+      const dryRun = req.body.dryRun !== "false";
+      const planned = await planImport(storage, await readSpreadsheet(req.file), {
+        user,
+        defaultTeamId: req.body.teamId ? parseInt(req.body.teamId) : undefined,
       });
-    } catch (error) {
-      res.status(500).json({ message: "Image upload failed" });
-    }
-  });
+      const ready = planned.filter(row => row.errors.length === 0).length;
+
+      if (dryRun) {
+        const result: ImportResult = {
+          dryRun,
+          rows: planned,
+          imported: 0,
+          message: `${ready} of ${planned.length} row(s) are ready to import`,
+        };
+        return res.json(result);
+      }
+
+      const result: ImportResult = {
+        dryRun,
+        rows: await applyImport(storage, planned, `user:${user.username}`),
+        imported: ready,
+        message: `Imported ${ready} participant(s)` +
+          (ready < planned.length ? `, skipped ${planned.length - ready} row(s) with errors` : ""),
+      };
+      res.json(result);
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(400).json({ message: error.message });
+      } else {
+        res.status(500).json({ message: "Import failed" });
+      }
+    }
+  });
+
+  // Pairs of participants whose names look like the same person
+  app.get("/api/participants/duplicates", requireRole("admin"), async (req, res) => {
+    try {
+      const pairs = findDuplicatePairs(await storage.getParticipants(), await storage.getTeams());
+      res.json(pairs);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to find duplicate participants" });
+    }
+  });
+
+  // Merge a duplicate participant into another from the same team
+  app.post("/api/participants/merge", requireRole("admin"), async (req, res) => {
+    try {
+      const { keepId, mergeId } = mergeParticipantsSchema.parse(req.body);
+      if (keepId === mergeId) {
+        return res.status(400).json({ message: "Choose two different participants" });
+      }
+
+      const keep = await storage.getParticipant(keepId);
+      const merge = await storage.getParticipant(mergeId);
+      if (!keep || !merge) {
+        return res.status(404).json({ message: "Participant not found" });
+      }
+      if (keep.teamId !== merge.teamId) {
+        return res.status(400).json({ message: "Only participants from the same team can be merged" });
+      }
+
+      // A registration held by both is dropped, which must not lose any judging
+      const kept = await storage.getRegistrationsByParticipant(keepId);
+      const overlapping = (await storage.getRegistrationsByParticipantWithDetails(mergeId))
+        .filter(r => kept.some(k => k.programId === r.programId));
+      const results = await storage.getResultsWithDetails();
+      for (const registration of overlapping) {
+        const sheets = await storage.getScoreSheetsByProgram(registration.programId);
+        if (sheets.some(s => s.registrationId === registration.id) || results.some(r => r.registrationId === registration.id)) {
+          return res.status(409).json({
+            message: `${merge.uniqueCode} has been judged in ${registration.program.name}, which ${keep.uniqueCode} is also registered for`
+          });
+        }
+      }
+
+      const { moved, dropped } = await storage.mergeParticipants(keepId, mergeId);
+
+      await storage.createAuditLog({
+        action: "participant.merge",
+        entityType: "participant",
+        entityId: keepId,
+        actor: `user:${req.user!.username}`,
+        details: {
+          mergedId: mergeId,
+          mergedCode: merge.uniqueCode,
+          mergedName: merge.fullName,
+          moved,
+          dropped
+        }
+      });
+
+      res.json({
+        participant: await storage.getParticipantWithTeam(keepId),
+        moved: moved.length,
+        dropped: dropped.length,
+        message: `Merged ${merge.uniqueCode} into ${keep.uniqueCode}`
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(400).json({ message: error.message });
+      } else {
+        res.status(500).json({ message: "Merge failed" });
+      }
+    }
+  });
+
+  // Find participants by name or code for code recovery
+  app.get("/api/participants/search", requireRole("admin"), async (req, res) => {
+    try {
+      const query = String(req.query.q ?? "").trim();
+      if (query.length < 2) {
+        return res.json([]);
+      }
+
+      const key = nameKey(query);
+      const code = query.toUpperCase();
+      const matches: ParticipantWithTeam[] = [];
+      for (const participant of await storage.getParticipants()) {
+        const participantKey = nameKey(participant.fullName);
+        if (participant.uniqueCode.includes(code) || participantKey.includes(key) ||
+            nameSimilarity(key, participantKey) >= DUPLICATE_THRESHOLD) {
+          const withTeam = await storage.getParticipantWithTeam(participant.id);
+          if (withTeam) matches.push(withTeam);
+        }
+        if (matches.length >= 20) break;
+      }
+      res.json(matches);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to search participants" });
+    }
+  });
+
+  // Replace a participant's recovery word with a one-off reset key
+  app.post("/api/participants/:id/recovery-reset", requireRole("admin"), async (req, res) => {
+    try {
+      const participant = await storage.getParticipant(parseInt(req.params.id));
+      if (!participant) {
+        return res.status(404).json({ message: "Participant not found" });
+      }
+
+      const resetKey = await issueResetKey(storage, participant.id);
+
+      await storage.createAuditLog({
+        action: "participant.recovery_reset",
+        entityType: "participant",
+        entityId: participant.id,
+        actor: `user:${req.user!.username}`,
+        details: { uniqueCode: participant.uniqueCode }
+      });
+
+      res.json({
+        resetKey,
+        message: `Give this key to ${participant.fullName}. It replaces their recovery word.`
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to reset recovery word" });
+    }
+  });
+
+  // Upload profile image. Without a session the participant's ?code= is
+  // required, checked before anything is written to disk.
+  app.post("/api/upload/profile", ...codeLimits, async (req, res, next) => {
+    try {
+      if (req.isAuthenticated()) return next();
+      const code = codeFrom(req);
+      if (!code || !(await storage.getParticipantByCode(code))) {
+        return res.status(404).json({ message: "Invalid code. Please check and try again." });
+      }
+      next();
+    } catch (error) {
+      res.status(500).json({ message: "Image upload failed" });
+    }
+  }, upload.single('image'), async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+
+      // In a real application, you would upload to cloud storage
+      // For now, we'll just return a mock URL
+      const imageUrl = `/uploads/${req.file.filename}`;
+      
+      res.json({ 
+        imageUrl,
+        message: "Image uploaded successfully"
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Image upload failed" });
+    }
+  });
 
   // Delete program registration
-  app.delete("/api/registration/:id", async (req, res) => {
+  // Staff are checked against their role; participants without an account
+  // prove ownership by sending their unique code.
+  app.delete("/api/registration/:id", ...codeLimits, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
+      const { uniqueCode } = deleteRegistrationSchema.parse(req.body ?? {});
+
+      const registration = await storage.getRegistration(id);
+      if (!registration) {
+        return res.status(404).json({ message: "Registration not found" });
+      }
+
+      if (registration.groupEntryId) {
+        return res.status(409).json({ message: "This registration is part of a group entry. Change the group roster instead" });
+      }
+
+      const participant = await storage.getParticipant(registration.participantId);
+      const user = req.isAuthenticated() ? req.user : undefined;
+
+      let actor: string;
+      if (user) {
+        const isAllowed = user.role === "admin" ||
+          (user.role === "team_manager" && participant?.teamId === user.teamId) ||
+          (user.role === "participant" && registration.participantId === user.participantId);
+        if (!isAllowed) {
+          return res.status(403).json({ message: "You can only remove your own registrations" });
+        }
+        actor = `user:${user.username}`;
+      } else if (uniqueCode) {
+        if (participant?.uniqueCode !== uniqueCode) {
+          return res.status(403).json({ message: "You can only remove your own registrations" });
+        }
+        actor = `participant:${uniqueCode}`;
+      } else {
+        return res.status(401).json({ message: "Please provide your unique code or log in" });
+      }
+
+      const program = await storage.getProgram(registration.programId);
+      const windowProblem = program && participant &&
+        await registrationWindowProblem(storage, program, participant.teamId, user);
+      if (windowProblem) {
+        return res.status(409).json({ message: windowProblem });
+      }
+
+      const withdrawal = program && await withdrawalProblem(storage, program, [registration]);
+      if (withdrawal) {
+        return res.status(409).json({ message: withdrawal });
+      }
+
       const success = await storage.deleteRegistration(id);
       
       if (!success) {
         return res.status(404).json({ message: "Registration not found" });
       }
+
+      await storage.createAuditLog({
+        action: "registration.delete",
+        entityType: "registration",
+        entityId: id,
+        actor,
+        details: {
+          participantId: registration.participantId,
+          programId: registration.programId,
+          registeredAt: registration.registeredAt
+        }
+      });
+
+      // The place may go to the next entry on the waitlist
+      if (program && !registration.waitlisted) {
+        await promoteFromWaitlist(storage, program, actor);
+      }
       
       res.json({ message: "Registration deleted successfully" });
     } catch (error) {
@@ -222,13 +1140,1218 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Get audit log
+  app.get("/api/audit-logs", requireRole("admin"), async (req, res) => {
+    try {
+      const entries = await storage.getAuditLogs();
+      res.json(entries);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch audit log" });
+    }
+  });
+
   // Get all registrations (for reports)
-  app.get("/api/registrations", async (req, res) => {
+  app.get("/api/registrations", requireRole("admin", "team_manager"), async (req, res) => {
+    try {
+      const query = registrationQuerySchema.parse(req.query);
+      res.json(await storage.getRegistrationPage(forUser(query, req.user!)));
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(400).json({ message: error.message });
+      } else {
+        res.status(500).json({ message: "Failed to fetch registrations" });
+      }
+    }
+  });
+
+  // Download a PDF report of the selected registrations
+  app.post("/api/reports/registrations", requireRole("admin", "team_manager"), async (req, res) => {
+    try {
+      const { registrationIds } = batchReportSchema.parse(req.body);
+      const registrations = await storage.getRegistrationsMatching(forUser<RegistrationExport>({ registrationIds }, req.user!));
+      if (registrations.length === 0) {
+        return res.status(404).json({ message: "No registrations found" });
+      }
+
+      const pdf = await batchReport(registrations);
+      res.attachment(`Arts_Fest_All_Registrations_${new Date().toISOString().split("T")[0]}.pdf`).send(pdf);
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(400).json({ message: error.message });
+      } else {
+        res.status(500).json({ message: "Failed to create report" });
+      }
+    }
+  });
+
+  // Download an Excel workbook of the registrations matching the table's filters
+  app.post("/api/reports/registrations.xlsx", requireRole("admin", "team_manager"), async (req, res) => {
+    try {
+      const filters = registrationExportSchema.parse(req.body);
+      const registrations = await storage.getRegistrationsMatching(forUser(filters, req.user!));
+      if (registrations.length === 0) {
+        return res.status(404).json({ message: "No registrations found" });
+      }
+
+      const workbook = await registrationsWorkbook(registrations);
+      res.attachment(`Arts_Fest_Registrations_${new Date().toISOString().split("T")[0]}.xlsx`).send(workbook);
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(400).json({ message: error.message });
+      } else {
+        res.status(500).json({ message: "Failed to create workbook" });
+      }
+    }
+  });
+
+  // Get group entries with their members
+  app.get("/api/group-entries", async (req, res) => {
     try {
+      const entries = await storage.getGroupEntries();
       const registrations = await storage.getRegistrationsWithDetails();
-      res.json(registrations);
+      const details = withGroupDetails(entries, registrations);
+      res.json(details.map(entry => canSeeTeamCodes(req, entry.teamId) ? entry : publicGroupEntry(entry)));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch group entries" });
+    }
+  });
+
+  // Get a group entry
+  app.get("/api/group-entries/:id", async (req, res) => {
+    try {
+      const entry = await storage.getGroupEntry(parseInt(req.params.id));
+      if (!entry) {
+        return res.status(404).json({ message: "Group entry not found" });
+      }
+
+      const registrations = await storage.getRegistrationsByProgramWithDetails(entry.programId);
+      const [details] = withGroupDetails([entry], registrations);
+      if (!details) {
+        return res.status(404).json({ message: "Group entry not found" });
+      }
+      res.json(canSeeTeamCodes(req, details.teamId) ? details : publicGroupEntry(details));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch group entry" });
+    }
+  });
+
+  // Download the ID card for a group entry. The card prints every member's
+  // code, so without a staff session a member's ?code= is required.
+  app.get("/api/group-entries/:id/card.pdf", ...codeLimits, async (req, res) => {
+    try {
+      const entry = await storage.getGroupEntry(parseInt(req.params.id));
+      if (!entry) {
+        return res.status(404).json({ message: "Group entry not found" });
+      }
+
+      const registrations = await storage.getRegistrationsByProgramWithDetails(entry.programId);
+      const [details] = withGroupDetails([entry], registrations);
+      if (!details) {
+        return res.status(404).json({ message: "Group entry not found" });
+      }
+
+      const code = typeof req.query.code === "string" ? req.query.code.trim().toUpperCase() : "";
+      if (!canSeeTeamCodes(req, details.teamId) && !details.members.some(m => m.uniqueCode === code)) {
+        return res.status(403).json({ message: "Only members of this group can download its card" });
+      }
+
+      const leaderRegistration = registrations.find(r => r.groupEntryId === entry.id && r.participantId === entry.leaderId);
+      const chestNumber = leaderRegistration
+        ? chestNumberOf(leaderRegistration, await getChestNumberSettings(storage))
+        : null;
+
+      const pdf = await groupEntryCard(details, chestNumber);
+      res.attachment(`${details.team.name}_${details.program.name}_Group_Card.pdf`).send(pdf);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create group card" });
+    }
+  });
+
+  // Enter a team into a group program, led by the participant whose code is given
+  app.post("/api/group-entries", ...codeLimits, async (req, res) => {
+    try {
+      const validatedData = groupEntrySchema.parse(req.body);
+
+      const program = await storage.getProgram(validatedData.programId);
+      if (!program) {
+        return res.status(404).json({ message: "Program not found" });
+      }
+      if (program.archived) {
+        return res.status(409).json({ message: `${program.name} is no longer open for registration` });
+      }
+
+      const leader = await storage.getParticipantByCode(validatedData.leaderCode);
+      if (!leader) {
+        return res.status(404).json({ message: "Invalid code" });
+      }
+
+      const windowProblem = await registrationWindowProblem(
+        storage, program, leader.teamId, req.isAuthenticated() ? req.user : undefined
+      );
+      if (windowProblem) {
+        return res.status(409).json({ message: windowProblem });
+      }
+
+      const roster = await resolveRoster(storage, leader, validatedData.memberCodes);
+      if ("status" in roster) {
+        return res.status(roster.status).json({ message: roster.message });
+      }
+
+      const rosterError = validateRoster(program, leader, roster.members);
+      if (rosterError) {
+        return res.status(400).json({ message: rosterError });
+      }
+
+      // Each team may enter a group program once
+      const existingEntry = await storage.getGroupEntryByProgramAndTeam(program.id, leader.teamId);
+      if (existingEntry) {
+        return res.status(409).json({ message: `Your team already has an entry in ${program.name}` });
+      }
+
+      const problem = await checkRosterAdditions(storage, program, roster.members);
+      if (problem) {
+        const { status, ...body } = problem;
+        return res.status(status).json(body);
+      }
+
+      const { entry, registrations: created } = await storage.createGroupEntry(
+        { programId: program.id, teamId: leader.teamId, leaderId: leader.id },
+        roster.members.map(m => m.id),
+        startsWaitlisted(program)
+      );
+      if (startsWaitlisted(program)) {
+        const actor = req.isAuthenticated() ? `user:${req.user.username}` : `participant:${leader.uniqueCode}`;
+        await promoteFromWaitlist(storage, program, actor, created.map(r => r.id));
+      }
+
+      const [details] = withGroupDetails([entry], await storage.getRegistrationsByProgramWithDetails(program.id));
+      const registrations = await withWaitlistPositions(
+        storage,
+        await storage.getRegistrationsByParticipantWithDetails(leader.id)
+      );
+      const position = registrations.find(r => r.programId === program.id)?.waitlistPosition;
+
+      res.json({
+        entry: details,
+        registrations,
+        message: position
+          ? `${program.name} is full. Your group is number ${position} on the waitlist`
+          : `Entered a group of ${roster.members.length} in ${program.name}`
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(400).json({ message: error.message });
+      } else {
+        res.status(500).json({ message: "Group entry failed" });
+      }
+    }
+  });
+
+  // Replace the members of a group entry
+  app.put("/api/group-entries/:id/members", ...codeLimits, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const validatedData = groupRosterSchema.parse(req.body);
+
+      const entry = await storage.getGroupEntry(id);
+      if (!entry) {
+        return res.status(404).json({ message: "Group entry not found" });
+      }
+
+      const leader = await storage.getParticipant(entry.leaderId);
+      const program = await storage.getProgram(entry.programId);
+      if (!leader || !program) {
+        return res.status(404).json({ message: "Group entry not found" });
+      }
+
+      const access = groupEntryActor(entry, leader, req.isAuthenticated() ? req.user : undefined, validatedData.uniqueCode);
+      if ("status" in access) {
+        return res.status(access.status).json({ message: access.message });
+      }
+
+      const windowProblem = await registrationWindowProblem(
+        storage, program, entry.teamId, req.isAuthenticated() ? req.user : undefined
+      );
+      if (windowProblem) {
+        return res.status(409).json({ message: windowProblem });
+      }
+
+      const roster = await resolveRoster(storage, leader, validatedData.memberCodes);
+      if ("status" in roster) {
+        return res.status(roster.status).json({ message: roster.message });
+      }
+
+      const rosterError = validateRoster(program, leader, roster.members);
+      if (rosterError) {
+        return res.status(400).json({ message: rosterError });
+      }
+
+      const current = (await storage.getRegistrationsByProgramWithDetails(program.id))
+        .filter(r => r.groupEntryId === entry.id);
+      const added = roster.members.filter(m => !current.some(r => r.participantId === m.id));
+      const removed = current.filter(r => !roster.members.some(m => m.id === r.participantId));
+
+      const problem = await checkRosterAdditions(storage, program, added);
+      if (problem) {
+        const { status, ...body } = problem;
+        return res.status(status).json(body);
+      }
+
+      const withdrawal = await withdrawalProblem(storage, program, removed);
+      if (withdrawal) {
+        return res.status(409).json({ message: withdrawal });
+      }
+
+      // New members share the entry's place on the waitlist and its chest
+      // number, if it has them
+      await storage.updateGroupRoster(
+        entry,
+        {
+          memberIds: added.map(m => m.id),
+          waitlisted: current.some(r => r.waitlisted),
+          chestNumber: current.find(r => r.chestNumber != null)?.chestNumber ?? null
+        },
+        removed.map(r => r.id)
+      );
+
+      await storage.createAuditLog({
+        action: "groupEntry.update",
+        entityType: "groupEntry",
+        entityId: entry.id,
+        actor: access.actor,
+        details: {
+          added: added.map(m => m.id),
+          removed: removed.map(r => r.participantId)
+        }
+      });
+
+      const [details] = withGroupDetails([entry], await storage.getRegistrationsByProgramWithDetails(program.id));
+
+      res.json({
+        entry: details,
+        message: `Group roster updated (${added.length} added, ${removed.length} removed)`
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(400).json({ message: error.message });
+      } else {
+        res.status(500).json({ message: "Failed to update group roster" });
+      }
+    }
+  });
+
+  // Withdraw a group entry and all of its members' registrations
+  app.delete("/api/group-entries/:id", ...codeLimits, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { uniqueCode } = deleteRegistrationSchema.parse(req.body ?? {});
+
+      const entry = await storage.getGroupEntry(id);
+      if (!entry) {
+        return res.status(404).json({ message: "Group entry not found" });
+      }
+
+      const leader = await storage.getParticipant(entry.leaderId);
+      const access = groupEntryActor(entry, leader, req.isAuthenticated() ? req.user : undefined, uniqueCode);
+      if ("status" in access) {
+        return res.status(access.status).json({ message: access.message });
+      }
+
+      const program = await storage.getProgram(entry.programId);
+      const windowProblem = program &&
+        await registrationWindowProblem(storage, program, entry.teamId, req.isAuthenticated() ? req.user : undefined);
+      if (windowProblem) {
+        return res.status(409).json({ message: windowProblem });
+      }
+
+      const members = (await storage.getRegistrationsByProgramWithDetails(entry.programId))
+        .filter(r => r.groupEntryId === entry.id);
+      const withdrawal = program && await withdrawalProblem(storage, program, members);
+      if (withdrawal) {
+        return res.status(409).json({ message: withdrawal });
+      }
+
+      await storage.deleteGroupEntry(entry.id);
+
+      await storage.createAuditLog({
+        action: "groupEntry.delete",
+        entityType: "groupEntry",
+        entityId: entry.id,
+        actor: access.actor,
+        details: {
+          programId: entry.programId,
+          teamId: entry.teamId,
+          leaderId: entry.leaderId,
+          memberIds: members.map(r => r.participantId)
+        }
+      });
+
+      if (program && !members.some(r => r.waitlisted)) {
+        await promoteFromWaitlist(storage, program, access.actor);
+      }
+
+      res.json({ message: "Group entry withdrawn" });
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch registrations" });
+      res.status(500).json({ message: "Failed to withdraw group entry" });
+    }
+  });
+
+  // Record a participant's arrival for a program from their ID card
+  app.post("/api/check-ins", requireRole("admin", "volunteer"), async (req, res) => {
+    try {
+      const validatedData = checkInSchema.parse(req.body);
+
+      const participantId = await verifyParticipantToken(storage, validatedData.token);
+      if (!participantId) {
+        return res.status(400).json({ message: "This ID card could not be verified" });
+      }
+
+      const participant = await storage.getParticipantWithTeam(participantId);
+      if (!participant) {
+        return res.status(404).json({ message: "Participant not found" });
+      }
+
+      const registrations = await storage.getRegistrationsByParticipant(participant.id);
+      const registration = registrations.find(r => r.programId === validatedData.programId);
+      if (!registration) {
+        return res.status(409).json({
+          participant,
+          message: `${participant.fullName} is not registered for this program`
+        });
+      }
+      if (registration.waitlisted) {
+        return res.status(409).json({
+          participant,
+          message: `${participant.fullName} is still on the waitlist for this program`
+        });
+      }
+
+      const existing = await storage.getCheckIn(participant.id, validatedData.programId);
+      if (existing) {
+        return res.json({
+          checkIn: existing,
+          participant,
+          alreadyCheckedIn: true,
+          message: `${participant.fullName} already checked in`
+        });
+      }
+
+      const checkIn = await storage.createCheckIn({
+        participantId: participant.id,
+        programId: validatedData.programId,
+        checkedInBy: req.user!.username
+      });
+
+      res.json({
+        checkIn,
+        participant,
+        alreadyCheckedIn: false,
+        message: `${participant.fullName} checked in`
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(400).json({ message: error.message });
+      } else {
+        res.status(500).json({ message: "Check-in failed" });
+      }
+    }
+  });
+
+  // Get attendance for a program: every registered participant and their check-in
+  app.get("/api/programs/:id/attendance", requireRole("admin", "volunteer"), async (req, res) => {
+    try {
+      const programId = parseInt(req.params.id);
+      const registrations = (await storage.getRegistrationsByProgramWithDetails(programId)).filter(r => !r.waitlisted);
+      const checkIns = await storage.getCheckInsByProgram(programId);
+
+      res.json(registrations.map(registration => ({
+        registration,
+        checkIn: checkIns.find(c => c.participantId === registration.participantId) ?? null
+      })));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch attendance" });
+    }
+  });
+
+  // Get judges
+  app.get("/api/judges", requireRole("admin", "judge"), async (req, res) => {
+    try {
+      const judges = await storage.getJudges();
+      res.json(judges);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch judges" });
+    }
+  });
+
+  // Create judge
+  app.post("/api/judges", requireRole("admin"), async (req, res) => {
+    try {
+      const validatedData = insertJudgeSchema.parse(req.body);
+      const judge = await storage.createJudge(validatedData);
+      res.json(judge);
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(400).json({ message: error.message });
+      } else {
+        res.status(500).json({ message: "Failed to create judge" });
+      }
+    }
+  });
+
+  // Get judging criteria for a program
+  app.get("/api/programs/:id/criteria", requireRole("admin", "judge"), async (req, res) => {
+    try {
+      const programId = parseInt(req.params.id);
+      const criteria = await storage.getCriteriaByProgram(programId);
+      res.json(criteria);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch judging criteria" });
+    }
+  });
+
+  // Replace judging criteria for a program
+  app.put("/api/programs/:id/criteria", requireRole("admin"), async (req, res) => {
+    try {
+      const programId = parseInt(req.params.id);
+      const validatedData = programCriteriaSchema.parse(req.body);
+
+      const program = await storage.getProgram(programId);
+      if (!program) {
+        return res.status(404).json({ message: "Program not found" });
+      }
+
+      // Locked sheets were scored against the current criteria
+      const sheets = await storage.getScoreSheetsByProgram(programId);
+      if (sheets.some(sheet => sheet.locked)) {
+        return res.status(409).json({ message: "Criteria cannot be changed after scores have been locked" });
+      }
+
+      const criteria = await storage.replaceProgramCriteria(programId, validatedData);
+      res.json(criteria);
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(400).json({ message: error.message });
+      } else {
+        res.status(500).json({ message: "Failed to update judging criteria" });
+      }
+    }
+  });
+
+  // Get score sheets for a program
+  app.get("/api/programs/:id/scores", requireRole("admin", "judge"), async (req, res) => {
+    try {
+      const programId = parseInt(req.params.id);
+      const sheets = await storage.getScoreSheetsByProgram(programId);
+      res.json(sheets);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch score sheets" });
+    }
+  });
+
+  // Get aggregated results for a program
+  app.get("/api/programs/:id/results", requireRole("admin", "judge"), async (req, res) => {
+    try {
+      const programId = parseInt(req.params.id);
+
+      const program = await storage.getProgram(programId);
+      if (!program) {
+        return res.status(404).json({ message: "Program not found" });
+      }
+
+      const registrations = competitorRegistrations(
+        await storage.getRegistrationsByProgramWithDetails(programId),
+        await storage.getGroupEntries()
+      );
+      const sheets = await storage.getScoreSheetsByProgram(programId);
+      const criteria = await storage.getCriteriaByProgram(programId);
+      const results = aggregateResults(registrations, sheets, criteria);
+
+      // Judges see entries by chest number only
+      if (req.user!.role === "judge") {
+        const settings = await getChestNumberSettings(storage);
+        const anonymous: AnonymousProgramResult[] = results.map(({ registration, ...result }) => ({
+          ...result,
+          entry: {
+            registrationId: registration.id,
+            chestNumber: chestNumberOf(registration, settings),
+            appearanceOrder: registration.appearanceOrder ?? null
+          }
+        }));
+        return res.json({ program, criteria, results: anonymous });
+      }
+
+      res.json({ program, criteria, results });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch results" });
+    }
+  });
+
+  // A program's entries as judges see them: chest numbers in order of appearance
+  app.get("/api/programs/:id/judging-entries", requireRole("admin", "judge"), async (req, res) => {
+    try {
+      const programId = parseInt(req.params.id);
+
+      const program = await storage.getProgram(programId);
+      if (!program) {
+        return res.status(404).json({ message: "Program not found" });
+      }
+
+      const [registrations, groupEntries, settings] = await Promise.all([
+        storage.getRegistrationsByProgramWithDetails(programId),
+        storage.getGroupEntries(),
+        getChestNumberSettings(storage)
+      ]);
+      res.json(judgingEntries(registrations, groupEntries, settings));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch judging entries" });
+    }
+  });
+
+  // Submit a judge's score sheet for a registration
+  app.post("/api/scores", requireRole("admin", "judge"), async (req, res) => {
+    try {
+      const validatedData = scoreSubmissionSchema.parse(req.body);
+
+      // Judges can only submit their own score sheets
+      if (req.user!.role === "judge" && validatedData.judgeId !== req.user!.judgeId) {
+        return res.status(403).json({ message: "You can only submit your own scores" });
+      }
+
+      const judge = await storage.getJudge(validatedData.judgeId);
+      if (!judge) {
+        return res.status(404).json({ message: "Judge not found" });
+      }
+
+      const registration = await storage.getRegistration(validatedData.registrationId);
+      if (!registration) {
+        return res.status(404).json({ message: "Registration not found" });
+      }
+
+      // Group entries are scored once, on the leader's registration
+      if (registration.groupEntryId) {
+        const entry = await storage.getGroupEntry(registration.groupEntryId);
+        if (entry && entry.leaderId !== registration.participantId) {
+          return res.status(400).json({ message: "Score this group through its leader's registration" });
+        }
+      }
+
+      const criteria = await storage.getCriteriaByProgram(registration.programId);
+      const scoreError = validateScores(validatedData.scores, criteria);
+      if (scoreError) {
+        return res.status(400).json({ message: scoreError });
+      }
+
+      const existingSheet = await storage.getScoreSheetByJudgeAndRegistration(judge.id, registration.id);
+      if (existingSheet?.locked) {
+        return res.status(409).json({ message: "This score sheet is locked" });
+      }
+
+      const sheet = await storage.saveScoreSheet(validatedData);
+      res.json({
+        sheet,
+        message: "Scores submitted successfully"
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(400).json({ message: error.message });
+      } else {
+        res.status(500).json({ message: "Score submission failed" });
+      }
+    }
+  });
+
+  // Lock a score sheet so it can no longer be edited
+  app.post("/api/scores/:id/lock", requireRole("admin", "judge"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+
+      const existingSheet = await storage.getScoreSheet(id);
+      if (!existingSheet) {
+        return res.status(404).json({ message: "Score sheet not found" });
+      }
+      if (req.user!.role === "judge" && existingSheet.judgeId !== req.user!.judgeId) {
+        return res.status(403).json({ message: "You can only lock your own score sheets" });
+      }
+
+      const sheet = await storage.lockScoreSheet(id);
+
+      res.json({
+        sheet,
+        message: "Score sheet locked"
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to lock score sheet" });
+    }
+  });
+
+  // Publish grades and positions for a program from its locked score sheets
+  app.post("/api/programs/:id/results/publish", requireRole("admin"), async (req, res) => {
+    try {
+      const programId = parseInt(req.params.id);
+
+      const program = await storage.getProgram(programId);
+      if (!program) {
+        return res.status(404).json({ message: "Program not found" });
+      }
+
+      const sheets = await storage.getScoreSheetsByProgram(programId);
+      if (sheets.length === 0) {
+        return res.status(409).json({ message: "No scores have been submitted for this program" });
+      }
+      if (sheets.some(sheet => !sheet.locked)) {
+        return res.status(409).json({ message: "All score sheets must be locked before publishing" });
+      }
+
+      const registrations = competitorRegistrations(
+        await storage.getRegistrationsByProgramWithDetails(programId),
+        await storage.getGroupEntries()
+      );
+      const criteria = await storage.getCriteriaByProgram(programId);
+      const pointsConfig = await getPointsConfig(storage);
+
+      const published = [];
+      for (const result of aggregateResults(registrations, sheets, criteria)) {
+        published.push(await storage.saveResult({
+          registrationId: result.registration.id,
+          grade: gradeForScore(result.score, pointsConfig),
+          position: result.rank <= 3 ? result.rank : null,
+        }));
+      }
+
+      res.json({
+        results: published,
+        message: `Published ${published.length} result(s) for ${program.name}`
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to publish results" });
+    }
+  });
+
+  // Record a grade and position by hand
+  app.put("/api/results/:registrationId", requireRole("admin"), async (req, res) => {
+    try {
+      const registrationId = parseInt(req.params.registrationId);
+      const validatedData = resultEntrySchema.parse(req.body);
+
+      const registration = await storage.getRegistration(registrationId);
+      if (!registration) {
+        return res.status(404).json({ message: "Registration not found" });
+      }
+
+      const result = await storage.saveResult({ registrationId, ...validatedData });
+      res.json(result);
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(400).json({ message: error.message });
+      } else {
+        res.status(500).json({ message: "Failed to save result" });
+      }
+    }
+  });
+
+  // Get all published results
+  app.get("/api/results", async (req, res) => {
+    try {
+      const results = await storage.getResultsWithDetails();
+      res.json(results.map(result =>
+        canSeeTeamCodes(req, result.registration.participant.teamId) ? result : publicResult(result)
+      ));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch results" });
+    }
+  });
+
+  // Get points configuration
+  app.get("/api/settings/points", async (req, res) => {
+    try {
+      res.json(await getPointsConfig(storage));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch points configuration" });
+    }
+  });
+
+  // Update points configuration
+  app.put("/api/settings/points", requireRole("admin"), async (req, res) => {
+    try {
+      const validatedData = pointsConfigSchema.parse(req.body);
+      const pointsConfig = await storage.saveSetting(POINTS_SETTING_KEY, validatedData);
+      res.json(pointsConfig);
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(400).json({ message: error.message });
+      } else {
+        res.status(500).json({ message: "Failed to update points configuration" });
+      }
+    }
+  });
+
+  // Get registration rules
+  app.get("/api/settings/registration-rules", async (req, res) => {
+    try {
+      res.json(await getRegistrationRules(storage));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch registration rules" });
+    }
+  });
+
+  // Update registration rules
+  app.put("/api/settings/registration-rules", requireRole("admin"), async (req, res) => {
+    try {
+      const validatedData = registrationRulesSchema.parse(req.body);
+      const rules = await storage.saveSetting(REGISTRATION_RULES_SETTING_KEY, validatedData);
+      res.json(rules);
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(400).json({ message: error.message });
+      } else {
+        res.status(500).json({ message: "Failed to update registration rules" });
+      }
+    }
+  });
+
+  // Get the festival's registration window
+  app.get("/api/settings/registration-window", async (req, res) => {
+    try {
+      res.json(await getRegistrationWindow(storage));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch registration window" });
+    }
+  });
+
+  // Update the festival's registration window
+  app.put("/api/settings/registration-window", requireRole("admin"), async (req, res) => {
+    try {
+      const validatedData = registrationWindowSchema.parse(req.body);
+      const window = await storage.saveSetting(REGISTRATION_WINDOW_SETTING_KEY, validatedData);
+      res.json(window);
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(400).json({ message: error.message });
+      } else {
+        res.status(500).json({ message: "Failed to update registration window" });
+      }
+    }
+  });
+
+  // When each program takes registrations, for a team when ?teamId= is given
+  app.get("/api/registration-windows", async (req, res) => {
+    try {
+      const teamId = typeof req.query.teamId === "string" ? parseInt(req.query.teamId) : undefined;
+      res.json(await programWindows(storage, Number.isNaN(teamId) ? undefined : teamId));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch registration windows" });
+    }
+  });
+
+  // Get registration extensions
+  app.get("/api/registration-extensions", requireRole("admin"), async (req, res) => {
+    try {
+      res.json(await storage.getRegistrationExtensions());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch registration extensions" });
+    }
+  });
+
+  // Keep registration open longer for one team
+  app.post("/api/registration-extensions", requireRole("admin"), async (req, res) => {
+    try {
+      const validatedData = registrationExtensionSchema.parse(req.body);
+
+      const team = await storage.getTeam(validatedData.teamId);
+      if (!team) {
+        return res.status(404).json({ message: "Team not found" });
+      }
+      if (validatedData.programId && !(await storage.getProgram(validatedData.programId))) {
+        return res.status(404).json({ message: "Program not found" });
+      }
+
+      const extension = await storage.createRegistrationExtension({
+        teamId: validatedData.teamId,
+        programId: validatedData.programId ?? null,
+        closesAt: validatedData.closesAt,
+        reason: validatedData.reason || null,
+        createdBy: req.user!.username,
+      });
+
+      await storage.createAuditLog({
+        action: "registration.extend",
+        entityType: "team",
+        entityId: team.id,
+        actor: `user:${req.user!.username}`,
+        details: extension
+      });
+
+      res.json(extension);
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(400).json({ message: error.message });
+      } else {
+        res.status(500).json({ message: "Failed to extend registration" });
+      }
+    }
+  });
+
+  // Withdraw a registration extension
+  app.delete("/api/registration-extensions/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const extension = (await storage.getRegistrationExtensions()).find(e => e.id === id);
+      if (!extension) {
+        return res.status(404).json({ message: "Extension not found" });
+      }
+
+      await storage.deleteRegistrationExtension(id);
+      await storage.createAuditLog({
+        action: "registration.extension_remove",
+        entityType: "team",
+        entityId: extension.teamId,
+        actor: `user:${req.user!.username}`,
+        details: extension
+      });
+
+      res.json({ message: "Extension removed" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to remove extension" });
+    }
+  });
+
+  // Get the format used for new participant codes
+  app.get("/api/settings/code-format", async (req, res) => {
+    try {
+      res.json(await getCodeFormat(storage));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch code format" });
+    }
+  });
+
+  // Update the code format. Codes already issued keep working.
+  app.put("/api/settings/code-format", requireRole("admin"), async (req, res) => {
+    try {
+      const validatedData = codeFormatSchema.parse(req.body);
+      const format = await storage.saveSetting(CODE_FORMAT_SETTING_KEY, validatedData);
+      res.json(format);
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(400).json({ message: error.message });
+      } else {
+        res.status(500).json({ message: "Failed to update code format" });
+      }
+    }
+  });
+
+  // Get how chest numbers are given out. Team ranges would tell judges which
+  // team a number belongs to, so only admins see them.
+  app.get("/api/settings/chest-numbers", requireRole("admin"), async (req, res) => {
+    try {
+      res.json(await getChestNumberSettings(storage));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch chest number settings" });
+    }
+  });
+
+  // Update how chest numbers are given out. Numbers already given are kept
+  // until they are assigned again.
+  app.put("/api/settings/chest-numbers", requireRole("admin"), async (req, res) => {
+    try {
+      const validatedData = chestNumberSettingsSchema.parse(req.body);
+      const settings = await storage.saveSetting(CHEST_NUMBER_SETTING_KEY, validatedData);
+      res.json(settings);
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(400).json({ message: error.message });
+      } else {
+        res.status(500).json({ message: "Failed to update chest number settings" });
+      }
+    }
+  });
+
+  // Give out chest numbers, for one program or all of them
+  app.post("/api/chest-numbers/assign", requireRole("admin"), async (req, res) => {
+    try {
+      const validatedData = chestNumberAssignSchema.parse(req.body);
+      const settings = await getChestNumberSettings(storage);
+
+      if (validatedData.programId !== undefined && !(await storage.getProgram(validatedData.programId))) {
+        return res.status(404).json({ message: "Program not found" });
+      }
+
+      const outcome = await assignChestNumbers(storage, settings, validatedData);
+      if ("problem" in outcome) {
+        return res.status(409).json({ message: outcome.problem });
+      }
+
+      await storage.createAuditLog({
+        action: "chestNumber.assign",
+        entityType: "program",
+        entityId: validatedData.programId ?? 0, // 0 for every program
+        actor: `user:${req.user!.username}`,
+        details: { ...validatedData, scope: settings.scope, method: settings.method, assigned: outcome.assigned }
+      });
+
+      res.json(outcome);
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(400).json({ message: error.message });
+      } else {
+        res.status(500).json({ message: "Failed to assign chest numbers" });
+      }
+    }
+  });
+
+  // Team championship standings
+  app.get("/api/standings", async (req, res) => {
+    try {
+      const teams = await storage.getTeams();
+      const results = await storage.getResultsWithDetails();
+      const pointsConfig = await getPointsConfig(storage);
+
+      res.json(computeStandings(teams, results, pointsConfig));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch standings" });
+    }
+  });
+
+  // Get venues
+  app.get("/api/venues", async (req, res) => {
+    try {
+      const venues = await storage.getVenues();
+      res.json(venues);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch venues" });
+    }
+  });
+
+  // Create venue
+  app.post("/api/venues", requireRole("admin"), async (req, res) => {
+    try {
+      const validatedData = insertVenueSchema.parse(req.body);
+      const venue = await storage.createVenue(validatedData);
+      res.json(venue);
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(400).json({ message: error.message });
+      } else {
+        res.status(500).json({ message: "Failed to create venue" });
+      }
+    }
+  });
+
+  // Get the stage timetable along with any participant clashes
+  app.get("/api/schedule", async (req, res) => {
+    try {
+      const schedule = await storage.getScheduleWithDetails();
+      const registrations = await storage.getRegistrationsWithDetails();
+      const clashes = findClashes(schedule, registrations);
+
+      res.json({
+        schedule,
+        clashes: clashes.map(clash => canSeeTeamCodes(req, clash.participant.teamId) ? clash : publicClash(clash))
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch schedule" });
+    }
+  });
+
+  // Download the stage timetable, with times shown in ?timeZone= when given
+  app.get("/api/schedule/timetable.pdf", async (req, res) => {
+    try {
+      const timeZone = typeof req.query.timeZone === "string" ? req.query.timeZone : undefined;
+      if (timeZone) {
+        // Throws a RangeError for unknown zones
+        new Intl.DateTimeFormat(undefined, { timeZone });
+      }
+
+      const schedule = await storage.getScheduleWithDetails();
+      const registrations = await storage.getRegistrationsWithDetails();
+
+      // The clash list names participants by code, so it only shows those the caller may see
+      const clashes = findClashes(schedule, registrations)
+        .filter(clash => canSeeTeamCodes(req, clash.participant.teamId));
+      const pdf = await timetable(schedule, clashes, timeZone);
+      res.attachment(`Arts_Fest_Timetable_${new Date().toISOString().split("T")[0]}.pdf`).send(pdf);
+    } catch (error) {
+      if (error instanceof RangeError) {
+        res.status(400).json({ message: error.message });
+      } else {
+        res.status(500).json({ message: "Failed to create timetable" });
+      }
+    }
+  });
+
+  // Download a program's call sheet, with times shown in ?timeZone= when given
+  app.get("/api/programs/:id/call-sheet.pdf", requireRole("admin", "volunteer"), async (req, res) => {
+    try {
+      const timeZone = typeof req.query.timeZone === "string" ? req.query.timeZone : undefined;
+      if (timeZone) {
+        // Throws a RangeError for unknown zones
+        new Intl.DateTimeFormat(undefined, { timeZone });
+      }
+
+      const program = await storage.getProgram(parseInt(req.params.id));
+      if (!program) {
+        return res.status(404).json({ message: "Program not found" });
+      }
+
+      const pdf = await programCallSheet(storage, program, timeZone);
+      res.attachment(`${program.name}_Call_Sheet.pdf`).send(pdf);
+    } catch (error) {
+      if (error instanceof RangeError) {
+        res.status(400).json({ message: error.message });
+      } else {
+        res.status(500).json({ message: "Failed to create call sheet" });
+      }
+    }
+  });
+
+  // Download every program's call sheet in one zip
+  app.get("/api/reports/call-sheets.zip", requireRole("admin", "volunteer"), async (req, res) => {
+    try {
+      const timeZone = typeof req.query.timeZone === "string" ? req.query.timeZone : undefined;
+      if (timeZone) {
+        new Intl.DateTimeFormat(undefined, { timeZone });
+      }
+
+      const zip = await callSheetsZip(storage, timeZone);
+      if (!zip) {
+        return res.status(404).json({ message: "No program has a confirmed entry yet" });
+      }
+      res.attachment(`Arts_Fest_Call_Sheets_${new Date().toISOString().split("T")[0]}.zip`).send(zip);
+    } catch (error) {
+      if (error instanceof RangeError) {
+        res.status(400).json({ message: error.message });
+      } else {
+        res.status(500).json({ message: "Failed to create call sheets" });
+      }
+    }
+  });
+
+  // Assign a venue and time slot to a stage program
+  app.put("/api/programs/:id/schedule", requireRole("admin"), async (req, res) => {
+    try {
+      const programId = parseInt(req.params.id);
+      const validatedData = scheduleSlotSchema.parse(req.body);
+
+      const program = await storage.getProgram(programId);
+      if (!program) {
+        return res.status(404).json({ message: "Program not found" });
+      }
+      if (program.type !== 'stage') {
+        return res.status(400).json({ message: "Only stage programs can be scheduled" });
+      }
+
+      const venues = await storage.getVenues();
+      if (!venues.some(venue => venue.id === validatedData.venueId)) {
+        return res.status(400).json({ message: "Invalid venue selected" });
+      }
+
+      const slot = {
+        programId,
+        venueId: validatedData.venueId,
+        startsAt: new Date(validatedData.startsAt).toISOString(),
+        endsAt: new Date(validatedData.endsAt).toISOString(),
+      };
+
+      const conflict = findVenueConflict(slot, await storage.getScheduleWithDetails());
+      if (conflict) {
+        return res.status(409).json({
+          message: `${conflict.venue.name} is already booked for ${conflict.program.name} at that time`
+        });
+      }
+
+      const savedSlot = await storage.saveScheduleSlot(slot);
+
+      // Report clashes this slot causes so they can be fixed before the day
+      const schedule = await storage.getScheduleWithDetails();
+      const registrations = await storage.getRegistrationsWithDetails();
+      const clashes = findClashes(schedule, registrations)
+        .filter(clash => clash.first.programId === programId || clash.second.programId === programId);
+
+      res.json({
+        slot: savedSlot,
+        clashes,
+        message: clashes.length > 0
+          ? `Scheduled with ${clashes.length} participant clash(es)`
+          : "Program scheduled successfully"
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(400).json({ message: error.message });
+      } else {
+        res.status(500).json({ message: "Failed to schedule program" });
+      }
+    }
+  });
+
+  // Remove a program from the timetable
+  app.delete("/api/programs/:id/schedule", requireRole("admin"), async (req, res) => {
+    try {
+      const programId = parseInt(req.params.id);
+      const success = await storage.deleteScheduleSlot(programId);
+
+      if (!success) {
+        return res.status(404).json({ message: "Program is not scheduled" });
+      }
+
+      res.json({ message: "Schedule slot removed successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to remove schedule slot" });
+    }
+  });
+
+  // Set the order of appearance for a stage program, or draw lots
+  app.post("/api/programs/:id/appearance-order", requireRole("admin"), async (req, res) => {
+    try {
+      const programId = parseInt(req.params.id);
+      const validatedData = appearanceOrderSchema.parse(req.body);
+
+      const program = await storage.getProgram(programId);
+      if (!program) {
+        return res.status(404).json({ message: "Program not found" });
+      }
+      if (program.type !== 'stage') {
+        return res.status(400).json({ message: "Order of appearance only applies to stage programs" });
+      }
+
+      // Group members appear together, so only each entry's leader is ordered
+      const registrations = await storage.getRegistrationsByProgramWithDetails(programId);
+      const competitors = competitorRegistrations(registrations, await storage.getGroupEntries());
+      const registrationIds = competitors.map(r => r.id);
+
+      let order: number[];
+      if (validatedData.registrationIds) {
+        order = validatedData.registrationIds;
+        const isPermutation = order.length === registrationIds.length &&
+          registrationIds.every(id => order.includes(id));
+        if (!isPermutation) {
+          return res.status(400).json({ message: "Order must list every entry for this program exactly once" });
+        }
+      } else {
+        order = drawAppearanceOrder(registrationIds);
+      }
+
+      for (let index = 0; index < order.length; index++) {
+        const competitor = competitors.find(r => r.id === order[index])!;
+        const appearing = competitor.groupEntryId
+          ? registrations.filter(r => r.groupEntryId === competitor.groupEntryId)
+          : [competitor];
+        for (const registration of appearing) {
+          await storage.updateAppearanceOrder(registration.id, index + 1);
+        }
+      }
+
+      const ordered = await storage.getRegistrationsByProgramWithDetails(programId);
+      ordered.sort((a, b) => (a.appearanceOrder ?? 0) - (b.appearanceOrder ?? 0));
+
+      res.json({
+        registrations: ordered,
+        message: "Order of appearance updated"
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(400).json({ message: error.message });
+      } else {
+        res.status(500).json({ message: "Failed to update order of appearance" });
+      }
     }
   });
 
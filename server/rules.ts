@@ -0,0 +1,77 @@
+import type {
+  Program, RegistrationRules, RegistrationWithDetails, RuleViolation
+} from "@shared/schema";
+import type { IStorage } from "./storage";
+
+export const REGISTRATION_RULES_SETTING_KEY = "registrationRules";
+
+export const defaultRegistrationRules: RegistrationRules = {
+  maxPerParticipant: [
+    { type: "stage", participationType: "individual", max: 5 },
+    { type: "non-stage", participationType: "individual", max: 5 },
+  ],
+  maxPerTeamPerProgram: null,
+};
+
+export async function getRegistrationRules(storage: IStorage): Promise<RegistrationRules> {
+  return (await storage.getSetting<RegistrationRules>(REGISTRATION_RULES_SETTING_KEY)) ?? defaultRegistrationRules;
+}
+
+function describeCategory(rule: RegistrationRules["maxPerParticipant"][number]): string {
+  const parts = [rule.type, rule.participationType].filter(Boolean);
+  return parts.length > 0 ? parts.join(" ") : "all";
+}
+
+// Checks the requested programs against the rules as if they were added one
+// after another, so the first programs that fit are not reported.
+export function evaluateRegistrationRules(options: {
+  rules: RegistrationRules;
+  requested: Program[];
+  existing: RegistrationWithDetails[];
+  teamEntries: Map<number, number>; // program id -> entries from the participant's team
+}): RuleViolation[] {
+  const { rules, requested, existing, teamEntries } = options;
+  const violations: RuleViolation[] = [];
+  const entered = existing.map(r => r.program);
+  const teamCounts = new Map(teamEntries);
+
+  for (const program of requested) {
+    const programViolations: RuleViolation[] = [];
+
+    for (const rule of rules.maxPerParticipant) {
+      const applies = (p: Program) =>
+        (!rule.type || p.type === rule.type) &&
+        (!rule.participationType || p.participationType === rule.participationType);
+      if (!applies(program)) continue;
+
+      const count = entered.filter(applies).length;
+      if (count >= rule.max) {
+        programViolations.push({
+          programId: program.id,
+          rule: "maxPerParticipant",
+          message: `You can enter at most ${rule.max} ${describeCategory(rule)} program(s)`,
+        });
+      }
+    }
+
+    // A program's own limit takes the place of the general one
+    const teamLimit = program.maxEntries ?? rules.maxPerTeamPerProgram;
+    const teamCount = teamCounts.get(program.id) ?? 0;
+    if (teamLimit !== null && teamCount >= teamLimit) {
+      programViolations.push({
+        programId: program.id,
+        rule: "maxPerTeamPerProgram",
+        message: `Your team already has ${teamCount} of ${teamLimit} allowed entries in this program`,
+      });
+    }
+
+    if (programViolations.length > 0) {
+      violations.push(...programViolations);
+    } else {
+      entered.push(program);
+      teamCounts.set(program.id, teamCount + 1);
+    }
+  }
+
+  return violations;
+}
@@ -0,0 +1,64 @@
+import type {
+  RegistrationWithDetails, ScheduleEntry, ScheduleClash
+} from "@shared/schema";
+
+export function overlaps(
+  a: { startsAt: string; endsAt: string },
+  b: { startsAt: string; endsAt: string }
+): boolean {
+  return Date.parse(a.startsAt) < Date.parse(b.endsAt) && Date.parse(b.startsAt) < Date.parse(a.endsAt);
+}
+
+// Another program already booked into the same venue at an overlapping time
+export function findVenueConflict(
+  slot: { programId: number; venueId: number; startsAt: string; endsAt: string },
+  schedule: ScheduleEntry[]
+): ScheduleEntry | undefined {
+  return schedule.find(entry =>
+    entry.programId !== slot.programId &&
+    entry.venueId === slot.venueId &&
+    overlaps(entry, slot)
+  );
+}
+
+// Every pair of scheduled programs that a single participant is registered
+// in and that overlap in time.
+export function findClashes(
+  schedule: ScheduleEntry[],
+  registrations: RegistrationWithDetails[]
+): ScheduleClash[] {
+  const slotsByProgram = new Map(schedule.map(entry => [entry.programId, entry]));
+  const byParticipant = new Map<number, RegistrationWithDetails[]>();
+
+  for (const registration of registrations) {
+    if (!slotsByProgram.has(registration.programId)) continue;
+    const list = byParticipant.get(registration.participantId) ?? [];
+    list.push(registration);
+    byParticipant.set(registration.participantId, list);
+  }
+
+  const clashes: ScheduleClash[] = [];
+  byParticipant.forEach(list => {
+    for (let i = 0; i < list.length; i++) {
+      for (let j = i + 1; j < list.length; j++) {
+        const first = slotsByProgram.get(list[i].programId)!;
+        const second = slotsByProgram.get(list[j].programId)!;
+        if (overlaps(first, second)) {
+          clashes.push({ participant: list[i].participant, first, second });
+        }
+      }
+    }
+  });
+
+  return clashes;
+}
+
+// Random order of appearance for a program (Fisher-Yates shuffle)
+export function drawAppearanceOrder(registrationIds: number[]): number[] {
+  const order = [...registrationIds];
+  for (let i = order.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  return order;
+}
@@ -0,0 +1,45 @@
+import type { IStorage } from "./storage";
+import type { InsertTeam, InsertProgram } from "@shared/schema";
+
+export const seedTeams: InsertTeam[] = [
+  { name: "QUDS Team", code: "QU" },
+  { name: "BADR Team", code: "BA" },
+  { name: "NOOR Team", code: "NO" },
+  { name: "FAJR Team", code: "FA" },
+];
+
+export const seedPrograms: InsertProgram[] = [
+  { name: "Arabic Speech 01", type: "stage", participationType: "group", description: "مسابقة الخطابة العربية للمجموعات", minMembers: 3, maxMembers: 7 },
+  { name: "Arabic Song 02", type: "stage", participationType: "group", description: "العروض المسرحية الجماعية", minMembers: 3, maxMembers: 7 },
+  { name: "Arabic Story telling 03", type: "stage", participationType: "group", description: "الأداء الموسيقي الجماعي", minMembers: 3, maxMembers: 7 },
+  { name: "Malayalam Song 04", type: "stage", participationType: "group", description: "إلقاء الشعر الجماعي", minMembers: 3, maxMembers: 7 },
+  { name: "Arabic Speech 05", type: "stage", participationType: "individual", description: "أداء الرقص الفردي" },
+  { name: "Arabic Speech 06", type: "stage", participationType: "individual", description: "الغناء الفردي" },
+  { name: "Arabic Speech 07", type: "stage", participationType: "individual", description: "الأداء المسرحي الفردي" },
+  { name: "Arabic Speech 08", type: "stage", participationType: "individual", description: "الكوميديا الفردية" },
+  { name: "Arabic Essay 09", type: "non-stage", participationType: "group", description: "معرض الفنون الجماعي", minMembers: 3, maxMembers: 7 },
+  { name: "Arabic Calligraphy 10", type: "non-stage", participationType: "group", description: "مسابقة التصوير الجماعي", minMembers: 3, maxMembers: 7 },
+  { name: "Arabic Speech 11", type: "non-stage", participationType: "individual", description: "مسابقة الرسم الفردي" },
+  { name: "Arabic Speech 12", type: "non-stage", participationType: "individual", description: "مسابقة التصوير الفردي" },
+  { name: "Arabic Speech 13", type: "non-stage", participationType: "individual", description: "مسابقة الخط العربي" },
+  { name: "Arabic Speech 14", type: "non-stage", participationType: "individual", description: "مسابقة الكتابة الإبداعية" },
+];
+
+// Initialize storage with seed data
+export async function seedStorage(storage: IStorage) {
+  try {
+    // Check if teams already exist
+    const existingTeams = await storage.getTeams();
+    if (existingTeams.length > 0) return;
+
+    for (const team of seedTeams) {
+      await storage.createTeam(team);
+    }
+
+    for (const program of seedPrograms) {
+      await storage.createProgram(program);
+    }
+  } catch (error) {
+    console.error('Error seeding database:', error);
+  }
+}
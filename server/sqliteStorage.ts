@@ -0,0 +1,63 @@
+import Database from "better-sqlite3";
+import fs from "fs";
+import path from "path";
+import { MemStorage, type TableName } from "./memStorage";
+
+// File-backed storage for running without a hosted database. Every table is
+// loaded into memory at boot and each write goes straight through to a
+// SQLite file, one JSON document per row.
+export class SqliteStorage extends MemStorage {
+  private db: Database.Database;
+  // Tables written to inside the transaction in progress
+  private touched: Set<TableName> | null = null;
+
+  constructor(filename: string) {
+    super();
+    fs.mkdirSync(path.dirname(filename), { recursive: true });
+
+    this.db = new Database(filename);
+    this.db.pragma("journal_mode = WAL");
+
+    for (const table of Object.keys(this.tables) as TableName[]) {
+      this.db.exec(`CREATE TABLE IF NOT EXISTS ${table} (id INTEGER PRIMARY KEY, data TEXT NOT NULL)`);
+      this.load(table);
+    }
+  }
+
+  private load(table: TableName): void {
+    const rows = this.db.prepare(`SELECT id, data FROM ${table}`).all() as { id: number; data: string }[];
+    const map = this.tables[table] as Map<number, unknown>;
+    map.clear();
+    for (const row of rows) {
+      map.set(row.id, JSON.parse(row.data));
+      this.currentIds[table] = Math.max(this.currentIds[table], row.id + 1);
+    }
+  }
+
+  protected override persist(table: TableName, row: { id: number }): void {
+    this.touched?.add(table);
+    this.db
+      .prepare(`INSERT OR REPLACE INTO ${table} (id, data) VALUES (?, ?)`)
+      .run(row.id, JSON.stringify(row));
+  }
+
+  protected override unpersist(table: TableName, id: number): void {
+    this.touched?.add(table);
+    this.db.prepare(`DELETE FROM ${table} WHERE id = ?`).run(id);
+  }
+
+  // When a write fails, SQLite rolls it back and the tables it touched are
+  // read back in, so memory matches the file again
+  protected override atomically<T>(write: () => T): T {
+    const outermost = this.touched === null;
+    const touched = this.touched ??= new Set<TableName>();
+    try {
+      return this.db.transaction(write)();
+    } catch (error) {
+      touched.forEach(table => this.load(table));
+      throw error;
+    } finally {
+      if (outermost) this.touched = null;
+    }
+  }
+}
@@ -0,0 +1,91 @@
+import type {
+  Team, PointsConfig, ResultWithDetails, TeamStanding
+} from "@shared/schema";
+import type { IStorage } from "./storage";
+
+export const POINTS_SETTING_KEY = "points";
+
+export const defaultPointsConfig: PointsConfig = {
+  individual: {
+    grade: { A: 5, B: 3, C: 1 },
+    position: { 1: 5, 2: 3, 3: 1 },
+  },
+  group: {
+    grade: { A: 10, B: 6, C: 2 },
+    position: { 1: 10, 2: 6, 3: 2 },
+  },
+  gradeThresholds: { A: 80, B: 65, C: 50 },
+};
+
+export async function getPointsConfig(storage: IStorage): Promise<PointsConfig> {
+  return (await storage.getSetting<PointsConfig>(POINTS_SETTING_KEY)) ?? defaultPointsConfig;
+}
+
+export function gradeForScore(score: number, config: PointsConfig): "A" | "B" | "C" | null {
+  const { A, B, C } = config.gradeThresholds;
+  if (score >= A) return "A";
+  if (score >= B) return "B";
+  if (score >= C) return "C";
+  return null;
+}
+
+export function resultPoints(result: ResultWithDetails, config: PointsConfig): number {
+  const table = result.registration.program.participationType === "group" ? config.group : config.individual;
+  const gradePoints = result.grade ? table.grade[result.grade as "A" | "B" | "C"] ?? 0 : 0;
+  const positionPoints = result.position ? table.position[result.position as 1 | 2 | 3] ?? 0 : 0;
+  return gradePoints + positionPoints;
+}
+
+// Rolls result points up per team. Teams are ordered by points, then by the
+// number of first, second and third places, then by A grades; teams that
+// are still level share a rank.
+export function computeStandings(
+  teams: Team[],
+  results: ResultWithDetails[],
+  config: PointsConfig
+): TeamStanding[] {
+  const standings = new Map<number, TeamStanding>(
+    teams.map(team => [team.id, { team, points: 0, firsts: 0, seconds: 0, thirds: 0, aGrades: 0, rank: 0 }])
+  );
+
+  // Group entries carry a single result on the leader's registration, but
+  // results recorded per member before group entries existed would repeat
+  // it, so a group program only counts once per team.
+  const countedGroups = new Set<string>();
+
+  for (const result of results) {
+    const { participant, program } = result.registration;
+    const standing = standings.get(participant.teamId);
+    if (!standing) continue;
+
+    if (program.participationType === "group") {
+      const key = `${participant.teamId}:${program.id}`;
+      if (countedGroups.has(key)) continue;
+      countedGroups.add(key);
+    }
+
+    standing.points += resultPoints(result, config);
+    if (result.position === 1) standing.firsts++;
+    if (result.position === 2) standing.seconds++;
+    if (result.position === 3) standing.thirds++;
+    if (result.grade === "A") standing.aGrades++;
+  }
+
+  const compare = (a: TeamStanding, b: TeamStanding) =>
+    b.points - a.points ||
+    b.firsts - a.firsts ||
+    b.seconds - a.seconds ||
+    b.thirds - a.thirds ||
+    b.aGrades - a.aGrades;
+
+  const sorted = Array.from(standings.values()).sort(
+    (a, b) => compare(a, b) || a.team.name.localeCompare(b.team.name)
+  );
+
+  sorted.forEach((standing, index) => {
+    const previous = sorted[index - 1];
+    standing.rank = previous && compare(previous, standing) === 0 ? previous.rank : index + 1;
+  });
+
+  return sorted;
+}
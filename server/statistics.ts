@@ -0,0 +1,67 @@
+import type {
+  FestivalStatistics, ParticipationTypeStatistics, ProgramStatistics, StatisticsTotals, TeamStatistics
+} from "@shared/schema";
+import type { IStorage } from "./storage";
+
+// Festival statistics built from the counts storage aggregates. Only the
+// grouped counts are loaded, never the registrations themselves.
+
+export async function festivalStatistics(storage: IStorage): Promise<FestivalStatistics> {
+  const [teams, programs, registrationCounts, participantCounts, daily] = await Promise.all([
+    storage.getTeams(),
+    storage.getPrograms(),
+    storage.getRegistrationCounts(),
+    storage.getTeamParticipantCounts(),
+    storage.getDailyRegistrationCounts(),
+  ]);
+  const programById = new Map<number, typeof programs[number]>(programs.map(p => [p.id, p]));
+  const isStage = (programId: number) => programById.get(programId)?.type === "stage";
+  const sum = (rows: { registrations: number }[]) => rows.reduce((total, row) => total + row.registrations, 0);
+
+  const teamStatistics: TeamStatistics[] = teams.map(team => {
+    const rows = registrationCounts.filter(c => c.teamId === team.id);
+    const people = participantCounts.find(c => c.teamId === team.id);
+    return {
+      team,
+      participants: people?.participants ?? 0,
+      registeredParticipants: people?.registeredParticipants ?? 0,
+      registrations: sum(rows),
+      stageRegistrations: sum(rows.filter(c => isStage(c.programId))),
+      nonStageRegistrations: sum(rows.filter(c => !isStage(c.programId))),
+    };
+  });
+
+  // Archived programs only show while they still hold registrations
+  const programStatistics: ProgramStatistics[] = programs
+    .map(program => {
+      const rows = registrationCounts.filter(c => c.programId === program.id);
+      return {
+        program,
+        registrations: sum(rows),
+        waitlisted: sum(rows.filter(c => c.waitlisted)),
+        teams: new Set(rows.map(c => c.teamId)).size,
+      };
+    })
+    .filter(row => !row.program.archived || row.registrations > 0);
+
+  const participationTypes: ParticipationTypeStatistics[] = (["individual", "group"] as const).map(participationType => ({
+    participationType,
+    programs: programs.filter(p => !p.archived && p.participationType === participationType).length,
+    registrations: sum(programStatistics.filter(s => s.program.participationType === participationType)),
+  }));
+
+  const activePrograms = programs.filter(p => !p.archived);
+  const totals: StatisticsTotals = {
+    participants: participantCounts.reduce((total, c) => total + c.participants, 0),
+    registeredParticipants: participantCounts.reduce((total, c) => total + c.registeredParticipants, 0),
+    registrations: sum(registrationCounts),
+    waitlisted: sum(registrationCounts.filter(c => c.waitlisted)),
+    stageRegistrations: sum(registrationCounts.filter(c => isStage(c.programId))),
+    nonStageRegistrations: sum(registrationCounts.filter(c => !isStage(c.programId))),
+    programs: activePrograms.length,
+    stagePrograms: activePrograms.filter(p => p.type === "stage").length,
+    nonStagePrograms: activePrograms.filter(p => p.type !== "stage").length,
+  };
+
+  return { totals, teams: teamStatistics, programs: programStatistics, participationTypes, daily };
+}
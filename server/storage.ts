@@ -1,276 +1,190 @@
-import { 
-  teams, participants, programs, registrations,
-  type Team, type Participant, type Program, type Registration,
-  type InsertTeam, type InsertParticipant, type InsertProgram, type InsertRegistration,
-  type FirstRegistration, type ParticipantWithTeam, type RegistrationWithDetails
+import type session from "express-session";
+import type {
+  User, Team, Participant, Program, Registration, GroupEntry, Judge, JudgingCriterion, ScoreSheet,
+  Venue, ScheduleSlot, Result, AuditLog, CheckIn, RecoverySecret, RegistrationExtension,
+  InsertUser, InsertTeam, InsertParticipant, InsertProgram, InsertRegistration, InsertGroupEntry, InsertJudge, InsertScoreSheet,
+  InsertVenue, InsertScheduleSlot, InsertResult, InsertAuditLog, InsertCheckIn, InsertRegistrationExtension,
+  ProgramCriteria, ParticipantWithTeam, RegistrationWithDetails, ScheduleEntry, ResultWithDetails,
+  RegistrationCount, TeamParticipantCount, DailyRegistrationCount, ChestNumberAssignment,
+  RegistrationQuery, RegistrationExport, RegistrationPage
 } from "@shared/schema";
-import { db } from "./db";
-import { eq, and } from "drizzle-orm";
+import { config } from "./config";
+import { createDatabase } from "./db";
+import { DatabaseStorage } from "./databaseStorage";
+import { MemStorage } from "./memStorage";
+import { SqliteStorage } from "./sqliteStorage";
+import { seedStorage } from "./seed";
 
 export interface IStorage {
+  sessionStore: session.Store;
+
+  // Users
+  getUsers(): Promise<User[]>;
+  getUser(id: number): Promise<User | undefined>;
+  getUserByUsername(username: string): Promise<User | undefined>;
+  createUser(user: InsertUser): Promise<User>;
+  deleteUser(id: number): Promise<boolean>;
+
   // Teams
   getTeams(): Promise<Team[]>;
   getTeam(id: number): Promise<Team | undefined>;
   createTeam(team: InsertTeam): Promise<Team>;
+  updateTeam(id: number, team: Partial<InsertTeam>): Promise<Team | undefined>;
+  // Also drops the team's code counter and registration extensions. Callers
+  // check the team is empty first.
+  deleteTeam(id: number): Promise<boolean>;
   
   // Participants
+  getParticipants(): Promise<Participant[]>;
   getParticipant(id: number): Promise<Participant | undefined>;
+  // Codes are matched however they were typed: case and surrounding spaces
+  // are ignored
   getParticipantByCode(code: string): Promise<Participant | undefined>;
   getParticipantByName(name: string): Promise<Participant | undefined>;
   getParticipantWithTeam(id: number): Promise<ParticipantWithTeam | undefined>;
   createParticipant(participant: InsertParticipant & { uniqueCode: string }): Promise<Participant>;
   updateParticipantImage(id: number, imageUrl: string): Promise<Participant | undefined>;
+  setParticipantChestNumbers(numbers: ChestNumberAssignment[]): Promise<void>;
+  // Moves registrations, check-ins, group leadership and logins from one
+  // participant onto another, then deletes the first. A registration for a
+  // program both already hold is dropped. Returns the ids of the moved and
+  // dropped registrations.
+  mergeParticipants(keepId: number, mergeId: number): Promise<{ moved: number[]; dropped: number[] }>;
   
   // Programs
   getPrograms(): Promise<Program[]>;
   getProgramsByType(type: string, participationType?: string): Promise<Program[]>;
   getProgram(id: number): Promise<Program | undefined>;
   createProgram(program: InsertProgram): Promise<Program>;
+  updateProgram(id: number, program: Partial<InsertProgram>): Promise<Program | undefined>;
   
   // Registrations
   getRegistrations(): Promise<Registration[]>;
+  getRegistration(id: number): Promise<Registration | undefined>;
   getRegistrationsByParticipant(participantId: number): Promise<Registration[]>;
   getRegistrationsWithDetails(): Promise<RegistrationWithDetails[]>;
   getRegistrationsByParticipantWithDetails(participantId: number): Promise<RegistrationWithDetails[]>;
+  getRegistrationsByProgramWithDetails(programId: number): Promise<RegistrationWithDetails[]>;
+  // One page of the registrations table, filtered and sorted, with the count
+  // of every matching row
+  getRegistrationPage(query: RegistrationQuery): Promise<RegistrationPage>;
+  getRegistrationsMatching(filters: RegistrationExport): Promise<RegistrationWithDetails[]>;
   createRegistration(registration: InsertRegistration): Promise<Registration>;
+  // Saves the profile image and registers for every program not already held,
+  // all or nothing. Returns only the registrations that were created.
+  // Registrations for waitlistedProgramIds start on the waitlist.
+  registerForPrograms(
+    participantId: number,
+    programIds: number[],
+    profileImage?: string,
+    waitlistedProgramIds?: number[]
+  ): Promise<Registration[]>;
+  updateAppearanceOrder(id: number, appearanceOrder: number | null): Promise<Registration | undefined>;
+  // Takes the registrations pick chooses off the program's waitlist. pick sees
+  // the program and its registrations as they stand, with the program locked
+  // until the change is saved, so two calls cannot both fill the last place.
+  confirmWaitlisted(
+    programId: number,
+    pick: (program: Program, registrations: Registration[]) => number[]
+  ): Promise<number[]>;
+  setRegistrationChestNumbers(numbers: ChestNumberAssignment[]): Promise<void>;
   deleteRegistration(id: number): Promise<boolean>;
-  
-  // Statistics
-  getStats(): Promise<{
-    totalRegistered: number;
-    stagePrograms: number;
-    nonStagePrograms: number;
-    totalPrograms: number;
-  }>;
-  
-  // Utility
-  generateUniqueCode(teamCode: string): Promise<string>;
-}
-
-export class DatabaseStorage implements IStorage {
-  // Teams
-  async getTeams(): Promise<Team[]> {
-    return await db.select().from(teams);
-  }
-
-  async getTeam(id: number): Promise<Team | undefined> {
-    const [team] = await db.select().from(teams).where(eq(teams.id, id));
-    return team || undefined;
-  }
-
-  async createTeam(team: InsertTeam): Promise<Team> {
-    const [newTeam] = await db.insert(teams).values(team).returning();
-    return newTeam;
-  }
-
-  // Participants
-  async getParticipant(id: number): Promise<Participant | undefined> {
-    const [participant] = await db.select().from(participants).where(eq(participants.id, id));
-    return participant || undefined;
-  }
-
-  async getParticipantByCode(code: string): Promise<Participant | undefined> {
-    const [participant] = await db.select().from(participants).where(eq(participants.uniqueCode, code));
-    return participant || undefined;
-  }
-
-  async getParticipantByName(name: string): Promise<Participant | undefined> {
-    const [participant] = await db.select().from(participants).where(eq(participants.fullName, name));
-    return participant || undefined;
-  }
-
-  async getParticipantWithTeam(id: number): Promise<ParticipantWithTeam | undefined> {
-    const result = await db
-      .select()
-      .from(participants)
-      .leftJoin(teams, eq(participants.teamId, teams.id))
-      .where(eq(participants.id, id));
-    
-    if (!result[0] || !result[0].teams) return undefined;
-    
-    return {
-      ...result[0].participants,
-      team: result[0].teams
-    };
-  }
-
-  async createParticipant(participant: InsertParticipant & { uniqueCode: string }): Promise<Participant> {
-    const [newParticipant] = await db.insert(participants).values(participant).returning();
-    return newParticipant;
-  }
-
-  async updateParticipantImage(id: number, imageUrl: string): Promise<Participant | undefined> {
-    const [updatedParticipant] = await db
-      .update(participants)
-      .set({ profileImage: imageUrl })
-      .where(eq(participants.id, id))
-      .returning();
-    return updatedParticipant || undefined;
-  }
-
-  // Programs
-  async getPrograms(): Promise<Program[]> {
-    return await db.select().from(programs);
-  }
 
-  async getProgramsByType(type: string, participationType?: string): Promise<Program[]> {
-    if (participationType) {
-      return await db.select().from(programs)
-        .where(and(eq(programs.type, type), eq(programs.participationType, participationType)));
-    }
-    
-    return await db.select().from(programs).where(eq(programs.type, type));
-  }
-
-  async getProgram(id: number): Promise<Program | undefined> {
-    const [program] = await db.select().from(programs).where(eq(programs.id, id));
-    return program || undefined;
-  }
-
-  async createProgram(program: InsertProgram): Promise<Program> {
-    const [newProgram] = await db.insert(programs).values(program).returning();
-    return newProgram;
-  }
-
-  // Registrations
-  async getRegistrations(): Promise<Registration[]> {
-    return await db.select().from(registrations);
-  }
-
-  async getRegistrationsByParticipant(participantId: number): Promise<Registration[]> {
-    return await db.select().from(registrations).where(eq(registrations.participantId, participantId));
-  }
-
-  async getRegistrationsWithDetails(): Promise<RegistrationWithDetails[]> {
-    const result = await db
-      .select()
-      .from(registrations)
-      .leftJoin(participants, eq(registrations.participantId, participants.id))
-      .leftJoin(teams, eq(participants.teamId, teams.id))
-      .leftJoin(programs, eq(registrations.programId, programs.id));
-
-    return result.map(row => ({
-      ...row.registrations,
-      participant: {
-        ...row.participants!,
-        team: row.teams!
-      },
-      program: row.programs!
-    }));
-  }
-
-  async getRegistrationsByParticipantWithDetails(participantId: number): Promise<RegistrationWithDetails[]> {
-    const result = await db
-      .select()
-      .from(registrations)
-      .leftJoin(participants, eq(registrations.participantId, participants.id))
-      .leftJoin(teams, eq(participants.teamId, teams.id))
-      .leftJoin(programs, eq(registrations.programId, programs.id))
-      .where(eq(registrations.participantId, participantId));
-
-    return result.map(row => ({
-      ...row.registrations,
-      participant: {
-        ...row.participants!,
-        team: row.teams!
-      },
-      program: row.programs!
-    }));
-  }
-
-  async createRegistration(registration: InsertRegistration): Promise<Registration> {
-    const [newRegistration] = await db
-      .insert(registrations)
-      .values({
-        ...registration,
-        registeredAt: new Date().toISOString()
-      })
-      .returning();
-    return newRegistration;
-  }
-
-  async deleteRegistration(id: number): Promise<boolean> {
-    const result = await db.delete(registrations).where(eq(registrations.id, id));
-    return (result.rowCount || 0) > 0;
-  }
+  // Group entries
+  getGroupEntries(): Promise<GroupEntry[]>;
+  getGroupEntry(id: number): Promise<GroupEntry | undefined>;
+  getGroupEntryByProgramAndTeam(programId: number, teamId: number): Promise<GroupEntry | undefined>;
+  // Creates the entry and registers every member into it, all or nothing
+  createGroupEntry(
+    entry: InsertGroupEntry,
+    memberIds: number[],
+    waitlisted: boolean
+  ): Promise<{ entry: GroupEntry; registrations: Registration[] }>;
+  // Registers the added members into the entry with its waitlist place and
+  // chest number, and withdraws the removed registrations, all or nothing.
+  // Returns the new registrations.
+  updateGroupRoster(
+    entry: GroupEntry,
+    added: { memberIds: number[]; waitlisted: boolean; chestNumber: number | null },
+    removedIds: number[]
+  ): Promise<Registration[]>;
+  // Withdraws the entry along with every member's registration
+  deleteGroupEntry(id: number): Promise<boolean>;
+
+  // Judges
+  getJudges(): Promise<Judge[]>;
+  getJudge(id: number): Promise<Judge | undefined>;
+  createJudge(judge: InsertJudge): Promise<Judge>;
+
+  // Judging criteria
+  getCriteriaByProgram(programId: number): Promise<JudgingCriterion[]>;
+  replaceProgramCriteria(programId: number, criteria: ProgramCriteria): Promise<JudgingCriterion[]>;
+
+  // Score sheets
+  getScoreSheet(id: number): Promise<ScoreSheet | undefined>;
+  getScoreSheetsByProgram(programId: number): Promise<ScoreSheet[]>;
+  getScoreSheetByJudgeAndRegistration(judgeId: number, registrationId: number): Promise<ScoreSheet | undefined>;
+  saveScoreSheet(sheet: InsertScoreSheet): Promise<ScoreSheet>;
+  lockScoreSheet(id: number): Promise<ScoreSheet | undefined>;
+
+  // Venues
+  getVenues(): Promise<Venue[]>;
+  createVenue(venue: InsertVenue): Promise<Venue>;
+
+  // Schedule
+  getScheduleWithDetails(): Promise<ScheduleEntry[]>;
+  saveScheduleSlot(slot: InsertScheduleSlot): Promise<ScheduleSlot>;
+  deleteScheduleSlot(programId: number): Promise<boolean>;
+
+  // Results
+  getResultsWithDetails(): Promise<ResultWithDetails[]>;
+  saveResult(result: InsertResult): Promise<Result>;
+
+  // Check-ins
+  getCheckInsByProgram(programId: number): Promise<CheckIn[]>;
+  getCheckIn(participantId: number, programId: number): Promise<CheckIn | undefined>;
+  createCheckIn(checkIn: InsertCheckIn): Promise<CheckIn>;
+
+  // Settings
+  getSetting<T>(key: string): Promise<T | undefined>;
+  saveSetting<T>(key: string, value: T): Promise<T>;
+  
+  // Audit log
+  getAuditLogs(): Promise<AuditLog[]>;
+  createAuditLog(entry: InsertAuditLog): Promise<AuditLog>;
 
   // Statistics
-  async getStats(): Promise<{
-    totalRegistered: number;
-    stagePrograms: number;
-    nonStagePrograms: number;
-    totalPrograms: number;
-  }> {
-    const allRegistrations = await this.getRegistrationsWithDetails();
-    const uniqueParticipants = new Set(allRegistrations.map(r => r.participantId));
-    
-    const stagePrograms = allRegistrations.filter(r => r.program.type === 'stage').length;
-    const nonStagePrograms = allRegistrations.filter(r => r.program.type === 'non-stage').length;
+  getRegistrationCounts(): Promise<RegistrationCount[]>;
+  getTeamParticipantCounts(): Promise<TeamParticipantCount[]>;
+  getDailyRegistrationCounts(): Promise<DailyRegistrationCount[]>;
+  
+  // Code counters
+  nextCodeNumber(teamId: number): Promise<number>;
 
-    return {
-      totalRegistered: uniqueParticipants.size,
-      stagePrograms,
-      nonStagePrograms,
-      totalPrograms: allRegistrations.length
-    };
-  }
+  // Code recovery
+  getRecoverySecret(participantId: number): Promise<RecoverySecret | undefined>;
+  setRecoverySecret(participantId: number, secretHash: string): Promise<RecoverySecret>;
 
-  // Utility method to generate unique codes
-  async generateUniqueCode(teamCode: string): Promise<string> {
-    const existingParticipants = await db.select().from(participants);
-    const existingCodes = existingParticipants.map(p => p.uniqueCode);
-    let counter = 1;
-    let code: string;
-    
-    do {
-      code = `${teamCode}${String(counter).padStart(3, '0')}`;
-      counter++;
-    } while (existingCodes.includes(code));
-    
-    return code;
-  }
+  // Registration extensions
+  getRegistrationExtensions(): Promise<RegistrationExtension[]>;
+  createRegistrationExtension(extension: InsertRegistrationExtension): Promise<RegistrationExtension>;
+  deleteRegistrationExtension(id: number): Promise<boolean>;
 }
 
-// Initialize database with seed data
-async function seedDatabase() {
-  try {
-    // Check if teams already exist
-    const existingTeams = await db.select().from(teams);
-    if (existingTeams.length > 0) return;
-
-    // Seed teams
-    const teamsData = [
-      { name: "QUDS Team", code: "QU" },
-      { name: "BADR Team", code: "BA" },
-      { name: "NOOR Team", code: "NO" },
-      { name: "FAJR Team", code: "FA" },
-    ];
-    await db.insert(teams).values(teamsData);
-
-    // Seed programs
-    const programsData = [
-      { name: "Arabic Speech 01", type: "stage", participationType: "group", description: "مسابقة الخطابة العربية للمجموعات" },
-      { name: "Arabic Song 02", type: "stage", participationType: "group", description: "العروض المسرحية الجماعية" },
-      { name: "Arabic Story telling 03", type: "stage", participationType: "group", description: "الأداء الموسيقي الجماعي" },
-      { name: "Malayalam Song 04", type: "stage", participationType: "group", description: "إلقاء الشعر الجماعي" },
-      { name: "Arabic Speech 05", type: "stage", participationType: "individual", description: "أداء الرقص الفردي" },
-      { name: "Arabic Speech 06", type: "stage", participationType: "individual", description: "الغناء الفردي" },
-      { name: "Arabic Speech 07", type: "stage", participationType: "individual", description: "الأداء المسرحي الفردي" },
-      { name: "Arabic Speech 08", type: "stage", participationType: "individual", description: "الكوميديا الفردية" },
-      { name: "Arabic Essay 09", type: "non-stage", participationType: "group", description: "معرض الفنون الجماعي" },
-      { name: "Arabic Calligraphy 10", type: "non-stage", participationType: "group", description: "مسابقة التصوير الجماعي" },
-      { name: "Arabic Speech 11", type: "non-stage", participationType: "individual", description: "مسابقة الرسم الفردي" },
-      { name: "Arabic Speech 12", type: "non-stage", participationType: "individual", description: "مسابقة التصوير الفردي" },
-      { name: "Arabic Speech 13", type: "non-stage", participationType: "individual", description: "مسابقة الخط العربي" },
-      { name: "Arabic Speech 14", type: "non-stage", participationType: "individual", description: "مسابقة الكتابة الإبداعية" },
-    ];
-    await db.insert(programs).values(programsData);
-  } catch (error) {
-    console.error('Error seeding database:', error);
+function createStorage(): IStorage {
+  switch (config.storageDriver) {
+    case "memory":
+      return new MemStorage();
+    case "sqlite":
+      return new SqliteStorage(config.sqlitePath);
+    case "postgres": {
+      const { db, pool } = createDatabase(config.databaseUrl);
+      return new DatabaseStorage(db, pool);
+    }
   }
 }
 
-export const storage = new DatabaseStorage();
+export const storage = createStorage();
 
-// Initialize database
-seedDatabase();
+// Initialize storage
+seedStorage(storage);
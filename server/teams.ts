@@ -0,0 +1,86 @@
+import type { Team, TeamDashboard } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { getCodeFormat } from "./codes";
+import { withGroupDetails } from "./groups";
+import { toSafeUser } from "./auth";
+import { withWaitlistPositions } from "./waitlist";
+
+// Team administration. A team's code only starts new participant codes: codes
+// already issued are printed on ID cards and badges, so renaming a team never
+// rewrites them.
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Returns why a team (or a new one, when team is undefined) cannot use the
+// given code, if it cannot
+export async function teamCodeProblem(
+  storage: IStorage,
+  team: Team | undefined,
+  code: string
+): Promise<string | undefined> {
+  const others = (await storage.getTeams()).filter(t => t.id !== team?.id);
+
+  const clash = others.find(t => t.code.startsWith(code) || code.startsWith(t.code));
+  if (clash) {
+    return clash.code === code
+      ? `${clash.name} already uses the code ${code}`
+      : `${code} is too close to ${clash.name}'s code ${clash.code}. Codes from the two teams could be confused`;
+  }
+
+  // Another team's participants may still carry codes from a code it has
+  // since given up. New codes built from the same prefix would look like theirs.
+  const format = await getCodeFormat(storage);
+  const numbered = format.pattern
+    .split(/(\{team\}|\{number\})/)
+    .map(part => part === "{team}" ? escapeRegExp(code) : part === "{number}" ? "\\d+" : escapeRegExp(part))
+    .join("");
+  const prefixes = [new RegExp(`^${numbered}`), new RegExp(`^${escapeRegExp(code)}\\d`)];
+  const otherTeamIds = new Set(others.map(t => t.id));
+  const participants = await storage.getParticipants();
+  const holder = participants.find(p => otherTeamIds.has(p.teamId) && prefixes.some(prefix => prefix.test(p.uniqueCode)));
+  if (holder) {
+    return `Participants of another team already have codes starting with ${code} (for example ${holder.uniqueCode})`;
+  }
+
+  return undefined;
+}
+
+// Why a team cannot be deleted, if it cannot
+export async function teamDeleteProblem(storage: IStorage, team: Team): Promise<string | undefined> {
+  const participants = await storage.getParticipants();
+  if (participants.some(p => p.teamId === team.id)) {
+    return `${team.name} still has participants. Move or merge them first`;
+  }
+  const users = await storage.getUsers();
+  if (users.some(u => u.teamId === team.id)) {
+    return `${team.name} still has team managers. Remove them first`;
+  }
+  return undefined;
+}
+
+// Everyone in the team with the programs they entered
+export async function teamDashboard(storage: IStorage, team: Team): Promise<TeamDashboard> {
+  const [users, participants, registrations, entries] = await Promise.all([
+    storage.getUsers(),
+    storage.getParticipants(),
+    storage.getRegistrationsWithDetails(),
+    storage.getGroupEntries(),
+  ]);
+  const teamRegistrations = registrations.filter(r => r.participant.teamId === team.id);
+  const positioned = await withWaitlistPositions(storage, teamRegistrations);
+
+  return {
+    team,
+    managers: users.filter(u => u.role === "team_manager" && u.teamId === team.id).map(toSafeUser),
+    members: participants
+      .filter(p => p.teamId === team.id)
+      .sort((a, b) => a.fullName.localeCompare(b.fullName))
+      .map(participant => ({
+        participant,
+        registrations: positioned.filter(r => r.participantId === participant.id),
+      })),
+    groupEntries: withGroupDetails(entries.filter(e => e.teamId === team.id), teamRegistrations),
+  };
+}
@@ -0,0 +1,106 @@
+import type { ParticipantRegistration, Program, Registration, RegistrationWithDetails } from "@shared/schema";
+import type { IStorage } from "./storage";
+
+// Waitlists for programs with a capacity. An entry is one registration in an
+// individual program and a whole group entry in a group program. Entries take
+// places in the order they registered; new entries start on the waitlist and
+// promoteFromWaitlist moves them up while there is room.
+
+interface Entry {
+  registrationIds: number[];
+  participantIds: number[];
+  groupEntryId: number | null;
+  registeredAt: string;
+  firstId: number;
+  waitlisted: boolean;
+}
+
+function programEntries(registrations: Registration[]): Entry[] {
+  const entries = new Map<string, Entry>();
+  for (const registration of registrations) {
+    const key = registration.groupEntryId ? `group:${registration.groupEntryId}` : `registration:${registration.id}`;
+    const entry = entries.get(key);
+    if (!entry) {
+      entries.set(key, {
+        registrationIds: [registration.id],
+        participantIds: [registration.participantId],
+        groupEntryId: registration.groupEntryId,
+        registeredAt: registration.registeredAt,
+        firstId: registration.id,
+        waitlisted: registration.waitlisted,
+      });
+      continue;
+    }
+    entry.registrationIds.push(registration.id);
+    entry.participantIds.push(registration.participantId);
+    if (registration.registeredAt < entry.registeredAt) entry.registeredAt = registration.registeredAt;
+    entry.firstId = Math.min(entry.firstId, registration.id);
+    entry.waitlisted = entry.waitlisted && registration.waitlisted;
+  }
+
+  return Array.from(entries.values()).sort((a, b) =>
+    a.registeredAt.localeCompare(b.registeredAt) || a.firstId - b.firstId
+  );
+}
+
+// Whether entries added to the program now go on the waitlist first
+export function startsWaitlisted(program: Program): boolean {
+  return (program.capacity ?? null) !== null;
+}
+
+// Confirms waitlisted entries, earliest first, while the program has room.
+// A program without a capacity confirms everyone still waiting. The count and
+// the promotion happen under one lock on the program, against its capacity as
+// saved. Entries made of newRegistrationIds were only just added, so
+// confirming them is not logged.
+export async function promoteFromWaitlist(
+  storage: IStorage,
+  program: Program,
+  actor: string,
+  newRegistrationIds: number[] = []
+): Promise<number> {
+  let promoted: Entry[] = [];
+  await storage.confirmWaitlisted(program.id, (current, registrations) => {
+    const entries = programEntries(registrations);
+    const capacity = current.capacity ?? null;
+    let confirmed = entries.filter(e => !e.waitlisted).length;
+    promoted = [];
+    for (const entry of entries.filter(e => e.waitlisted)) {
+      if (capacity !== null && confirmed >= capacity) break;
+      promoted.push(entry);
+      confirmed++;
+    }
+    return promoted.flatMap(entry => entry.registrationIds);
+  });
+
+  for (const entry of promoted) {
+    if (entry.registrationIds.every(id => newRegistrationIds.includes(id))) continue;
+    await storage.createAuditLog({
+      action: "registration.promote",
+      entityType: entry.groupEntryId ? "groupEntry" : "registration",
+      entityId: entry.groupEntryId ?? entry.firstId,
+      actor,
+      details: { programId: program.id, participantIds: entry.participantIds }
+    });
+  }
+  return promoted.length;
+}
+
+// Adds each registration's place on its program's waitlist and drops the
+// participant copy
+export async function withWaitlistPositions(
+  storage: IStorage,
+  registrations: RegistrationWithDetails[]
+): Promise<ParticipantRegistration[]> {
+  const positions = new Map<number, number>(); // registration id -> position
+  const programIds = Array.from(new Set(registrations.filter(r => r.waitlisted).map(r => r.programId)));
+  for (const programId of programIds) {
+    const waiting = programEntries(await storage.getRegistrationsByProgramWithDetails(programId)).filter(e => e.waitlisted);
+    waiting.forEach((entry, index) => entry.registrationIds.forEach(id => positions.set(id, index + 1)));
+  }
+
+  return registrations.map(({ participant: _participant, ...registration }) => ({
+    ...registration,
+    waitlistPosition: registration.waitlisted ? positions.get(registration.id) ?? null : null,
+  }));
+}
@@ -0,0 +1,81 @@
+import type {
+  Program, ProgramWindow, RegistrationExtension, RegistrationWindow, SafeUser
+} from "@shared/schema";
+import type { IStorage } from "./storage";
+
+export const REGISTRATION_WINDOW_SETTING_KEY = "registrationWindow";
+
+export const defaultRegistrationWindow: RegistrationWindow = { opensAt: null, closesAt: null };
+
+export async function getRegistrationWindow(storage: IStorage): Promise<RegistrationWindow> {
+  return (await storage.getSetting<RegistrationWindow>(REGISTRATION_WINDOW_SETTING_KEY)) ?? defaultRegistrationWindow;
+}
+
+function latest(...times: (string | null)[]): string | null {
+  const set = times.filter((t): t is string => t !== null);
+  return set.length > 0 ? set.reduce((a, b) => (Date.parse(b) > Date.parse(a) ? b : a)) : null;
+}
+
+function earliest(...times: (string | null)[]): string | null {
+  const set = times.filter((t): t is string => t !== null);
+  return set.length > 0 ? set.reduce((a, b) => (Date.parse(b) < Date.parse(a) ? b : a)) : null;
+}
+
+// The program's window for one team. A program can only narrow the festival
+// window; an extension for the team can only push the close later.
+export function programWindow(
+  festival: RegistrationWindow,
+  program: Program,
+  extensions: RegistrationExtension[],
+  teamId: number | undefined,
+  now = new Date()
+): ProgramWindow {
+  const opensAt = latest(festival.opensAt, program.registrationOpensAt ?? null);
+  let closesAt = earliest(festival.closesAt, program.registrationClosesAt ?? null);
+
+  const extendedTo = latest(...extensions
+    .filter(e => e.teamId === teamId && (e.programId === null || e.programId === program.id))
+    .map(e => e.closesAt));
+  const extended = closesAt !== null && extendedTo !== null && Date.parse(extendedTo) > Date.parse(closesAt);
+  if (extended) closesAt = extendedTo;
+
+  const isOpen = (opensAt === null || Date.parse(opensAt) <= now.getTime()) &&
+    (closesAt === null || now.getTime() < Date.parse(closesAt));
+
+  return { programId: program.id, opensAt, closesAt, extended, isOpen };
+}
+
+// Every program's window for a team, or the general windows without one
+export async function programWindows(storage: IStorage, teamId?: number): Promise<ProgramWindow[]> {
+  const [festival, programs, extensions] = await Promise.all([
+    getRegistrationWindow(storage),
+    storage.getPrograms(),
+    storage.getRegistrationExtensions(),
+  ]);
+  return programs.map(program => programWindow(festival, program, extensions, teamId));
+}
+
+// Why the team cannot change its entries in the program right now, if it
+// cannot. Admins can still make corrections after registration closes.
+export async function registrationWindowProblem(
+  storage: IStorage,
+  program: Program,
+  teamId: number,
+  user?: Pick<SafeUser, "role">
+): Promise<string | undefined> {
+  if (user?.role === "admin") return undefined;
+
+  const window = programWindow(
+    await getRegistrationWindow(storage),
+    program,
+    await storage.getRegistrationExtensions(),
+    teamId
+  );
+  if (window.isOpen) return undefined;
+
+  // Times are left out: the server's time zone may not be the reader's
+  if (window.opensAt !== null && Date.parse(window.opensAt) > Date.now()) {
+    return `Registration for ${program.name} has not opened yet`;
+  }
+  return `Registration for ${program.name} has closed`;
+}
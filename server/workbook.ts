@@ -0,0 +1,134 @@
+import ExcelJS from "exceljs";
+import type { RegistrationWithDetails } from "@shared/schema";
+
+// Excel export of registrations: a summary sheet, then a sheet per team and
+// a sheet per program. Dates are written as real date cells in UTC.
+
+const DATE_FORMAT = "yyyy-mm-dd hh:mm";
+
+// Excel caps sheet names at 31 characters, forbids a few characters and
+// compares names without regard to case
+function sheetName(name: string, used: Set<string>): string {
+  const base = name.replace(/[:\\/?*[\]]/g, " ").trim().slice(0, 31) || "Sheet";
+  let candidate = base;
+  for (let n = 2; used.has(candidate.toLowerCase()); n++) {
+    const suffix = ` (${n})`;
+    candidate = base.slice(0, 31 - suffix.length) + suffix;
+  }
+  used.add(candidate.toLowerCase());
+  return candidate;
+}
+
+function addTable(
+  sheet: ExcelJS.Worksheet,
+  columns: { header: string; width: number; numFmt?: string }[],
+  rows: unknown[][]
+): void {
+  sheet.columns = columns.map(({ header, width, numFmt }) => ({ header, width, style: numFmt ? { numFmt } : {} }));
+  sheet.getRow(1).font = { bold: true };
+  sheet.views = [{ state: "frozen", ySplit: 1 }];
+  sheet.addRows(rows);
+  if (rows.length > 0) {
+    sheet.autoFilter = { from: { row: 1, column: 1 }, to: { row: 1, column: columns.length } };
+  }
+}
+
+function groupBy<K>(registrations: RegistrationWithDetails[], key: (r: RegistrationWithDetails) => K) {
+  const groups = new Map<K, RegistrationWithDetails[]>();
+  for (const registration of registrations) {
+    const group = groups.get(key(registration));
+    if (group) group.push(registration);
+    else groups.set(key(registration), [registration]);
+  }
+  return Array.from(groups.values());
+}
+
+const status = (registration: RegistrationWithDetails) => (registration.waitlisted ? "Waitlisted" : "Confirmed");
+
+export async function registrationsWorkbook(registrations: RegistrationWithDetails[]): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = "Arts Fest";
+  workbook.created = new Date();
+  const used = new Set<string>();
+
+  const sorted = [...registrations].sort((a, b) =>
+    a.participant.fullName.localeCompare(b.participant.fullName) || a.program.name.localeCompare(b.program.name)
+  );
+  const byTeam = groupBy(sorted, r => r.participant.teamId)
+    .sort((a, b) => a[0].participant.team.name.localeCompare(b[0].participant.team.name));
+  const byProgram = groupBy(sorted, r => r.programId)
+    .sort((a, b) => (a[0].program.sortOrder ?? 0) - (b[0].program.sortOrder ?? 0) || a[0].programId - b[0].programId);
+
+  const summary = workbook.addWorksheet(sheetName("Summary", used));
+  summary.columns = [{ width: 32 }, { width: 14 }, { width: 14 }, { width: 14 }];
+  summary.addRow(["Arts Fest Registrations"]).font = { bold: true, size: 14 };
+  const generated = summary.addRow(["Generated (UTC)", new Date()]);
+  generated.getCell(2).numFmt = DATE_FORMAT;
+  summary.addRow(["Registrations", registrations.length]);
+  summary.addRow(["Participants", new Set(registrations.map(r => r.participantId)).size]);
+  summary.addRow(["Waitlisted", registrations.filter(r => r.waitlisted).length]);
+
+  summary.addRow([]);
+  summary.addRow(["Team", "Participants", "Registrations", "Waitlisted"]).font = { bold: true };
+  for (const rows of byTeam) {
+    summary.addRow([
+      rows[0].participant.team.name,
+      new Set(rows.map(r => r.participantId)).size,
+      rows.length,
+      rows.filter(r => r.waitlisted).length,
+    ]);
+  }
+
+  summary.addRow([]);
+  summary.addRow(["Program", "Teams", "Registrations", "Waitlisted"]).font = { bold: true };
+  for (const rows of byProgram) {
+    summary.addRow([
+      rows[0].program.name,
+      new Set(rows.map(r => r.participant.teamId)).size,
+      rows.length,
+      rows.filter(r => r.waitlisted).length,
+    ]);
+  }
+
+  for (const rows of byTeam) {
+    addTable(workbook.addWorksheet(sheetName(rows[0].participant.team.name, used)), [
+      { header: "Participant", width: 30 },
+      { header: "Code", width: 16 },
+      { header: "Program", width: 30 },
+      { header: "Type", width: 12 },
+      { header: "Participation", width: 14 },
+      { header: "Group Entry", width: 12 },
+      { header: "Status", width: 12 },
+      { header: "Registered (UTC)", width: 18, numFmt: DATE_FORMAT },
+    ], rows.map(r => [
+      r.participant.fullName,
+      r.participant.uniqueCode,
+      r.program.name,
+      r.program.type,
+      r.program.participationType,
+      r.groupEntryId,
+      status(r),
+      new Date(r.registeredAt),
+    ]));
+  }
+
+  for (const rows of byProgram) {
+    addTable(workbook.addWorksheet(sheetName(rows[0].program.name, used)), [
+      { header: "Participant", width: 30 },
+      { header: "Team", width: 20 },
+      { header: "Code", width: 16 },
+      { header: "Group Entry", width: 12 },
+      { header: "Status", width: 12 },
+      { header: "Registered (UTC)", width: 18, numFmt: DATE_FORMAT },
+    ], rows.map(r => [
+      r.participant.fullName,
+      r.participant.team.name,
+      r.participant.uniqueCode,
+      r.groupEntryId,
+      status(r),
+      new Date(r.registeredAt),
+    ]));
+  }
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
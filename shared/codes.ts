@@ -0,0 +1,44 @@
+// Check characters for participant codes, shared so the browser can spot a
+// typo before asking the server. Uses the Luhn mod N algorithm over digits and
+// capital letters, which catches any single wrong character and most swaps of
+// neighbouring characters.
+
+import type { CodeFormat } from "./schema";
+
+const CODE_ALPHABET = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ";
+
+export const CHECK_SEPARATOR = "-";
+
+export function checkCharacter(base: string): string {
+  const n = CODE_ALPHABET.length;
+  const values = base.toUpperCase().split("")
+    .map(char => CODE_ALPHABET.indexOf(char))
+    .filter(value => value >= 0);
+
+  let factor = 2;
+  let sum = 0;
+  for (let i = values.length - 1; i >= 0; i--) {
+    const addend = factor * values[i];
+    sum += Math.floor(addend / n) + (addend % n);
+    factor = factor === 2 ? 1 : 2;
+  }
+
+  return CODE_ALPHABET[(n - (sum % n)) % n];
+}
+
+export function withCheckCharacter(base: string): string {
+  return `${base}${CHECK_SEPARATOR}${checkCharacter(base)}`;
+}
+
+// True when a code ends in a check character that does not match the rest.
+// Only formats that add a check character are checked: a pattern such as
+// {team}{number}-A, or a single random character, also ends in "-" and one
+// character.
+export function isMistypedCode(code: string, format: Pick<CodeFormat, "checkCharacter">): boolean {
+  if (!format.checkCharacter) return false;
+  const normalized = code.trim().toUpperCase();
+  const separator = normalized.lastIndexOf(CHECK_SEPARATOR);
+  if (separator < 1 || separator !== normalized.length - 2) return false;
+
+  return checkCharacter(normalized.slice(0, separator)) !== normalized[separator + 1];
+}
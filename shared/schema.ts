@@ -1,11 +1,14 @@
-import { pgTable, text, serial, integer, boolean, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, jsonb, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
 export const teams = pgTable("teams", {
   id: serial("id").primaryKey(),
   name: text("name").notNull().unique(),
+  // Starts new participant codes. Codes already issued keep the old one.
   code: text("code").notNull().unique(),
+  color: text("color"), // hex, e.g. '#2563eb'
+  logo: text("logo"), // image URL
 });
 
 export const participants = pgTable("participants", {
@@ -14,6 +17,7 @@ export const participants = pgTable("participants", {
   teamId: integer("team_id").references(() => teams.id).notNull(),
   uniqueCode: text("unique_code").notNull().unique(),
   profileImage: text("profile_image"),
+  chestNumber: integer("chest_number"), // when numbers are given per festival
 });
 
 export const programs = pgTable("programs", {
@@ -22,6 +26,22 @@ export const programs = pgTable("programs", {
   type: text("type").notNull(), // 'stage' or 'non-stage'
   participationType: text("participation_type").notNull(), // 'group' or 'individual'
   description: text("description"),
+  minMembers: integer("min_members"), // group programs only, leader included
+  maxMembers: integer("max_members"),
+  category: text("category"), // e.g. 'Speech', 'Song'
+  section: text("section"), // e.g. 'Arabic', 'Malayalam'
+  ageGroup: text("age_group"), // e.g. 'Junior', 'Senior'
+  maxEntries: integer("max_entries"), // entries allowed per team, overrides the registration rules
+  // Entries allowed across all teams. Later entries wait on the waitlist.
+  capacity: integer("capacity"),
+  durationMinutes: integer("duration_minutes"), // time on stage per entry
+  sortOrder: integer("sort_order").notNull().default(0),
+  // Narrow the festival's registration window for this program
+  registrationOpensAt: text("registration_opens_at"),
+  registrationClosesAt: text("registration_closes_at"),
+  // Archived programs take no new registrations and are hidden from the
+  // public list. Existing registrations are kept.
+  archived: boolean("archived").notNull().default(false),
 });
 
 export const registrations = pgTable("registrations", {
@@ -29,18 +49,185 @@ export const registrations = pgTable("registrations", {
   participantId: integer("participant_id").references(() => participants.id).notNull(),
   programId: integer("program_id").references(() => programs.id).notNull(),
   registeredAt: text("registered_at").notNull(),
+  appearanceOrder: integer("appearance_order"), // position on stage, stage programs only
+  groupEntryId: integer("group_entry_id").references(() => groupEntries.id), // group programs only
+  // Held until the program has room. Every registration of a group entry
+  // shares the entry's place.
+  waitlisted: boolean("waitlisted").notNull().default(false),
+  // When numbers are given per program. Every registration of a group entry
+  // shares the entry's number.
+  chestNumber: integer("chest_number"),
+}, (table) => [
+  unique("registrations_participant_program").on(table.participantId, table.programId),
+]);
+
+// A team's single entry in a group program. Each member, leader included,
+// holds a registration pointing back at the entry.
+export const groupEntries = pgTable("group_entries", {
+  id: serial("id").primaryKey(),
+  programId: integer("program_id").references(() => programs.id).notNull(),
+  teamId: integer("team_id").references(() => teams.id).notNull(),
+  leaderId: integer("leader_id").references(() => participants.id).notNull(),
+  createdAt: text("created_at").notNull(),
+}, (table) => [
+  unique("group_entries_program_team").on(table.programId, table.teamId),
+]);
+
+export const userRoles = ["admin", "team_manager", "judge", "volunteer", "participant"] as const;
+
+export const users = pgTable("users", {
+  id: serial("id").primaryKey(),
+  username: text("username").notNull().unique(),
+  password: text("password").notNull(),
+  role: text("role").notNull(), // 'admin', 'team_manager', 'judge', 'volunteer' or 'participant'
+  teamId: integer("team_id").references(() => teams.id), // team managers
+  judgeId: integer("judge_id").references(() => judges.id), // judges
+  participantId: integer("participant_id").references(() => participants.id), // participants
+});
+
+export const judges = pgTable("judges", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+});
+
+export const judgingCriteria = pgTable("judging_criteria", {
+  id: serial("id").primaryKey(),
+  programId: integer("program_id").references(() => programs.id).notNull(),
+  name: text("name").notNull(),
+  weight: integer("weight").notNull(), // relative weighting, e.g. 40 for 40%
+  maxScore: integer("max_score").notNull().default(10),
+});
+
+export const scoreSheets = pgTable("score_sheets", {
+  id: serial("id").primaryKey(),
+  judgeId: integer("judge_id").references(() => judges.id).notNull(),
+  registrationId: integer("registration_id").references(() => registrations.id).notNull(),
+  scores: jsonb("scores").$type<Record<string, number>>().notNull(), // criterion id -> score
+  locked: boolean("locked").notNull().default(false),
+  submittedAt: text("submitted_at").notNull(),
+}, (table) => [
+  unique("score_sheets_judge_registration").on(table.judgeId, table.registrationId),
+]);
+
+export const venues = pgTable("venues", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+});
+
+export const scheduleSlots = pgTable("schedule_slots", {
+  id: serial("id").primaryKey(),
+  programId: integer("program_id").references(() => programs.id).notNull().unique(),
+  venueId: integer("venue_id").references(() => venues.id).notNull(),
+  startsAt: text("starts_at").notNull(),
+  endsAt: text("ends_at").notNull(),
+});
+
+export const results = pgTable("results", {
+  id: serial("id").primaryKey(),
+  registrationId: integer("registration_id").references(() => registrations.id).notNull().unique(),
+  grade: text("grade"), // 'A', 'B' or 'C'
+  position: integer("position"), // 1, 2 or 3
+  publishedAt: text("published_at").notNull(),
+});
+
+// Attendance recorded at the green room when a participant's ID card is scanned
+export const checkIns = pgTable("check_ins", {
+  id: serial("id").primaryKey(),
+  participantId: integer("participant_id").references(() => participants.id).notNull(),
+  programId: integer("program_id").references(() => programs.id).notNull(),
+  checkedInBy: text("checked_in_by").notNull(), // username of the volunteer
+  checkedInAt: text("checked_in_at").notNull(),
+}, (table) => [
+  unique("check_ins_participant_program").on(table.participantId, table.programId),
+]);
+
+// Last number handed out in each team's participant codes
+export const codeCounters = pgTable("code_counters", {
+  id: serial("id").primaryKey(),
+  teamId: integer("team_id").references(() => teams.id).notNull().unique(),
+  value: integer("value").notNull(),
+});
+
+// Hash of the secret a participant chose to recover a lost code. Kept out of
+// the participants table so it never travels with participant rows.
+export const recoverySecrets = pgTable("recovery_secrets", {
+  id: serial("id").primaryKey(),
+  participantId: integer("participant_id").references(() => participants.id).notNull().unique(),
+  secretHash: text("secret_hash").notNull(),
+  setAt: text("set_at").notNull(),
+});
+
+// Extra time for one team after registration closes. A null program extends
+// every program for the team.
+export const registrationExtensions = pgTable("registration_extensions", {
+  id: serial("id").primaryKey(),
+  teamId: integer("team_id").references(() => teams.id).notNull(),
+  programId: integer("program_id").references(() => programs.id),
+  closesAt: text("closes_at").notNull(),
+  reason: text("reason"),
+  createdBy: text("created_by").notNull(), // username of the admin
+  createdAt: text("created_at").notNull(),
+});
+
+export const settings = pgTable("settings", {
+  id: serial("id").primaryKey(),
+  key: text("key").notNull().unique(),
+  value: jsonb("value").notNull(),
+});
+
+export const auditLogs = pgTable("audit_logs", {
+  id: serial("id").primaryKey(),
+  action: text("action").notNull(), // e.g. 'registration.delete'
+  entityType: text("entity_type").notNull(),
+  entityId: integer("entity_id").notNull(),
+  actor: text("actor").notNull(), // 'user:<username>', 'participant:<code>' or 'ip:<address>'
+  details: jsonb("details").$type<Record<string, unknown>>(),
+  createdAt: text("created_at").notNull(),
 });
 
 // Zod schemas
 export const insertTeamSchema = createInsertSchema(teams).omit({ id: true });
-export const insertParticipantSchema = createInsertSchema(participants).omit({ id: true, uniqueCode: true });
+export const insertParticipantSchema = createInsertSchema(participants).omit({ id: true, uniqueCode: true, chestNumber: true });
 export const insertProgramSchema = createInsertSchema(programs).omit({ id: true });
-export const insertRegistrationSchema = createInsertSchema(registrations).omit({ id: true, registeredAt: true });
+export const insertRegistrationSchema = createInsertSchema(registrations).omit({
+  id: true, registeredAt: true, appearanceOrder: true, chestNumber: true
+});
+export const insertGroupEntrySchema = createInsertSchema(groupEntries).omit({ id: true, createdAt: true });
+export const insertUserSchema = createInsertSchema(users, {
+  username: (schema) => schema.min(3, "Username must be at least 3 characters"),
+  password: (schema) => schema.min(8, "Password must be at least 8 characters"),
+  role: () => z.enum(userRoles),
+}).omit({ id: true });
+export const insertJudgeSchema = createInsertSchema(judges).omit({ id: true });
+export const insertJudgingCriterionSchema = createInsertSchema(judgingCriteria).omit({ id: true });
+export const insertScoreSheetSchema = createInsertSchema(scoreSheets).omit({ id: true, locked: true, submittedAt: true });
+export const insertVenueSchema = createInsertSchema(venues).omit({ id: true });
+export const insertScheduleSlotSchema = createInsertSchema(scheduleSlots).omit({ id: true });
+export const insertAuditLogSchema = createInsertSchema(auditLogs).omit({ id: true, createdAt: true });
+export const insertResultSchema = createInsertSchema(results).omit({ id: true, publishedAt: true });
+export const insertCheckInSchema = createInsertSchema(checkIns).omit({ id: true, checkedInAt: true });
+export const insertRegistrationExtensionSchema = createInsertSchema(registrationExtensions).omit({ id: true, createdAt: true });
+
+const recoverySecretSchema = z.string().trim()
+  .min(4, "Recovery word must be at least 4 characters")
+  .max(64, "Recovery word too long");
 
 // First registration schema
 export const firstRegistrationSchema = z.object({
   fullName: z.string().min(2, "Name must be at least 2 characters").max(100, "Name too long"),
   teamId: z.number().min(1, "Please select a team"),
+  // Set after the user has seen the likely duplicates and says this is someone else
+  confirmDuplicate: z.boolean().optional(),
+  // Lets the participant recover a lost code without an admin
+  recoverySecret: z.union([z.literal(""), recoverySecretSchema]).optional(),
+});
+
+// Lost code recovery - the participant proves who they are with the secret
+// chosen at registration, or a reset key issued by an admin
+export const codeRecoverySchema = z.object({
+  fullName: z.string().min(2, "Name must be at least 2 characters").max(100, "Name too long"),
+  teamId: z.number().min(1, "Please select a team"),
+  secret: z.string().trim().min(1, "Please enter your recovery word").max(64),
 });
 
 // Second registration schema
@@ -50,23 +237,546 @@ export const secondRegistrationSchema = z.object({
   profileImage: z.string().optional(),
 });
 
+// Registration rules schema - limits checked during program registration
+export const registrationRulesSchema = z.object({
+  // Caps on how many programs of a kind one participant may enter
+  maxPerParticipant: z.array(z.object({
+    type: z.enum(["stage", "non-stage"]).optional(),
+    participationType: z.enum(["group", "individual"]).optional(),
+    max: z.number().int().min(0),
+  })),
+  // Cap on entries from a single team in any one program
+  maxPerTeamPerProgram: z.number().int().min(1).nullable(),
+});
+
+// Code format schema - how participant codes are built. {team} is the team
+// code and {number} the team's next number, padded to the given digits.
+export const codeFormatSchema = z.object({
+  pattern: z.string()
+    .refine(p => p.includes("{team}") && p.includes("{number}"), "The pattern needs {team} and {number}")
+    .refine(p => /^[A-Z0-9-]*$/.test(p.replace(/\{team\}|\{number\}/g, "")), "Only capital letters, digits and hyphens are allowed"),
+  digits: z.number().int().min(3).max(8),
+  // Random characters after the number, so one code cannot be worked out
+  // from another. 0 gives plain sequential codes.
+  randomCharacters: z.number().int().min(0).max(8).default(4),
+  // Appends "-" and a check character so mistyped codes can be spotted
+  checkCharacter: z.boolean(),
+});
+
+// Chest number schema - how anonymous performer numbers are given out. Numbers
+// run from start, or from each team's own range.
+export const chestNumberSettingsSchema = z.object({
+  scope: z.enum(["festival", "program"]),
+  method: z.enum(["random", "team-ranges"]),
+  start: z.number().int().min(1),
+  teamRanges: z.array(z.object({
+    teamId: z.number().min(1),
+    from: z.number().int().min(1),
+    to: z.number().int().min(1),
+  })),
+}).refine(
+  data => data.teamRanges.every(range => range.from <= range.to),
+  { message: "Each team's range must start before it ends", path: ["teamRanges"] }
+).refine(
+  data => data.teamRanges.every((range, index) => data.teamRanges.every((other, otherIndex) =>
+    otherIndex === index || range.to < other.from || other.to < range.from
+  )),
+  { message: "Team ranges must not overlap", path: ["teamRanges"] }
+);
+
+// Chest number assignment schema - leave programId out to number every
+// program. keepExisting only numbers those still without one.
+export const chestNumberAssignSchema = z.object({
+  programId: z.number().min(1).optional(),
+  keepExisting: z.boolean().default(false),
+});
+
+// Group entry schema - the leader registers the whole roster by code
+export const groupEntrySchema = z.object({
+  programId: z.number().min(1, "Please select a program"),
+  leaderCode: z.string().min(5, "Invalid code format"),
+  memberCodes: z.array(z.string().min(5, "Invalid code format")),
+});
+
+// Group roster schema - replaces the members of an existing entry
+export const groupRosterSchema = z.object({
+  memberCodes: z.array(z.string().min(5, "Invalid code format")),
+  uniqueCode: z.string().optional(),
+});
+
+// Check-in schema - token read from the QR code on an ID card
+export const checkInSchema = z.object({
+  token: z.string().min(1, "Scan an ID card"),
+  programId: z.number().min(1, "Please select a program"),
+});
+
+// Merge schema - moves everything from one participant onto another
+export const mergeParticipantsSchema = z.object({
+  keepId: z.number().min(1),
+  mergeId: z.number().min(1),
+});
+
+// Batch report schema - registrations to include in the PDF
+export const batchReportSchema = z.object({
+  registrationIds: z.array(z.number()).min(1, "Select at least one registration"),
+});
+
+// Registration deletion schema - participants prove ownership with their code
+export const deleteRegistrationSchema = z.object({
+  uniqueCode: z.string().trim().toUpperCase().optional(),
+});
+
+// Login schema
+export const loginSchema = z.object({
+  username: z.string().min(1, "Username is required"),
+  password: z.string().min(1, "Password is required"),
+});
+
+// Judging criteria schema - replaces the full set of criteria for a program
+export const programCriteriaSchema = z.array(z.object({
+  name: z.string().min(1, "Criterion name is required"),
+  weight: z.number().int().positive("Weight must be positive"),
+  maxScore: z.number().int().positive("Max score must be positive").default(10),
+})).min(1, "Please add at least one criterion");
+
+// Optional text on a program; blank becomes null
+const programText = (max: number) =>
+  z.string().trim().max(max, "Too long").nullable().optional().transform(value => value || null);
+
+// Program schema - what admins set when creating or editing a program.
+// Criteria, when given, replace the program's judging criteria.
+const timestampSchema = z.string().refine(value => !isNaN(Date.parse(value)), "Invalid date and time");
+
+export const programFormSchema = z.object({
+  name: z.string().trim().min(2, "Program name is required").max(100, "Program name too long"),
+  type: z.enum(["stage", "non-stage"]),
+  participationType: z.enum(["group", "individual"]),
+  description: programText(500),
+  category: programText(50),
+  section: programText(50),
+  ageGroup: programText(50),
+  minMembers: z.number().int().min(2, "A group needs at least 2 members").nullable().optional(),
+  maxMembers: z.number().int().min(2, "A group needs at least 2 members").nullable().optional(),
+  maxEntries: z.number().int().min(1, "Allow at least 1 entry").nullable().optional(),
+  capacity: z.number().int().min(1, "Capacity must be at least 1").nullable().optional(),
+  durationMinutes: z.number().int().min(1, "Duration must be at least a minute").max(600, "Duration too long").nullable().optional(),
+  registrationOpensAt: timestampSchema.nullable().optional(),
+  registrationClosesAt: timestampSchema.nullable().optional(),
+  criteria: programCriteriaSchema.optional(),
+}).refine(
+  data => !data.minMembers || !data.maxMembers || data.minMembers <= data.maxMembers,
+  { message: "Minimum members cannot be more than maximum members", path: ["maxMembers"] }
+).refine(
+  data => !data.registrationOpensAt || !data.registrationClosesAt ||
+    Date.parse(data.registrationClosesAt) > Date.parse(data.registrationOpensAt),
+  { message: "Registration must close after it opens", path: ["registrationClosesAt"] }
+);
+
+// Registration window schema - when the whole festival takes registrations.
+// Either end may be left open.
+export const registrationWindowSchema = z.object({
+  opensAt: timestampSchema.nullable(),
+  closesAt: timestampSchema.nullable(),
+}).refine(
+  data => !data.opensAt || !data.closesAt || Date.parse(data.closesAt) > Date.parse(data.opensAt),
+  { message: "Registration must close after it opens", path: ["closesAt"] }
+);
+
+// Registration extension schema - leave programId out to extend every program
+export const registrationExtensionSchema = z.object({
+  teamId: z.number().min(1, "Please select a team"),
+  programId: z.number().min(1).nullable().optional(),
+  closesAt: timestampSchema,
+  reason: z.string().trim().max(200).optional(),
+});
+
+export const registrationSortFields = ["registeredAt", "participant", "team", "program", "code"] as const;
+
+// Registrations query schema - filters, sort and page for the registrations
+// table. Values arrive as query string text. The date range covers from up to
+// but not including to.
+export const registrationQuerySchema = z.object({
+  teamId: z.coerce.number().int().min(1).optional(),
+  programId: z.coerce.number().int().min(1).optional(),
+  type: z.enum(["stage", "non-stage"]).optional(),
+  participationType: z.enum(["group", "individual"]).optional(),
+  from: timestampSchema.optional(),
+  to: timestampSchema.optional(),
+  search: z.string().trim().max(100).optional(),
+  sort: z.enum(registrationSortFields).default("registeredAt"),
+  order: z.enum(["asc", "desc"]).default("desc"),
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(50),
+});
+
+// Registrations export schema - the table's filters, or just the selected
+// registrations when ids are given
+export const registrationExportSchema = registrationQuerySchema
+  .omit({ sort: true, order: true, cursor: true, limit: true })
+  .extend({ registrationIds: z.array(z.number()).optional() });
+
+// Team schema - what admins set when creating or editing a team
+export const teamFormSchema = z.object({
+  name: z.string().trim().min(2, "Team name is required").max(50, "Team name too long"),
+  code: z.string().trim().toUpperCase().regex(/^[A-Z0-9]{2,6}$/, "Team code must be 2 to 6 letters or digits"),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, "Color must look like #2563eb").nullable().optional(),
+  logo: z.string().max(500).nullable().optional(),
+});
+
+// Team manager schema - a login for one team's manager
+export const teamManagerSchema = z.object({
+  username: z.string().trim().min(3, "Username must be at least 3 characters"),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+});
+
+// Program order schema - every program id, in the order to show them
+export const programOrderSchema = z.object({
+  programIds: z.array(z.number()).min(1, "No programs given"),
+});
+
+export const programArchiveSchema = z.object({
+  archived: z.boolean(),
+});
+
+// Score submission schema
+export const scoreSubmissionSchema = z.object({
+  judgeId: z.number().min(1, "Please select a judge"),
+  registrationId: z.number().min(1, "Please select a registration"),
+  scores: z.record(z.string(), z.number().min(0, "Scores cannot be negative")),
+});
+
+// Schedule slot schema for a stage program
+export const scheduleSlotSchema = z.object({
+  venueId: z.number().min(1, "Please select a venue"),
+  startsAt: timestampSchema,
+  endsAt: timestampSchema,
+}).refine(slot => Date.parse(slot.endsAt) > Date.parse(slot.startsAt), {
+  message: "End time must be after start time",
+  path: ["endsAt"],
+});
+
+// Appearance order schema - omit registrationIds to draw lots
+export const appearanceOrderSchema = z.object({
+  registrationIds: z.array(z.number()).optional(),
+});
+
+// Manual result entry schema
+export const resultEntrySchema = z.object({
+  grade: z.enum(["A", "B", "C"]).nullable().default(null),
+  position: z.number().int().min(1).max(3).nullable().default(null),
+});
+
+// Points configuration schema
+const pointsTableSchema = z.object({
+  grade: z.object({ A: z.number().min(0), B: z.number().min(0), C: z.number().min(0) }),
+  position: z.object({ 1: z.number().min(0), 2: z.number().min(0), 3: z.number().min(0) }),
+});
+
+export const pointsConfigSchema = z.object({
+  individual: pointsTableSchema,
+  group: pointsTableSchema,
+  // Minimum judged score (out of 100) for each grade when publishing results
+  gradeThresholds: z.object({ A: z.number().min(0).max(100), B: z.number().min(0).max(100), C: z.number().min(0).max(100) }),
+});
+
 // Types
 export type Team = typeof teams.$inferSelect;
 export type Participant = typeof participants.$inferSelect;
 export type Program = typeof programs.$inferSelect;
 export type Registration = typeof registrations.$inferSelect;
+export type GroupEntry = typeof groupEntries.$inferSelect;
+export type User = typeof users.$inferSelect;
+export type UserRole = typeof userRoles[number];
+export type Judge = typeof judges.$inferSelect;
+export type JudgingCriterion = typeof judgingCriteria.$inferSelect;
+export type ScoreSheet = typeof scoreSheets.$inferSelect;
+export type Venue = typeof venues.$inferSelect;
+export type ScheduleSlot = typeof scheduleSlots.$inferSelect;
+export type Result = typeof results.$inferSelect;
+export type CodeCounter = typeof codeCounters.$inferSelect;
+export type RecoverySecret = typeof recoverySecrets.$inferSelect;
+export type RegistrationExtension = typeof registrationExtensions.$inferSelect;
+export type Setting = typeof settings.$inferSelect;
+export type AuditLog = typeof auditLogs.$inferSelect;
+export type CheckIn = typeof checkIns.$inferSelect;
 
 export type InsertTeam = z.infer<typeof insertTeamSchema>;
 export type InsertParticipant = z.infer<typeof insertParticipantSchema>;
 export type InsertProgram = z.infer<typeof insertProgramSchema>;
 export type InsertRegistration = z.infer<typeof insertRegistrationSchema>;
+export type InsertGroupEntry = z.infer<typeof insertGroupEntrySchema>;
+export type InsertUser = z.infer<typeof insertUserSchema>;
+export type InsertJudge = z.infer<typeof insertJudgeSchema>;
+export type InsertJudgingCriterion = z.infer<typeof insertJudgingCriterionSchema>;
+export type InsertScoreSheet = z.infer<typeof insertScoreSheetSchema>;
+export type InsertVenue = z.infer<typeof insertVenueSchema>;
+export type InsertScheduleSlot = z.infer<typeof insertScheduleSlotSchema>;
+export type InsertResult = z.infer<typeof insertResultSchema>;
+export type InsertAuditLog = z.infer<typeof insertAuditLogSchema>;
+export type InsertCheckIn = z.infer<typeof insertCheckInSchema>;
+export type InsertRegistrationExtension = z.infer<typeof insertRegistrationExtensionSchema>;
 
+export type RegistrationRules = z.infer<typeof registrationRulesSchema>;
+export type CodeFormat = z.infer<typeof codeFormatSchema>;
+export type RegistrationWindow = z.infer<typeof registrationWindowSchema>;
+export type RegistrationExtensionInput = z.infer<typeof registrationExtensionSchema>;
+export type Login = z.infer<typeof loginSchema>;
 export type FirstRegistration = z.infer<typeof firstRegistrationSchema>;
 export type SecondRegistration = z.infer<typeof secondRegistrationSchema>;
+export type GroupEntryInput = z.infer<typeof groupEntrySchema>;
+export type GroupRoster = z.infer<typeof groupRosterSchema>;
+export type ProgramCriteria = z.infer<typeof programCriteriaSchema>;
+export type ScoreSubmission = z.infer<typeof scoreSubmissionSchema>;
+export type ScheduleSlotInput = z.infer<typeof scheduleSlotSchema>;
+export type AppearanceOrder = z.infer<typeof appearanceOrderSchema>;
+export type ResultEntry = z.infer<typeof resultEntrySchema>;
+export type CheckInInput = z.infer<typeof checkInSchema>;
+export type BatchReportInput = z.infer<typeof batchReportSchema>;
+export type RegistrationQuery = z.infer<typeof registrationQuerySchema>;
+export type ChestNumberSettings = z.infer<typeof chestNumberSettingsSchema>;
+export type ChestNumberAssign = z.infer<typeof chestNumberAssignSchema>;
+export type RegistrationExport = z.infer<typeof registrationExportSchema>;
+export type RegistrationSortField = typeof registrationSortFields[number];
+export type MergeParticipants = z.infer<typeof mergeParticipantsSchema>;
+export type ProgramForm = z.infer<typeof programFormSchema>;
+export type TeamForm = z.infer<typeof teamFormSchema>;
+export type TeamManagerInput = z.infer<typeof teamManagerSchema>;
+export type CodeRecovery = z.infer<typeof codeRecoverySchema>;
+export type PointsConfig = z.infer<typeof pointsConfigSchema>;
 
 // Extended types for API responses
+export type SafeUser = Omit<User, "password">;
 export type ParticipantWithTeam = Participant & { team: Team };
 export type RegistrationWithDetails = Registration & { 
   participant: ParticipantWithTeam;
   program: Program;
 };
+
+// One page of the registrations table. nextCursor fetches the page after this
+// one and is null on the last page; total counts every match across pages.
+export type RegistrationPage = {
+  items: RegistrationWithDetails[];
+  total: number;
+  nextCursor: string | null;
+};
+
+export type GroupEntryWithDetails = GroupEntry & {
+  program: Program;
+  team: Team;
+  leader: Participant;
+  members: Participant[]; // leader included
+};
+
+// A participant's code works as their password, so responses anyone can fetch
+// leave it out
+export type PublicParticipant = Omit<Participant, "uniqueCode" | "chestNumber">;
+export type PublicParticipantWithTeam = PublicParticipant & { team: Team };
+
+export type PublicGroupEntry = Omit<GroupEntryWithDetails, "leader" | "members"> & {
+  leader: PublicParticipant;
+  members: PublicParticipant[];
+};
+
+// What looking up a code returns: the participant and their own registrations.
+// waitlistPosition counts from 1 and is null once the place is confirmed.
+export type ParticipantRegistration = Registration & { program: Program; waitlistPosition: number | null };
+
+// A team's page for its managers: every member and what they entered
+export type TeamMember = {
+  participant: Participant;
+  registrations: ParticipantRegistration[];
+};
+
+export type TeamDashboard = {
+  team: Team;
+  managers: SafeUser[];
+  members: TeamMember[];
+  groupEntries: GroupEntryWithDetails[];
+};
+
+// When a program takes registrations from one team, after combining the
+// festival window, the program's own and any extension for the team
+export type ProgramWindow = {
+  programId: number;
+  opensAt: string | null;
+  closesAt: string | null;
+  extended: boolean;
+  isOpen: boolean;
+};
+
+export type ParticipantLookup = {
+  participant: ParticipantWithTeam;
+  registrations: ParticipantRegistration[];
+};
+
+export type ProgramResult = {
+  registration: RegistrationWithDetails;
+  judgeCount: number;
+  lockedCount: number;
+  score: number; // weighted average across judges, out of 100
+  rank: number;
+};
+
+// An entry as judges see it: by chest number, with nothing that names the
+// performer or their team
+export type JudgingEntry = {
+  registrationId: number;
+  chestNumber: number | null;
+  appearanceOrder: number | null;
+};
+
+export type ChestNumberAssignment = { id: number; chestNumber: number | null };
+
+export type AnonymousProgramResult = Omit<ProgramResult, "registration"> & { entry: JudgingEntry };
+
+export type RuleViolation = {
+  programId: number;
+  rule: "maxPerParticipant" | "maxPerTeamPerProgram";
+  message: string;
+};
+
+// An existing participant whose name looks like a new one
+export type DuplicateCandidate = {
+  participant: PublicParticipantWithTeam; // shown before registering, so without a code
+  score: number; // 1 means the names are the same once normalized
+};
+
+export type DuplicatePair = {
+  first: ParticipantWithTeam;
+  second: ParticipantWithTeam;
+  score: number;
+};
+
+// What happened to one of the programs in a second registration
+export type ProgramOutcome = {
+  programId: number;
+  message: string;
+};
+
+// One row of a participant import. uniqueCode is filled in once imported.
+export type ImportRow = {
+  row: number; // row number in the spreadsheet
+  fullName: string;
+  teamId: number | null;
+  teamName: string | null;
+  programIds: number[];
+  programNames: string[];
+  errors: string[];
+  uniqueCode: string | null;
+};
+
+export type ImportResult = {
+  dryRun: boolean;
+  rows: ImportRow[];
+  imported: number;
+  message: string;
+};
+
+export type SecondRegistrationResult = {
+  registrations: ParticipantRegistration[];
+  added: ProgramOutcome[];
+  skipped: ProgramOutcome[];   // already registered
+  rejected: ProgramOutcome[];  // nothing is saved while any program is rejected
+  message: string;
+};
+
+export type ScheduleEntry = ScheduleSlot & {
+  program: Program;
+  venue: Venue;
+};
+
+export type ScheduleClash = {
+  participant: ParticipantWithTeam;
+  first: ScheduleEntry;
+  second: ScheduleEntry;
+};
+
+export type AttendanceEntry = {
+  registration: RegistrationWithDetails;
+  checkIn: CheckIn | null;
+};
+
+// One line of a program's call sheet. A group entry appears once, through its
+// leader's registration, with every member listed.
+export type CallSheetEntry = {
+  registration: RegistrationWithDetails;
+  members: ParticipantWithTeam[]; // group entries only, leader included
+  chestNumber: number | null;
+};
+
+export type ResultWithDetails = Result & {
+  registration: RegistrationWithDetails;
+};
+
+export type TeamStanding = {
+  team: Team;
+  points: number;
+  firsts: number;
+  seconds: number;
+  thirds: number;
+  aGrades: number;
+  rank: number;
+};
+
+// Raw counts from storage, aggregated by the database where there is one
+export type RegistrationCount = {
+  programId: number;
+  teamId: number;
+  waitlisted: boolean;
+  registrations: number;
+  participants: number;
+};
+
+export type TeamParticipantCount = {
+  teamId: number;
+  participants: number;
+  registeredParticipants: number; // with at least one registration
+};
+
+export type DailyRegistrationCount = {
+  date: string; // YYYY-MM-DD, UTC
+  registrations: number;
+};
+
+// Registrations include waitlisted ones unless a field says otherwise
+export type StatisticsTotals = {
+  participants: number;
+  registeredParticipants: number;
+  registrations: number;
+  waitlisted: number;
+  stageRegistrations: number;
+  nonStageRegistrations: number;
+  programs: number; // not archived
+  stagePrograms: number;
+  nonStagePrograms: number;
+};
+
+export type TeamStatistics = {
+  team: Team;
+  participants: number;
+  registeredParticipants: number;
+  registrations: number;
+  stageRegistrations: number;
+  nonStageRegistrations: number;
+};
+
+export type ProgramStatistics = {
+  program: Program;
+  registrations: number;
+  waitlisted: number;
+  teams: number; // teams with at least one registration
+};
+
+export type ParticipationTypeStatistics = {
+  participationType: "individual" | "group";
+  programs: number;
+  registrations: number;
+};
+
+export type FestivalStatistics = {
+  totals: StatisticsTotals;
+  teams: TeamStatistics[];
+  programs: ProgramStatistics[];
+  participationTypes: ParticipationTypeStatistics[];
+  daily: DailyRegistrationCount[];
+};